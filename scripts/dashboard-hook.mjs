@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+/**
+ * Claude Code hook that forwards the hook's JSON input to the dashboard.
+ * Register it for PreToolUse, PostToolUse, Notification, Stop and SubagentStop
+ * in .claude/settings.json (see README "Hook ingestion").
+ *
+ * DASHBOARD_URL overrides the default http://localhost:3000.
+ * Never blocks Claude Code: always exits 0, and gives up after one second.
+ */
+const url = `${process.env.DASHBOARD_URL ?? 'http://localhost:3000'}/api/hooks`
+
+let input = ''
+process.stdin.setEncoding('utf8')
+process.stdin.on('data', chunk => { input += chunk })
+process.stdin.on('end', async () => {
+  try {
+    await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: input,
+      signal: AbortSignal.timeout(1000),
+    })
+  } catch {
+    // Dashboard not running — nothing to do
+  }
+  process.exit(0)
+})
@@ -1,31 +1,29 @@
-import { TaktAdapter } from '@/lib/adapters/takt'
-import { ClaudeCodeAdapter } from '@/lib/adapters/claude-code'
-import type { DashboardAdapter } from '@/lib/adapters/types'
-import { getFileWatcher } from '@/lib/watcher'
+import { createAdapter } from '@/lib/adapters/registry'
+import { getFileWatcher, type FileWatcher } from '@/lib/watcher'
 import { MOCK_STATE } from '@/lib/mock-data'
 import { SSE_HEARTBEAT_MS } from '@/lib/constants'
+import { projectFromRequest, useMockData } from '@/lib/config'
 import type { DashboardState } from '@/types'
-import fs from 'fs'
-import path from 'path'
 
-function getAdapter(): DashboardAdapter {
-  const projectDir = process.env.TAKT_PROJECT_DIR ?? process.cwd()
-  const claudeHome = process.env.CLAUDE_HOME ?? `${process.env.HOME}/.claude`
-
-  // Auto-detect: use Takt adapter if .takt/ directory exists, otherwise Claude Code adapter
-  const taktDir = path.join(projectDir, '.takt')
-  if (fs.existsSync(taktDir)) {
-    return new TaktAdapter(projectDir, claudeHome)
+export async function GET(request: Request): Promise<Response> {
+  // ?project=<id> selects one of the configured projects; the first one by default
+  const project = projectFromRequest(request)
+  if (!project) {
+    return Response.json({ error: 'Unknown project' }, { status: 404 })
   }
 
-  return new ClaudeCodeAdapter(projectDir, claudeHome)
-}
-
-function useMockData(): boolean {
-  return process.env.USE_MOCK_DATA === 'true'
-}
+  // Build the adapter before streaming so an unknown DASHBOARD_ADAPTER or bad
+  // adapter config surfaces as an HTTP error rather than a silent stream
+  let watcher: FileWatcher | null = null
+  if (!useMockData()) {
+    try {
+      watcher = getFileWatcher(project.id, () => createAdapter(project.dir))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create adapter'
+      return Response.json({ error: message }, { status: 500 })
+    }
+  }
 
-export async function GET(): Promise<Response> {
   const encoder = new TextEncoder()
 
   const stream = new ReadableStream({
@@ -50,7 +48,7 @@ export async function GET(): Promise<Response> {
         }
       }
 
-      if (useMockData()) {
+      if (!watcher) {
         send(MOCK_STATE)
         const heartbeatInterval = setInterval(sendHeartbeat, SSE_HEARTBEAT_MS)
         stream.cancel = async () => {
@@ -60,9 +58,6 @@ export async function GET(): Promise<Response> {
         return
       }
 
-      const adapter = getAdapter()
-      const watcher = getFileWatcher(adapter)
-
       await watcher.start()
       const initialState = await watcher.getInitialState()
       send(initialState)
@@ -0,0 +1,17 @@
+import { readFileActivity } from '@/lib/file-activity'
+import { getClaudeHome, projectFromRequest } from '@/lib/config'
+
+export async function GET(request: Request): Promise<Response> {
+  const project = projectFromRequest(request)
+  if (!project) {
+    return Response.json({ error: 'Unknown project' }, { status: 404 })
+  }
+
+  try {
+    const files = await readFileActivity(getClaudeHome(), project.dir)
+    return Response.json({ files })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to read file activity'
+    return Response.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { readHistoryState } from '@/lib/session-history'
+import { getClaudeHome, projectFromRequest } from '@/lib/config'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> },
+): Promise<Response> {
+  const { sessionId } = await params
+  const project = projectFromRequest(request)
+  if (!project) {
+    return Response.json({ error: 'Unknown project' }, { status: 404 })
+  }
+
+  try {
+    const state = await readHistoryState(getClaudeHome(), project.dir, sessionId)
+    if (!state) {
+      return Response.json({ error: `Session ${sessionId} not found` }, { status: 404 })
+    }
+    return Response.json(state)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to read session'
+    return Response.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,17 @@
+import { listSessionHistory } from '@/lib/session-history'
+import { getClaudeHome, projectFromRequest } from '@/lib/config'
+
+export async function GET(request: Request): Promise<Response> {
+  const project = projectFromRequest(request)
+  if (!project) {
+    return Response.json({ error: 'Unknown project' }, { status: 404 })
+  }
+
+  try {
+    const sessions = await listSessionHistory(getClaudeHome(), project.dir)
+    return Response.json({ sessions })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to read session history'
+    return Response.json({ error: message }, { status: 500 })
+  }
+}
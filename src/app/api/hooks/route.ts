@@ -0,0 +1,25 @@
+import { HookPayloadSchema, getHookStore, projectForHook } from '@/lib/hooks'
+import { getProjects } from '@/lib/config'
+
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: 'Expected a JSON hook payload' }, { status: 400 })
+  }
+
+  const parsed = HookPayloadSchema.safeParse(body)
+  if (!parsed.success) {
+    return Response.json({ error: parsed.error.issues.map(i => i.message).join('; ') }, { status: 400 })
+  }
+
+  // Hooks from repos the dashboard doesn't watch are acknowledged and dropped
+  const project = projectForHook(parsed.data, getProjects())
+  if (!project) {
+    return Response.json({ accepted: false, reason: 'different project' })
+  }
+
+  getHookStore(project.id).ingest(parsed.data)
+  return Response.json({ accepted: true, project: project.id })
+}
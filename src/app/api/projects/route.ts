@@ -0,0 +1,11 @@
+import { readProjectOverviews } from '@/lib/projects'
+
+export async function GET(): Promise<Response> {
+  try {
+    const projects = await readProjectOverviews()
+    return Response.json({ projects })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to read projects'
+    return Response.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { createAdapter } from '@/lib/adapters/registry'
+import { ReplayAdapter, ReplayCommandSchema } from '@/lib/adapters/replay'
+import { getFileWatcher } from '@/lib/watcher'
+import { projectFromRequest } from '@/lib/config'
+
+/** The project's replay adapter, or an error response when it isn't replaying a recording. */
+function findReplay(request: Request): ReplayAdapter | Response {
+  const project = projectFromRequest(request)
+  if (!project) {
+    return Response.json({ error: 'Unknown project' }, { status: 404 })
+  }
+  try {
+    const adapter = getFileWatcher(project.id, () => createAdapter(project.dir)).getAdapter()
+    if (adapter instanceof ReplayAdapter) return adapter
+    return Response.json({ error: 'Project is not replaying a recording' }, { status: 404 })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create adapter'
+    return Response.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const replay = findReplay(request)
+  if (replay instanceof Response) return replay
+  return Response.json(await replay.getStatus())
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const replay = findReplay(request)
+  if (replay instanceof Response) return replay
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: 'Expected a JSON replay command' }, { status: 400 })
+  }
+
+  const parsed = ReplayCommandSchema.safeParse(body)
+  if (!parsed.success) {
+    return Response.json({ error: parsed.error.issues.map(i => i.message).join('; ') }, { status: 400 })
+  }
+
+  replay.apply(parsed.data)
+  return Response.json(await replay.getStatus())
+}
@@ -0,0 +1,24 @@
+import { readTranscript } from '@/lib/transcript'
+import { getClaudeHome, projectFromRequest } from '@/lib/config'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> },
+): Promise<Response> {
+  const { sessionId } = await params
+  const project = projectFromRequest(request)
+  if (!project) {
+    return Response.json({ error: 'Unknown project' }, { status: 404 })
+  }
+
+  try {
+    const transcript = await readTranscript(getClaudeHome(), project.dir, sessionId)
+    if (!transcript) {
+      return Response.json({ error: `Session ${sessionId} not found` }, { status: 404 })
+    }
+    return Response.json(transcript)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to read session'
+    return Response.json({ error: message }, { status: 500 })
+  }
+}
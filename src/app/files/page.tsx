@@ -0,0 +1,69 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { FileActivity } from '@/types'
+import { FileTable } from '@/components/files/file-table'
+import { LoadingScreen } from '@/components/loading-screen'
+import { PERIODIC_REEVAL_MS } from '@/lib/constants'
+import { useProjectHref } from '@/lib/use-projects'
+
+export default function FilesPage() {
+  const projectHref = useProjectHref()
+  const [files, setFiles] = useState<FileActivity[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = () => {
+      fetch(projectHref('/api/files'))
+        .then(async res => {
+          const body = await res.json()
+          if (cancelled) return
+          if (!res.ok) {
+            setError(body.error ?? `Failed to load files (${res.status})`)
+          } else {
+            setError(null)
+            setFiles(body.files as FileActivity[])
+          }
+        })
+        .catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load files')
+        })
+    }
+
+    load()
+    const timer = setInterval(load, PERIODIC_REEVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [projectHref])
+
+  if (!files && !error) {
+    return <LoadingScreen />
+  }
+
+  const conflicts = files?.filter(f => f.conflict).length ?? 0
+
+  return (
+    <main className="flex h-screen flex-col gap-2 overflow-hidden p-3">
+      <div className="flex items-center gap-3">
+        <Link href={projectHref('/')} className="w-fit rounded-md border border-gray-700/50 bg-gray-800/80 px-2 py-0.5 text-xs text-gray-300 transition-colors hover:bg-gray-700">
+          🏠 Dashboard
+        </Link>
+        <h1 className="text-sm font-semibold text-gray-200">📁 Files touched by agents</h1>
+        {conflicts > 0 && (
+          <span className="rounded bg-red-900/60 px-2 py-0.5 text-xs text-red-300">
+            {conflicts} edit conflict{conflicts === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="min-h-0 flex-1 overflow-y-auto rounded-xl border border-gray-800 bg-gray-900/50">
+        <FileTable files={files ?? []} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import type { DashboardState } from '@/types'
+import { DashboardLayout } from '@/components/dashboard-layout'
+import { LoadingScreen } from '@/components/loading-screen'
+import { ErrorBoundary } from '@/components/error-boundary'
+import { useProjectHref } from '@/lib/use-projects'
+
+export default function HistorySessionPage() {
+  const { sessionId } = useParams<{ sessionId: string }>()
+  const projectHref = useProjectHref()
+  const [state, setState] = useState<DashboardState | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch(projectHref(`/api/history/${encodeURIComponent(sessionId)}`))
+      .then(async res => {
+        const body = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          setError(body.error ?? `Failed to load session (${res.status})`)
+        } else {
+          setState(body as DashboardState)
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load session')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId, projectHref])
+
+  if (error) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-4 bg-gray-950">
+        <span className="text-4xl">🔍</span>
+        <p className="max-w-md text-center text-sm text-gray-500">{error}</p>
+        <Link href={projectHref('/history')} className="rounded-lg border border-gray-700 bg-gray-800 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700">
+          Back to history
+        </Link>
+      </div>
+    )
+  }
+
+  if (!state) {
+    return <LoadingScreen />
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className="fixed inset-x-0 top-0 z-50 flex items-center gap-3 border-b border-amber-600/60 bg-amber-950/90 px-4 py-1 text-xs text-amber-100">
+        <span>🕘 Viewing past session <span className="font-mono">{sessionId.slice(0, 8)}</span> (read-only)</span>
+        <Link href={projectHref('/history')} className="text-amber-300 hover:underline">All sessions</Link>
+        <Link href={projectHref('/')} className="ml-auto text-amber-300 hover:underline">Back to live</Link>
+      </div>
+      <DashboardLayout state={state} isConnected={false} error={null} history />
+    </ErrorBoundary>
+  )
+}
@@ -0,0 +1,56 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { SessionSummary } from '@/types'
+import { SessionTable } from '@/components/history/session-table'
+import { LoadingScreen } from '@/components/loading-screen'
+import { useProjectHref } from '@/lib/use-projects'
+
+export default function HistoryPage() {
+  const projectHref = useProjectHref()
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch(projectHref('/api/history'))
+      .then(async res => {
+        const body = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          setError(body.error ?? `Failed to load session history (${res.status})`)
+        } else {
+          setSessions(body.sessions as SessionSummary[])
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load session history')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [projectHref])
+
+  if (!sessions && !error) {
+    return <LoadingScreen />
+  }
+
+  return (
+    <main className="flex h-screen flex-col gap-2 overflow-hidden p-3">
+      <div className="flex items-center gap-3">
+        <Link href={projectHref('/')} className="w-fit rounded-md border border-gray-700/50 bg-gray-800/80 px-2 py-0.5 text-xs text-gray-300 transition-colors hover:bg-gray-700">
+          🏠 Dashboard
+        </Link>
+        <h1 className="text-sm font-semibold text-gray-200">🕘 Session history</h1>
+        {sessions && <span className="text-xs text-gray-500">{sessions.length} sessions</span>}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="min-h-0 flex-1 overflow-y-auto rounded-xl border border-gray-800 bg-gray-900/50">
+        <SessionTable sessions={sessions ?? []} />
+      </div>
+    </main>
+  )
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from 'next'
+import { Suspense } from 'react'
 import './globals.css'
 
 export const metadata: Metadata = {
@@ -14,7 +15,8 @@ export default function RootLayout({
   return (
     <html lang="en" className="dark">
       <body className="bg-gray-950 text-gray-100 antialiased">
-        {children}
+        {/* Pages read ?project= with useSearchParams, which needs a Suspense boundary */}
+        <Suspense>{children}</Suspense>
       </body>
     </html>
   )
@@ -1,15 +1,20 @@
 'use client'
 
+import type { ProjectOverview as ProjectOverviewData } from '@/types'
 import { useDashboardSSE } from '@/lib/sse'
-import { VillageCanvas } from '@/components/village/village-canvas'
-import { MonitorPanel } from '@/components/monitor/monitor-panel'
-import { ActivityPanel } from '@/components/activity/activity-panel'
-import { TicketTracker } from '@/components/tickets/ticket-tracker'
+import { useProjectId, useProjectOverviews } from '@/lib/use-projects'
+import { DashboardLayout } from '@/components/dashboard-layout'
 import { LoadingScreen } from '@/components/loading-screen'
 import { ErrorBoundary } from '@/components/error-boundary'
+import { BlockedBanner } from '@/components/blocked-banner'
+import { ProjectOverview } from '@/components/projects/project-overview'
+import { ReplayControls } from '@/components/replay/replay-controls'
 
-export default function Home() {
-  const { state, isConnected, error } = useDashboardSSE()
+function LiveDashboard({ projectId, projects }: {
+  readonly projectId: string | null
+  readonly projects: readonly ProjectOverviewData[]
+}) {
+  const { state, isConnected, error } = useDashboardSSE(projectId)
 
   if (!state) {
     return <LoadingScreen />
@@ -17,38 +22,22 @@ export default function Home() {
 
   return (
     <ErrorBoundary>
-      <main className="grid h-screen grid-cols-[3fr_2fr] grid-rows-2 overflow-hidden">
-        {/* Top-left: Agent Village */}
-        <section className="border-b border-r border-gray-800">
-          <VillageCanvas agents={state.agents} />
-        </section>
-
-        {/* Top-right: Monitor Panel */}
-        <section className="overflow-y-auto border-b border-gray-800 p-3">
-          <MonitorPanel state={state} isConnected={isConnected} />
-        </section>
+      <BlockedBanner agents={state.agents} />
+      <DashboardLayout state={state} isConnected={isConnected} error={error} projects={projects} />
+      <ReplayControls projectId={projectId} />
+    </ErrorBoundary>
+  )
+}
 
-        {/* Bottom-left: Ticket Tracker */}
-        <section className="border-r border-gray-800">
-          <TicketTracker
-            tickets={state.tickets}
-            agents={state.agents}
-            currentMilestone={state.project.currentMilestone}
-          />
-        </section>
+export default function Home() {
+  const projectId = useProjectId()
+  const { projects, error } = useProjectOverviews()
 
-        {/* Bottom-right: Activity Log */}
-        <section className="overflow-hidden">
-          <ActivityPanel events={state.activity} agents={state.agents} />
-        </section>
+  // Several projects and none picked: land on the overview
+  if (projectId === null) {
+    if (!projects && !error) return <LoadingScreen />
+    if (projects && projects.length > 1) return <ProjectOverview projects={projects} error={error} />
+  }
 
-        {/* Error banner */}
-        {(error || state.error) && (
-          <div className="col-span-2 border-t border-red-800/50 bg-red-950/30 px-4 py-2 text-xs text-red-400">
-            {error ?? state.error}
-          </div>
-        )}
-      </main>
-    </ErrorBoundary>
-  )
+  return <LiveDashboard projectId={projectId} projects={projects ?? []} />
 }
@@ -0,0 +1,65 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import type { SessionTranscript } from '@/types'
+import { TranscriptView } from '@/components/transcript/transcript-view'
+import { LoadingScreen } from '@/components/loading-screen'
+import { useProjectHref } from '@/lib/use-projects'
+
+export default function SessionPage() {
+  const { sessionId } = useParams<{ sessionId: string }>()
+  const projectHref = useProjectHref()
+  const [transcript, setTranscript] = useState<SessionTranscript | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch(projectHref(`/api/sessions/${encodeURIComponent(sessionId)}`))
+      .then(async res => {
+        const body = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          setError(body.error ?? `Failed to load session (${res.status})`)
+        } else {
+          setTranscript(body as SessionTranscript)
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load session')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId, projectHref])
+
+  if (error) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-4 bg-gray-950">
+        <span className="text-4xl">🔍</span>
+        <p className="max-w-md text-center text-sm text-gray-500">{error}</p>
+        <Link href={projectHref('/')} className="rounded-lg border border-gray-700 bg-gray-800 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700">
+          Back to dashboard
+        </Link>
+      </div>
+    )
+  }
+
+  if (!transcript) {
+    return <LoadingScreen />
+  }
+
+  return (
+    <main className="flex h-screen flex-col gap-2 overflow-hidden p-3">
+      <Link href={projectHref('/')} className="w-fit rounded-md border border-gray-700/50 bg-gray-800/80 px-2 py-0.5 text-xs text-gray-300 transition-colors hover:bg-gray-700">
+        🏠 Dashboard
+      </Link>
+      <div className="min-h-0 flex-1">
+        <TranscriptView transcript={transcript} />
+      </div>
+    </main>
+  )
+}
@@ -18,6 +18,9 @@ const TYPE_ICONS: Record<string, string> = {
   'milestone-completed': '🎯',
   'message-sent': '💬',
   'review-submitted': '📝',
+  'file-conflict': '⚠️',
+  'agent-error': '🛑',
+  'commit': '🔖',
   'system': '⚙️',
 }
 
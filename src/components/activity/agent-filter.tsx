@@ -1,6 +1,7 @@
 'use client'
 
 import type { Agent } from '@/types'
+import { flattenHierarchy } from '@/lib/agents'
 
 interface AgentFilterProps {
   readonly agents: readonly Agent[]
@@ -8,6 +9,10 @@ interface AgentFilterProps {
   readonly onSelect: (agentId: string) => void
 }
 
+// Option text collapses regular spaces, so indent with non-breaking ones
+const INDENT = '\u00a0\u00a0\u00a0'
+
+/** Agent picker listing subagents indented under whoever spawned them. */
 export function AgentFilter({ agents, selectedAgent, onSelect }: AgentFilterProps) {
   return (
     <div className="flex items-center gap-2">
@@ -18,9 +23,9 @@ export function AgentFilter({ agents, selectedAgent, onSelect }: AgentFilterProp
         className="rounded border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-300 focus:border-blue-500 focus:outline-none"
       >
         <option value="all">All</option>
-        {agents.map(agent => (
+        {flattenHierarchy(agents).map(({ agent, depth }) => (
           <option key={agent.id} value={agent.id}>
-            {agent.id}
+            {depth > 0 ? `${INDENT.repeat(depth - 1)}└ ${agent.id}` : agent.id}
           </option>
         ))}
       </select>
@@ -0,0 +1,49 @@
+'use client'
+
+import Link from 'next/link'
+import type { Agent } from '@/types'
+import { useProjectHref } from '@/lib/use-projects'
+
+interface BlockedBannerProps {
+  readonly agents: readonly Agent[]
+}
+
+/**
+ * Pinned to the top of the dashboard while any agent is waiting on a
+ * permission prompt or question — the moment someone needs to go to the terminal.
+ */
+export function BlockedBanner({ agents }: BlockedBannerProps) {
+  const projectHref = useProjectHref()
+  const blocked = agents.filter(a => a.status === 'blocked-on-user')
+  if (blocked.length === 0) return null
+
+  return (
+    <div
+      role="alert"
+      className="fixed inset-x-0 top-0 z-50 flex flex-col gap-1 border-b-2 border-orange-500 bg-orange-950/95 px-4 py-2 text-sm text-orange-100 shadow-lg shadow-orange-900/40"
+    >
+      <div className="flex items-center gap-2 font-semibold">
+        <span className="animate-pulse text-lg">✋</span>
+        {blocked.length === 1
+          ? '1 agent is waiting for you in the terminal'
+          : `${blocked.length} agents are waiting for you in the terminal`}
+      </div>
+      <ul className="flex flex-col gap-0.5 text-xs">
+        {blocked.map(agent => (
+          <li key={agent.id} className="flex items-center gap-2">
+            <span className="font-mono font-semibold text-orange-300">{agent.id}</span>
+            <span className="truncate text-orange-100/90">needs you to {agent.blockedOn ?? 'respond'}</span>
+            {agent.sessionId && (
+              <Link
+                href={projectHref(`/sessions/${encodeURIComponent(agent.sessionId)}`)}
+                className="ml-auto shrink-0 text-orange-300 hover:underline"
+              >
+                transcript
+              </Link>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import Link from 'next/link'
+import type { FileActivity, FileTouch } from '@/types'
+import { formatTimestamp } from '@/lib/format'
+import { useProjectHref } from '@/lib/use-projects'
+
+interface FileTableProps {
+  readonly files: readonly FileActivity[]
+}
+
+function TouchChip({ touch }: { readonly touch: FileTouch }) {
+  const counts = [
+    touch.reads > 0 ? `R${touch.reads}` : null,
+    touch.edits > 0 ? `E${touch.edits}` : null,
+    touch.writes > 0 ? `W${touch.writes}` : null,
+  ].filter(Boolean).join(' ')
+  const edited = touch.edits + touch.writes > 0
+  const projectHref = useProjectHref()
+
+  return (
+    <Link
+      href={projectHref(`/sessions/${encodeURIComponent(touch.sessionId)}`)}
+      className={`inline-flex items-center gap-1 rounded border px-1.5 py-0.5 font-mono text-[10px] hover:underline ${
+        edited ? 'border-amber-500/40 bg-amber-950/30 text-amber-200' : 'border-gray-700 bg-gray-800/60 text-gray-300'
+      }`}
+      title={touch.lastTouchedAt ? `last touched ${formatTimestamp(touch.lastTouchedAt)} · ${touch.agentStatus}` : touch.agentStatus}
+    >
+      {touch.agentId}
+      <span className="text-gray-500">{counts}</span>
+    </Link>
+  )
+}
+
+/** Which agents read (R), edited (E) or wrote (W) each file; conflicts are highlighted. */
+export function FileTable({ files }: FileTableProps) {
+  if (files.length === 0) {
+    return <p className="p-4 text-sm text-gray-500">No file reads or edits in the active sessions yet.</p>
+  }
+
+  return (
+    <table className="w-full text-left text-xs">
+      <thead className="sticky top-0 bg-gray-900 text-gray-500">
+        <tr>
+          <th className="px-3 py-2 font-medium">File</th>
+          <th className="px-3 py-2 font-medium">Agents</th>
+        </tr>
+      </thead>
+      <tbody>
+        {files.map(file => (
+          <tr
+            key={file.path}
+            className={`border-t border-gray-800 ${file.conflict ? 'bg-red-950/30' : 'hover:bg-gray-800/30'}`}
+          >
+            <td className="px-3 py-1.5 align-top font-mono text-gray-300">
+              {file.conflict && <span className="mr-1" title="Edited by concurrently working agents">⚠️</span>}
+              {file.path}
+            </td>
+            <td className="px-3 py-1.5">
+              <div className="flex flex-wrap gap-1">
+                {file.touches.map(touch => (
+                  <TouchChip key={`${touch.agentId}-${touch.sessionId}`} touch={touch} />
+                ))}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
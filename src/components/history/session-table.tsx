@@ -0,0 +1,55 @@
+'use client'
+
+import Link from 'next/link'
+import type { SessionSummary } from '@/types'
+import { formatDuration, formatTokenCount } from '@/lib/format'
+import { useProjectHref } from '@/lib/use-projects'
+
+interface SessionTableProps {
+  readonly sessions: readonly SessionSummary[]
+}
+
+/** Every recorded main session of the project; each row opens it in history mode. */
+export function SessionTable({ sessions }: SessionTableProps) {
+  const projectHref = useProjectHref()
+  if (sessions.length === 0) {
+    return <p className="p-4 text-sm text-gray-500">No sessions recorded for this project yet.</p>
+  }
+
+  return (
+    <table className="w-full text-left text-xs">
+      <thead className="sticky top-0 bg-gray-900 text-gray-500">
+        <tr>
+          <th className="px-3 py-2 font-medium">Started</th>
+          <th className="px-3 py-2 font-medium">Duration</th>
+          <th className="px-3 py-2 text-right font-medium">Subagents</th>
+          <th className="px-3 py-2 text-right font-medium">Tokens</th>
+          <th className="px-3 py-2 font-medium">First prompt</th>
+        </tr>
+      </thead>
+      <tbody>
+        {sessions.map(session => (
+          <tr key={session.sessionId} className="border-t border-gray-800 hover:bg-gray-800/30">
+            <td className="whitespace-nowrap px-3 py-1.5 align-top">
+              <Link
+                href={projectHref(`/history/${encodeURIComponent(session.sessionId)}`)}
+                className="text-blue-300 hover:underline"
+                title={session.sessionId}
+              >
+                {session.startedAt ? new Date(session.startedAt).toLocaleString() : session.sessionId.slice(0, 8)}
+              </Link>
+            </td>
+            <td className="whitespace-nowrap px-3 py-1.5 align-top text-gray-300">
+              {session.durationMs !== null ? formatDuration(session.durationMs) : '—'}
+            </td>
+            <td className="px-3 py-1.5 text-right align-top font-mono text-gray-300">{session.subagentCount}</td>
+            <td className="px-3 py-1.5 text-right align-top font-mono text-gray-300">{formatTokenCount(session.tokens)}</td>
+            <td className="px-3 py-1.5 align-top text-gray-400">
+              <span className="line-clamp-2">{session.firstPrompt ?? '—'}</span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import Link from 'next/link'
+import type { Agent, AgentStatus } from '@/types'
+import { AGENT_COLOR_HEX } from '@/lib/constants'
+import { truncateSessionId } from '@/lib/format'
+import { groupByParent } from '@/lib/agents'
+import { useProjectHref } from '@/lib/use-projects'
+import { SpawnDetails } from './spawn-details'
+
+interface AgentListProps {
+  readonly agents: readonly Agent[]
+}
+
+const STATUS_TEXT: Record<AgentStatus, string> = {
+  'working': 'text-yellow-400',
+  'waiting-on-tool': 'text-amber-300',
+  'blocked-on-user': 'text-orange-400 font-semibold',
+  'idle': 'text-gray-400',
+  'errored': 'text-red-400',
+  'completed': 'text-green-400',
+  'finished': 'text-green-400',
+}
+
+function AgentRow({ agent }: { readonly agent: Agent }) {
+  const projectHref = useProjectHref()
+  return (
+    <div className="flex items-center gap-2 rounded px-2 py-1 text-xs hover:bg-gray-800/50">
+      <span
+        className="inline-block h-2 w-2 shrink-0 rounded-full"
+        style={{ backgroundColor: AGENT_COLOR_HEX[agent.color].body }}
+      />
+      <span className="flex-1 truncate font-mono text-gray-300" title={agent.spawn?.description ?? undefined}>
+        {agent.id}
+      </span>
+      <span className={STATUS_TEXT[agent.status] ?? 'text-gray-400'}>{agent.status.replace(/-/g, ' ')}</span>
+      {agent.sessionId ? (
+        <Link
+          href={projectHref(`/sessions/${encodeURIComponent(agent.sessionId)}`)}
+          className="font-mono text-[10px] text-blue-400 hover:underline"
+          title={agent.sessionId}
+          onClick={e => e.stopPropagation()}
+        >
+          {truncateSessionId(agent.sessionId, 12)}
+        </Link>
+      ) : (
+        <span className="font-mono text-[10px] text-gray-600">no session</span>
+      )}
+    </div>
+  )
+}
+
+function AgentNode({ agent, childrenOf }: {
+  readonly agent: Agent
+  readonly childrenOf: ReadonlyMap<string, readonly Agent[]>
+}) {
+  const children = childrenOf.get(agent.id) ?? []
+
+  return (
+    <div className="flex flex-col">
+      {agent.spawn ? (
+        <details>
+          <summary className="cursor-pointer list-none">
+            <AgentRow agent={agent} />
+          </summary>
+          <div className="px-2 pb-1">
+            <SpawnDetails spawn={agent.spawn} />
+          </div>
+        </details>
+      ) : (
+        <AgentRow agent={agent} />
+      )}
+      {children.length > 0 && (
+        <div className="ml-3 flex flex-col border-l border-gray-800 pl-2">
+          {children.map(child => (
+            <AgentNode key={child.id} agent={child} childrenOf={childrenOf} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Agents as a spawn tree: each subagent sits under the lead or subagent whose
+ * Task call started it. Click a spawned agent to see its instructions and final result.
+ */
+export function AgentList({ agents }: AgentListProps) {
+  if (agents.length === 0) return null
+
+  const { roots, childrenOf } = groupByParent(agents)
+
+  return (
+    <div className="flex flex-col gap-1">
+      {roots.map(agent => (
+        <AgentNode key={agent.id} agent={agent} childrenOf={childrenOf} />
+      ))}
+    </div>
+  )
+}
@@ -1,22 +1,48 @@
 'use client'
 
-import type { ContextWindow } from '@/types'
+import type { Agent, ContextWindow } from '@/types'
 import { formatTokenCount } from '@/lib/format'
 import { USAGE_THRESHOLDS } from '@/lib/constants'
 
 interface ContextGaugeProps {
+  /** The lead's context window. */
   readonly contextWindow: ContextWindow
+  readonly agents: readonly Agent[]
 }
 
-export function ContextGauge({ contextWindow }: ContextGaugeProps) {
-  const { used, total, percentage } = contextWindow
-  const warningPct = USAGE_THRESHOLDS.warning * 100
-  const dangerPct = USAGE_THRESHOLDS.danger * 100
+const warningPct = USAGE_THRESHOLDS.warning * 100
+const dangerPct = USAGE_THRESHOLDS.danger * 100
 
-  const barColor =
-    percentage >= dangerPct ? 'bg-red-500' :
+function barColorFor(percentage: number): string {
+  return percentage >= dangerPct ? 'bg-red-500' :
     percentage >= warningPct ? 'bg-yellow-500' :
     'bg-green-500'
+}
+
+function AgentContextRow({ agentId, contextWindow }: { readonly agentId: string; readonly contextWindow: ContextWindow }) {
+  const { used, total, percentage } = contextWindow
+  return (
+    <div className="flex items-center gap-2 text-xs" title={`${formatTokenCount(used)}/${formatTokenCount(total)}`}>
+      <span className="w-32 truncate font-mono text-gray-400">{agentId}</span>
+      <div className="relative h-1.5 flex-1 overflow-hidden rounded-full bg-gray-800">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${barColorFor(percentage)}`}
+          style={{ width: `${Math.min(percentage, 100)}%` }}
+        />
+      </div>
+      <span className="w-9 text-right font-mono text-gray-400">{percentage}%</span>
+    </div>
+  )
+}
+
+export function ContextGauge({ contextWindow, agents }: ContextGaugeProps) {
+  const { used, total, percentage } = contextWindow
+  const barColor = barColorFor(percentage)
+
+  // Other leads and subagents closest to auto-compaction first
+  const subagentContexts = agents
+    .filter(a => a.id !== 'lead' && a.contextWindow !== null)
+    .sort((a, b) => (b.contextWindow?.percentage ?? 0) - (a.contextWindow?.percentage ?? 0))
 
   return (
     <div className="flex flex-col gap-2">
@@ -35,6 +61,13 @@ export function ContextGauge({ contextWindow }: ContextGaugeProps) {
           ({formatTokenCount(used)}/{formatTokenCount(total)})
         </span>
       </div>
+      {subagentContexts.length > 0 && (
+        <div className="flex flex-col gap-1 pl-2">
+          {subagentContexts.map(agent => agent.contextWindow && (
+            <AgentContextRow key={agent.id} agentId={agent.id} contextWindow={agent.contextWindow} />
+          ))}
+        </div>
+      )}
       <div className="flex items-center gap-4 text-xs text-gray-500">
         <span className="flex items-center gap-1">
           <span className="inline-block h-2 w-2 rounded-full bg-green-500" />
@@ -1,22 +1,36 @@
 'use client'
 
-import type { DashboardState } from '@/types'
+import Link from 'next/link'
+import type { DashboardState, ProjectOverview } from '@/types'
 import { TaskSummary } from './task-summary'
 import { UsageBar } from './usage-bar'
 import { ContextGauge } from './context-gauge'
+import { AgentList } from './agent-list'
+import { UsageBreakdown } from './usage-breakdown'
 import { ConnectionBadge } from '@/components/connection-badge'
+import { ProjectSwitcher } from '@/components/projects/project-switcher'
+import { isDoneStatus } from '@/lib/agents'
+import { useProjectHref } from '@/lib/use-projects'
 
 interface MonitorPanelProps {
   readonly state: DashboardState
   readonly isConnected: boolean
+  /** Showing a past session: usage covers that run only and there is no live connection. */
+  readonly history?: boolean
+  /** Configured projects, for the project switcher. */
+  readonly projects?: readonly ProjectOverview[]
 }
 
-export function MonitorPanel({ state, isConnected }: MonitorPanelProps) {
+export function MonitorPanel({ state, isConnected, history = false, projects = [] }: MonitorPanelProps) {
   const { agents, project, resources } = state
+  const projectHref = useProjectHref()
 
   const workingCount = agents.filter(a => a.status === 'working').length
+  const waitingCount = agents.filter(a => a.status === 'waiting-on-tool').length
+  const blockedCount = agents.filter(a => a.status === 'blocked-on-user').length
   const idleCount = agents.filter(a => a.status === 'idle').length
-  const completedCount = agents.filter(a => a.status === 'completed').length
+  const erroredCount = agents.filter(a => a.status === 'errored').length
+  const doneCount = agents.filter(a => isDoneStatus(a.status)).length
 
   return (
     <div className="flex h-full flex-col rounded-xl border border-gray-800 bg-gray-900/50">
@@ -26,7 +40,24 @@ export function MonitorPanel({ state, isConnected }: MonitorPanelProps) {
           <span className="text-lg">🎮</span>
           Agent Monitor
         </h2>
-        <ConnectionBadge isConnected={isConnected} />
+        <div className="flex items-center gap-2">
+          {!history && <ProjectSwitcher projects={projects} />}
+          {!history && (
+            <Link href={projectHref('/files')} className="rounded-md border border-gray-700/50 bg-gray-800/80 px-2 py-0.5 text-xs text-gray-300 transition-colors hover:bg-gray-700">
+              📁 Files
+            </Link>
+          )}
+          <Link href={projectHref('/history')} className="rounded-md border border-gray-700/50 bg-gray-800/80 px-2 py-0.5 text-xs text-gray-300 transition-colors hover:bg-gray-700">
+            🕘 History
+          </Link>
+          {history ? (
+            <span className="rounded-full bg-amber-500/10 px-2.5 py-0.5 text-xs font-medium text-amber-400">
+              Read-only
+            </span>
+          ) : (
+            <ConnectionBadge isConnected={isConnected} />
+          )}
+        </div>
       </div>
 
       {/* Scrollable body */}
@@ -34,10 +65,15 @@ export function MonitorPanel({ state, isConnected }: MonitorPanelProps) {
         <div className="flex flex-col gap-4">
           <TaskSummary
             working={workingCount}
+            waitingOnTool={waitingCount}
+            blocked={blockedCount}
             idle={idleCount}
-            completed={completedCount}
+            errored={erroredCount}
+            done={doneCount}
           />
 
+          <AgentList agents={agents} />
+
           {/* Ticket progress bar */}
           <div className="flex items-center gap-2 text-xs text-gray-500">
             <span>Tickets:</span>
@@ -55,8 +91,10 @@ export function MonitorPanel({ state, isConnected }: MonitorPanelProps) {
           </div>
 
           <div className="text-xs text-gray-500">
-            Last updated: {resources.lastUpdated
-              ? new Date(resources.lastUpdated).toLocaleTimeString()
+            {history ? 'Session last written' : 'Last updated'}: {resources.lastUpdated
+              ? history
+                ? new Date(resources.lastUpdated).toLocaleString()
+                : new Date(resources.lastUpdated).toLocaleTimeString()
               : 'N/A'}
           </div>
 
@@ -68,30 +106,33 @@ export function MonitorPanel({ state, isConnected }: MonitorPanelProps) {
                   Claude Max Usage
                 </h3>
                 <p className="mt-0.5 text-xs text-gray-500">
-                  Model: {resources.model} • Reset: PST midnight
+                  {history
+                    ? `Model: ${resources.model} • This run only`
+                    : `Model: ${resources.model} • Reset: PST midnight`}
                 </p>
               </div>
             </div>
 
             <div className="flex flex-col gap-4">
               <UsageBar
-                label="Daily"
+                label={history ? 'Last day' : 'Daily'}
                 icon="📅"
                 used={resources.daily.used}
                 limit={resources.daily.limit}
                 resetIn={resources.daily.resetIn}
               />
               <UsageBar
-                label="Weekly"
+                label={history ? 'Whole run' : 'Weekly'}
                 icon="📊"
                 used={resources.weekly.used}
                 limit={resources.weekly.limit}
                 resetIn={resources.weekly.resetIn}
               />
+              <UsageBreakdown breakdown={resources.breakdown} />
             </div>
           </div>
 
-          <ContextGauge contextWindow={resources.contextWindow} />
+          <ContextGauge contextWindow={resources.contextWindow} agents={agents} />
         </div>
       </div>
     </div>
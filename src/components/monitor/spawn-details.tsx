@@ -0,0 +1,39 @@
+'use client'
+
+import type { AgentSpawn } from '@/types'
+import { formatTimestamp } from '@/lib/format'
+
+interface SpawnDetailsProps {
+  readonly spawn: AgentSpawn
+}
+
+export function SpawnDetails({ spawn }: SpawnDetailsProps) {
+  return (
+    <div className="flex flex-col gap-1.5 rounded border border-gray-800 bg-gray-950/60 p-2 text-[11px] text-gray-400">
+      <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-gray-500">
+        {spawn.subagentType && <span>type: <span className="text-gray-300">{spawn.subagentType}</span></span>}
+        {spawn.spawnedAt && <span>spawned {formatTimestamp(spawn.spawnedAt)}</span>}
+        {spawn.completedAt && <span>returned {formatTimestamp(spawn.completedAt)}</span>}
+        {spawn.turnId && <span className="font-mono" title={spawn.turnId}>turn {spawn.turnId.slice(-8)}</span>}
+      </div>
+
+      <div>
+        <div className="mb-0.5 text-gray-500">Instructions</div>
+        <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap break-words font-mono text-gray-400">
+          {spawn.instructions || '(empty prompt)'}
+        </pre>
+      </div>
+
+      <div>
+        <div className="mb-0.5 text-gray-500">Result</div>
+        {spawn.result !== null ? (
+          <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap break-words font-mono text-gray-300">
+            {spawn.result}
+          </pre>
+        ) : (
+          <span className="italic text-yellow-400/80">Still running…</span>
+        )}
+      </div>
+    </div>
+  )
+}
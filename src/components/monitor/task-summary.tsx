@@ -2,19 +2,25 @@
 
 interface TaskSummaryProps {
   readonly working: number
+  readonly waitingOnTool: number
+  readonly blocked: number
   readonly idle: number
-  readonly completed: number
+  readonly errored: number
+  readonly done: number
 }
 
-export function TaskSummary({ working, idle, completed }: TaskSummaryProps) {
+export function TaskSummary({ working, waitingOnTool, blocked, idle, errored, done }: TaskSummaryProps) {
   const items = [
     { label: 'Working', value: working, color: 'text-yellow-400' },
+    { label: 'On tool', value: waitingOnTool, color: 'text-amber-300' },
+    { label: 'Blocked', value: blocked, color: blocked > 0 ? 'text-orange-400' : 'text-gray-600' },
     { label: 'Idle', value: idle, color: 'text-gray-400' },
-    { label: 'Completed', value: completed, color: 'text-green-400' },
+    { label: 'Errored', value: errored, color: errored > 0 ? 'text-red-400' : 'text-gray-600' },
+    { label: 'Done', value: done, color: 'text-green-400' },
   ]
 
   return (
-    <div className="grid grid-cols-3 gap-2">
+    <div className="grid grid-cols-6 gap-2">
       {items.map(item => (
         <div key={item.label} className="text-center">
           <div className={`text-2xl font-bold ${item.color}`}>
@@ -0,0 +1,65 @@
+'use client'
+
+import type { UsageBreakdownEntry } from '@/types'
+import { formatTokenCount } from '@/lib/format'
+
+interface UsageBreakdownProps {
+  readonly breakdown: readonly UsageBreakdownEntry[]
+}
+
+interface AgentUsage {
+  readonly agentId: string
+  readonly daily: number
+  readonly weekly: number
+  readonly sessions: readonly UsageBreakdownEntry[]
+}
+
+function groupByAgent(breakdown: readonly UsageBreakdownEntry[]): readonly AgentUsage[] {
+  const map = new Map<string, AgentUsage>()
+  for (const entry of breakdown) {
+    const existing = map.get(entry.agentId)
+    map.set(entry.agentId, {
+      agentId: entry.agentId,
+      daily: (existing?.daily ?? 0) + entry.daily,
+      weekly: (existing?.weekly ?? 0) + entry.weekly,
+      sessions: [...(existing?.sessions ?? []), entry],
+    })
+  }
+  return Array.from(map.values()).sort((a, b) => b.weekly - a.weekly)
+}
+
+export function UsageBreakdown({ breakdown }: UsageBreakdownProps) {
+  if (breakdown.length === 0) return null
+
+  const agents = groupByAgent(breakdown)
+
+  return (
+    <div className="rounded-lg border border-gray-700/50 p-3">
+      <div className="mb-2 grid grid-cols-[1fr_auto_auto] gap-x-3 text-[10px] uppercase tracking-wide text-gray-500">
+        <span>Agent</span>
+        <span className="text-right">Today</span>
+        <span className="text-right">Week</span>
+      </div>
+      <div className="flex flex-col gap-1">
+        {agents.map(agent => (
+          <div
+            key={agent.agentId}
+            className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-xs"
+            title={agent.sessions
+              .map(s => `${s.sessionId}: ${formatTokenCount(s.daily)} today, ${formatTokenCount(s.weekly)} week`)
+              .join('\n')}
+          >
+            <span className="truncate font-mono text-gray-300">
+              {agent.agentId}
+              {agent.sessions.length > 1 && (
+                <span className="ml-1 text-gray-500">×{agent.sessions.length}</span>
+              )}
+            </span>
+            <span className="text-right font-mono text-green-400">{formatTokenCount(agent.daily)}</span>
+            <span className="text-right font-mono text-gray-400">{formatTokenCount(agent.weekly)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
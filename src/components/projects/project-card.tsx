@@ -0,0 +1,52 @@
+'use client'
+
+import Link from 'next/link'
+import type { ProjectOverview } from '@/types'
+import { withProject } from '@/lib/use-projects'
+
+interface ProjectCardProps {
+  readonly project: ProjectOverview
+}
+
+/** One project's phase, milestone progress and working agents; opens its dashboard. */
+export function ProjectCard({ project }: ProjectCardProps) {
+  const { ticketsSummary: tickets } = project
+  const progress = tickets.total > 0 ? Math.round((tickets.completed / tickets.total) * 100) : 0
+
+  return (
+    <Link
+      href={withProject('/', project.id)}
+      className="flex flex-col gap-3 rounded-xl border border-gray-800 bg-gray-900/50 p-4 transition-colors hover:border-gray-600 hover:bg-gray-900"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h2 className="truncate text-sm font-semibold text-gray-200">{project.name}</h2>
+          <p className="truncate font-mono text-xs text-gray-600" title={project.dir}>{project.dir}</p>
+        </div>
+        <span className="shrink-0 rounded-full bg-gray-800 px-2 py-0.5 text-xs text-gray-400">{project.status}</span>
+      </div>
+
+      <div className="flex items-center gap-4 text-xs text-gray-500">
+        <span>Phase <span className="text-gray-300">{project.phase}</span></span>
+        {project.currentMilestone && (
+          <span className="truncate">Milestone <span className="text-gray-300">{project.currentMilestone}</span></span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <div className="relative h-2 flex-1 overflow-hidden rounded-full bg-gray-800">
+          <div className="h-full rounded-full bg-green-500 transition-all duration-500" style={{ width: `${progress}%` }} />
+        </div>
+        <span className="font-mono">{tickets.completed}/{tickets.total}</span>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className={project.workingAgents > 0 ? 'text-yellow-400' : 'text-gray-500'}>
+          {project.workingAgents} working
+          <span className="text-gray-600"> / {project.totalAgents} agents</span>
+        </span>
+        {project.error && <span className="truncate text-red-400" title={project.error}>{project.error}</span>}
+      </div>
+    </Link>
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import type { ProjectOverview as ProjectOverviewData } from '@/types'
+import { ProjectCard } from './project-card'
+
+interface ProjectOverviewProps {
+  readonly projects: readonly ProjectOverviewData[]
+  readonly error: string | null
+}
+
+/** Landing page when several projects are configured: one card per project. */
+export function ProjectOverview({ projects, error }: ProjectOverviewProps) {
+  const working = projects.reduce((sum, p) => sum + p.workingAgents, 0)
+
+  return (
+    <main className="flex min-h-screen flex-col gap-3 p-4">
+      <div className="flex items-center gap-3">
+        <h1 className="text-sm font-semibold text-gray-200">🏘️ Projects</h1>
+        <span className="text-xs text-gray-500">
+          {projects.length} projects · {working} agents working
+        </span>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="grid grid-cols-[repeat(auto-fill,minmax(18rem,1fr))] gap-3">
+        {projects.map(project => (
+          <ProjectCard key={project.id} project={project} />
+        ))}
+      </div>
+    </main>
+  )
+}
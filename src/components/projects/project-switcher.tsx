@@ -0,0 +1,38 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { ProjectOverview } from '@/types'
+import { useProjectId, withProject } from '@/lib/use-projects'
+
+interface ProjectSwitcherProps {
+  readonly projects: readonly ProjectOverview[]
+}
+
+/** Jump between configured projects, or back to the overview; hidden with a single project. */
+export function ProjectSwitcher({ projects }: ProjectSwitcherProps) {
+  const router = useRouter()
+  const projectId = useProjectId() ?? projects[0]?.id
+
+  if (projects.length < 2) return null
+
+  return (
+    <div className="flex items-center gap-1">
+      <Link href="/" className="rounded-md border border-gray-700/50 bg-gray-800/80 px-2 py-0.5 text-xs text-gray-300 transition-colors hover:bg-gray-700">
+        🏘️
+      </Link>
+      <select
+        value={projectId}
+        onChange={e => router.push(withProject('/', e.target.value))}
+        className="rounded-md border border-gray-700/50 bg-gray-800/80 px-1.5 py-0.5 text-xs text-gray-300"
+        aria-label="Project"
+      >
+        {projects.map(project => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { REPLAY_SPEEDS } from '@/lib/constants'
+import { formatDuration } from '@/lib/format'
+import { useReplay } from '@/lib/use-replay'
+
+interface ReplayControlsProps {
+  readonly projectId: string | null
+}
+
+/** Play/pause, speed and seek bar for a recorded run; hidden unless the project is replaying one. */
+export function ReplayControls({ projectId }: ReplayControlsProps) {
+  const { status, send } = useReplay(projectId)
+  if (!status) return null
+
+  const ended = status.positionMs >= status.durationMs
+  const playing = !status.paused && !ended
+  const recordedAt = status.recordedFrom
+    ? new Date(Date.parse(status.recordedFrom) + status.positionMs).toLocaleString()
+    : null
+
+  return (
+    <div className="fixed bottom-3 left-1/2 z-40 flex w-[min(40rem,90vw)] -translate-x-1/2 items-center gap-3 rounded-lg border border-gray-700/50 bg-gray-900/95 px-3 py-2 text-xs text-gray-300 shadow-lg">
+      <span className="rounded bg-purple-900/60 px-1.5 py-0.5 font-semibold text-purple-200">REPLAY</span>
+      <button
+        type="button"
+        onClick={() => send({ action: playing ? 'pause' : 'play' })}
+        className="w-6 text-base transition-colors hover:text-white"
+        aria-label={playing ? 'Pause' : 'Play'}
+      >
+        {playing ? '⏸' : '▶'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={status.durationMs}
+        value={Math.min(status.positionMs, status.durationMs)}
+        onChange={e => send({ action: 'seek', positionMs: Number(e.target.value) })}
+        className="flex-1 accent-purple-500"
+        aria-label="Playback position"
+      />
+      <span className="shrink-0 font-mono text-gray-400" title={recordedAt ?? undefined}>
+        {formatDuration(Math.round(status.positionMs))} / {formatDuration(status.durationMs)}
+      </span>
+      <div className="flex shrink-0 gap-0.5">
+        {REPLAY_SPEEDS.map(speed => (
+          <button
+            key={speed}
+            type="button"
+            onClick={() => send({ action: 'speed', speed })}
+            className={`rounded px-1.5 py-0.5 transition-colors ${
+              status.speed === speed ? 'bg-purple-700 text-white' : 'bg-gray-800 hover:bg-gray-700'
+            }`}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import type { Ticket, Agent } from '@/types'
+import type { Ticket, Agent, GitCommit, Review, ReviewFindingSeverity, ReviewVerdict } from '@/types'
+import { formatTimestamp } from '@/lib/format'
 
 interface TicketTrackerProps {
   readonly tickets: readonly Ticket[]
@@ -189,13 +190,131 @@ function MilestoneDetailView({
   )
 }
 
+const VERDICT_STYLES: Record<ReviewVerdict, { readonly label: string; readonly className: string }> = {
+  'approved': { label: 'approved', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+  'changes-requested': { label: 'changes requested', className: 'bg-amber-500/20 text-amber-400 border-amber-500/30' },
+  'rejected': { label: 'rejected', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+  'commented': { label: 'commented', className: 'bg-gray-500/20 text-gray-400 border-gray-500/30' },
+}
+
+const SEVERITY_COLORS: Record<ReviewFindingSeverity, string> = {
+  blocker: 'text-red-400',
+  major: 'text-orange-400',
+  minor: 'text-yellow-400',
+  nit: 'text-gray-500',
+}
+
+function VerdictBadge({ verdict }: { readonly verdict: ReviewVerdict }) {
+  const { label, className } = VERDICT_STYLES[verdict]
+  return (
+    <span className={`rounded-full border px-2 py-0.5 text-[10px] font-medium ${className}`}>
+      {label}
+    </span>
+  )
+}
+
+function ReviewList({
+  reviews,
+  agentNameMap,
+}: {
+  readonly reviews: readonly Review[]
+  readonly agentNameMap: ReadonlyMap<string, string>
+}) {
+  return (
+    <div className="mt-4">
+      <h4 className="mb-1.5 text-[10px] font-semibold uppercase tracking-wide text-gray-500">
+        Reviews ({reviews.length})
+      </h4>
+      <ul className="flex flex-col gap-1.5">
+        {[...reviews].reverse().map(review => (
+          <li key={review.id} className="rounded border border-gray-800/50 bg-gray-900/40 px-2 py-1.5 text-xs">
+            <div className="flex items-center gap-2">
+              <VerdictBadge verdict={review.verdict} />
+              <span className="truncate text-gray-300">
+                {review.reviewer ? agentNameMap.get(review.reviewer) ?? review.reviewer : 'unknown reviewer'}
+              </span>
+              <span className="ml-auto shrink-0 text-[10px] text-gray-500">{formatTimestamp(review.submittedAt)}</span>
+            </div>
+            {review.summary && (
+              <p className="mt-1 whitespace-pre-wrap text-[11px] text-gray-400">{review.summary}</p>
+            )}
+            {review.findings.length > 0 && (
+              <ul className="mt-1 flex flex-col gap-0.5 text-[11px]">
+                {review.findings.map((finding, i) => (
+                  <li key={i} className="flex gap-1.5">
+                    <span className={`shrink-0 font-medium ${SEVERITY_COLORS[finding.severity]}`}>{finding.severity}</span>
+                    {finding.file && (
+                      <span className="shrink-0 font-mono text-gray-500">
+                        {finding.file}{finding.line !== null && `:${finding.line}`}
+                      </span>
+                    )}
+                    <span className="text-gray-300">{finding.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+const COMMIT_MATCH_LABELS: Record<NonNullable<GitCommit['agentMatch']>, string> = {
+  trailer: 'Agent trailer',
+  author: 'commit author',
+  session: 'session time window',
+}
+
+function CommitList({
+  commits,
+  agentNameMap,
+}: {
+  readonly commits: readonly GitCommit[]
+  readonly agentNameMap: ReadonlyMap<string, string>
+}) {
+  return (
+    <div className="mt-4">
+      <h4 className="mb-1.5 text-[10px] font-semibold uppercase tracking-wide text-gray-500">
+        Commits ({commits.length})
+      </h4>
+      <ul className="flex flex-col gap-1">
+        {commits.map(commit => (
+          <li key={commit.sha} className="rounded border border-gray-800/50 bg-gray-900/40 px-2 py-1.5 text-xs">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-[10px] text-amber-400">{commit.sha.slice(0, 7)}</span>
+              <span className="flex-1 truncate text-gray-300" title={commit.subject}>{commit.subject}</span>
+            </div>
+            <div className="mt-0.5 flex items-center gap-2 text-[10px] text-gray-500">
+              <span>{formatTimestamp(commit.timestamp)}</span>
+              <span className="truncate">{commit.author}</span>
+              {commit.agentId && (
+                <span
+                  className="ml-auto shrink-0 text-gray-400"
+                  title={commit.agentMatch ? `Matched by ${COMMIT_MATCH_LABELS[commit.agentMatch]}` : undefined}
+                >
+                  🤖 {agentNameMap.get(commit.agentId) ?? commit.agentId}
+                </span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
 function TicketDetailView({
   ticket,
   agentName,
+  agentNameMap,
 }: {
   readonly ticket: Ticket
   readonly agentName: string
+  readonly agentNameMap: ReadonlyMap<string, string>
 }) {
+  const latestReview = ticket.reviews.at(-1)
+
   return (
     <div className="rounded-lg border border-gray-700/50 bg-gray-900/60 p-4">
       <div className="flex items-center gap-2">
@@ -223,6 +342,12 @@ function TicketDetailView({
           <span className="text-gray-500">Status</span>
           <StatusBadge status={ticket.status} />
         </div>
+        {latestReview && (
+          <div className="flex justify-between border-b border-gray-800/50 pb-1">
+            <span className="text-gray-500">Review</span>
+            <VerdictBadge verdict={latestReview.verdict} />
+          </div>
+        )}
         {ticket.dependencies.length > 0 && (
           <div className="flex justify-between">
             <span className="text-gray-500">Dependencies</span>
@@ -236,6 +361,9 @@ function TicketDetailView({
           </div>
         )}
       </div>
+
+      {ticket.reviews.length > 0 && <ReviewList reviews={ticket.reviews} agentNameMap={agentNameMap} />}
+      {ticket.commits.length > 0 && <CommitList commits={ticket.commits} agentNameMap={agentNameMap} />}
     </div>
   )
 }
@@ -345,6 +473,7 @@ export function TicketTracker({ tickets, agents, currentMilestone }: TicketTrack
             <TicketDetailView
               ticket={t}
               agentName={agentNameMap.get(t.agentId ?? '') ?? 'unassigned'}
+              agentNameMap={agentNameMap}
             />
           )
         })()}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useState } from 'react'
+import type { BashCommand } from '@/types'
+import { formatDuration, formatTimestamp } from '@/lib/format'
+
+interface CommandLogProps {
+  readonly commands: readonly BashCommand[]
+}
+
+function CommandRow({ command }: { readonly command: BashCommand }) {
+  const running = command.endedAt === null
+  const statusClass = running
+    ? 'text-yellow-400'
+    : command.isError ? 'text-red-400' : 'text-green-400'
+  const statusText = running
+    ? 'running'
+    : command.isError ? `exit ${command.exitCode ?? '?'}` : 'ok'
+
+  return (
+    <details className={`rounded-lg border px-3 py-2 text-xs ${
+      command.isError ? 'border-red-500/40 bg-red-950/20' : 'border-gray-800 bg-gray-900/40'
+    }`}>
+      <summary className="flex cursor-pointer list-none items-center gap-2">
+        <span className={`w-14 shrink-0 font-mono text-[10px] ${statusClass}`}>{statusText}</span>
+        <code className="flex-1 truncate text-gray-200">{command.command.split('\n')[0]}</code>
+        {command.durationMs !== null && (
+          <span className="shrink-0 font-mono text-[10px] text-gray-500">{formatDuration(command.durationMs)}</span>
+        )}
+        {command.startedAt && (
+          <span className="shrink-0 font-mono text-[10px] text-gray-600">{formatTimestamp(command.startedAt)}</span>
+        )}
+      </summary>
+      <div className="mt-2 flex flex-col gap-1.5">
+        {command.description && <p className="text-gray-500">{command.description}</p>}
+        <pre className="overflow-x-auto whitespace-pre-wrap break-all font-mono text-[11px] text-gray-300">
+          $ {command.command}
+        </pre>
+        {command.output !== null && (
+          <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap break-all font-mono text-[11px] text-gray-400">
+            {command.output || '(no output)'}
+          </pre>
+        )}
+      </div>
+    </details>
+  )
+}
+
+/** Bash history of one agent, newest first, with a failures-only filter. */
+export function CommandLog({ commands }: CommandLogProps) {
+  const [failuresOnly, setFailuresOnly] = useState(false)
+  const failures = commands.filter(c => c.isError).length
+  const shown = (failuresOnly ? commands.filter(c => c.isError) : commands).slice().reverse()
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="flex w-fit cursor-pointer items-center gap-2 text-xs text-gray-400">
+        <input
+          type="checkbox"
+          checked={failuresOnly}
+          onChange={e => setFailuresOnly(e.target.checked)}
+          className="accent-red-500"
+        />
+        Failures only ({failures})
+      </label>
+      {shown.length === 0 ? (
+        <p className="py-8 text-center text-xs text-gray-600">
+          {failuresOnly ? 'No failed commands' : 'No Bash commands in this session'}
+        </p>
+      ) : (
+        shown.map((command, i) => (
+          <CommandRow key={command.toolUseId ?? `${command.startedAt}-${i}`} command={command} />
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import type { TranscriptTurn } from '@/types'
+import { formatTimestamp } from '@/lib/format'
+
+interface TranscriptTurnRowProps {
+  readonly turn: TranscriptTurn
+}
+
+const KIND_STYLES: Record<string, { icon: string; label: string; className: string }> = {
+  'user': { icon: '👤', label: 'User', className: 'border-blue-500/30 bg-blue-950/20' },
+  'assistant': { icon: '🤖', label: 'Assistant', className: 'border-gray-700/50 bg-gray-900/40' },
+  'tool-use': { icon: '🔧', label: 'Tool call', className: 'border-amber-500/30 bg-amber-950/10' },
+  'tool-result': { icon: '📤', label: 'Tool result', className: 'border-gray-800/50 bg-gray-900/20' },
+  'error': { icon: '❌', label: 'Error', className: 'border-red-500/40 bg-red-950/30' },
+}
+
+// Results longer than this are collapsed behind a <details> toggle
+const COLLAPSE_THRESHOLD = 400
+
+export function TranscriptTurnRow({ turn }: TranscriptTurnRowProps) {
+  const style = KIND_STYLES[turn.kind] ?? KIND_STYLES['assistant']
+  const label = turn.toolName ? `${style.label} · ${turn.toolName}` : style.label
+  const collapsible = turn.kind !== 'user' && turn.kind !== 'assistant' && turn.text.length > COLLAPSE_THRESHOLD
+
+  return (
+    <div className={`rounded-lg border px-3 py-2 text-xs ${style.className}`}>
+      <div className="mb-1 flex items-center gap-2 text-gray-500">
+        <span>{style.icon}</span>
+        <span className="font-medium text-gray-300">{label}</span>
+        {turn.timestamp && (
+          <span className="ml-auto font-mono text-[10px]">{formatTimestamp(turn.timestamp)}</span>
+        )}
+      </div>
+
+      {turn.kind === 'tool-use' ? (
+        <pre className="overflow-x-auto whitespace-pre-wrap break-all font-mono text-[11px] text-gray-400">
+          {JSON.stringify(turn.toolInput ?? {}, null, 2)}
+        </pre>
+      ) : collapsible ? (
+        <details>
+          <summary className="cursor-pointer text-gray-400">
+            {turn.text.slice(0, 120).split('\n')[0]}…
+          </summary>
+          <pre className="mt-1 overflow-x-auto whitespace-pre-wrap break-all font-mono text-[11px] text-gray-400">
+            {turn.text}
+          </pre>
+        </details>
+      ) : (
+        <p className="whitespace-pre-wrap break-words leading-relaxed text-gray-300">{turn.text}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+'use client'
+
+import { useState } from 'react'
+import type { SessionTranscript } from '@/types'
+import { TranscriptTurnRow } from './transcript-turn'
+import { CommandLog } from './command-log'
+
+interface TranscriptViewProps {
+  readonly transcript: SessionTranscript
+}
+
+export function TranscriptView({ transcript }: TranscriptViewProps) {
+  const [tab, setTab] = useState<'turns' | 'commands'>('turns')
+  const errorCount = transcript.turns.filter(t => t.kind === 'error').length
+  const failedCommands = transcript.commands.filter(c => c.isError).length
+
+  return (
+    <div className="flex h-full flex-col rounded-xl border border-gray-800 bg-gray-900/50">
+      {/* Sticky header */}
+      <div className="shrink-0 border-b border-gray-800 bg-gradient-to-r from-indigo-900/30 to-gray-900/30 px-4 py-2.5">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-200">
+          <span className="text-base">📜</span>
+          {transcript.agentName ?? (transcript.isSubagent ? transcript.agentId ?? 'Subagent' : 'Main session')}
+          <span className="font-mono text-xs text-gray-500">{transcript.sessionId}</span>
+        </h2>
+        <p className="mt-0.5 text-xs text-gray-500">
+          {transcript.turns.length} turns
+          {errorCount > 0 && <span className="text-red-400"> • {errorCount} errors</span>}
+          {transcript.model && <> • Model: {transcript.model}</>}
+        </p>
+        <div className="mt-2 flex gap-1 text-xs">
+          {(['turns', 'commands'] as const).map(t => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={`rounded-md px-2 py-0.5 ${tab === t ? 'bg-gray-700 text-gray-100' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              {t === 'turns'
+                ? 'Transcript'
+                : <>Commands ({transcript.commands.length}{failedCommands > 0 && <span className="text-red-400"> • {failedCommands} failed</span>})</>}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Scrollable turn list */}
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {tab === 'commands' ? (
+          <CommandLog commands={transcript.commands} />
+        ) : transcript.turns.length === 0 ? (
+          <p className="py-8 text-center text-xs text-gray-600">Empty session</p>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {transcript.turns.map((turn, i) => (
+              <TranscriptTurnRow key={`${turn.timestamp}-${i}`} turn={turn} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
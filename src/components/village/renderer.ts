@@ -2,8 +2,11 @@
  * Zone-based village renderer.
  * All three zones (Working / Idle / Completed) always visible.
  * Characters smoothly walk between zones when status changes.
+ * Agents waiting on a tool or blocked on the user share the Working zone,
+ * errored agents the Idle zone.
  */
-import type { Agent, AgentColor } from '@/types'
+import type { Agent, AgentColor, AgentStatus } from '@/types'
+import { isLeadAgent } from '@/lib/agents'
 
 // ─── Color palette ───
 const PAL: Record<string, { body: string; dark: string; light: string; hat: string }> = {
@@ -27,16 +30,22 @@ const ZONE_CFG: Record<ZoneName, { icon: string; label: string; glow: string }>
   completed: { icon: '✨', label: 'Done',    glow: '#4ade80' },
 }
 
+const STATUS_ZONE: Record<AgentStatus, ZoneName> = {
+  'working': 'working',
+  'waiting-on-tool': 'working',
+  'blocked-on-user': 'working',
+  'idle': 'idle',
+  'errored': 'idle',
+  'completed': 'completed',
+  'finished': 'completed',
+}
+
 const WALK_DURATION = 90 // frames to walk between zones (~1.5s at 60fps)
 
 function getPal(color: AgentColor): Pal {
   return PAL[color] ?? PAL.blue
 }
 
-function isLead(agent: Agent): boolean {
-  return agent.id === 'lead' || agent.id === 'main' || agent.id === 'orchestrator'
-}
-
 // ─── Position tracking for walking transitions ───
 
 interface AgentPosition {
@@ -371,6 +380,24 @@ function drawNameLabel(ctx: CanvasRenderingContext2D, x: number, y: number, name
   ctx.textAlign = 'left'
 }
 
+// Red badge with the number of errors in the agent's session
+function drawErrorBadge(ctx: CanvasRenderingContext2D, x: number, y: number, count: number) {
+  const text = count > 99 ? '99+' : String(count)
+  ctx.font = 'bold 9px system-ui, sans-serif'
+  const w = Math.max(14, ctx.measureText(text).width + 8)
+  ctx.fillStyle = '#dc2626'
+  ctx.beginPath()
+  ctx.roundRect(x - w / 2, y - 7, w, 14, 7)
+  ctx.fill()
+  ctx.strokeStyle = 'rgba(255,255,255,0.8)'
+  ctx.lineWidth = 1
+  ctx.stroke()
+  ctx.fillStyle = '#ffffff'
+  ctx.textAlign = 'center'
+  ctx.fillText(text, x, y + 3)
+  ctx.textAlign = 'left'
+}
+
 // ─── Walking character (transition between zones) ───
 
 function drawWalkingAgent(ctx: CanvasRenderingContext2D, x: number, y: number, p: Pal, frame: number, lead: boolean) {
@@ -575,6 +602,107 @@ function drawIdleAgent(ctx: CanvasRenderingContext2D, x: number, y: number, p: P
   }
 }
 
+function drawWaitingAgent(ctx: CanvasRenderingContext2D, x: number, y: number, p: Pal, frame: number, lead: boolean) {
+  const tap = Math.max(0, Math.sin(frame * 0.2)) * 2
+  const by = y
+  drawCharBody(ctx, x, y)
+  drawLegs(ctx, x, by, p, 0)
+  // Tapping foot
+  ctx.fillStyle = '#3d2b1f'
+  ctx.beginPath()
+  ctx.roundRect(x, by + 25 - tap, 8, 4, [0, 0, 2, 2])
+  ctx.fill()
+  drawTorso(ctx, x, by, p)
+  drawArm(ctx, x, by, 'left', -0.9)
+  drawArm(ctx, x, by, 'right', 0.9)
+  drawHead(ctx, x, by, false, false)
+  drawHat(ctx, x, by, p)
+  if (lead) drawCrown(ctx, x, by)
+
+  // Hourglass flipping above the head
+  const hx = x + 18
+  const hy = by - 32
+  ctx.save()
+  ctx.translate(hx, hy)
+  ctx.rotate(Math.floor(frame / 90) % 2 === 0 ? 0 : Math.PI)
+  ctx.fillStyle = '#e5e7eb'
+  ctx.fillRect(-5, -8, 10, 2)
+  ctx.fillRect(-5, 6, 10, 2)
+  ctx.fillStyle = '#fcd34d'
+  ctx.beginPath()
+  ctx.moveTo(-4, -6)
+  ctx.lineTo(4, -6)
+  ctx.lineTo(0, 0)
+  ctx.lineTo(4, 6)
+  ctx.lineTo(-4, 6)
+  ctx.lineTo(0, 0)
+  ctx.closePath()
+  ctx.fill()
+  ctx.restore()
+}
+
+function drawBlockedAgent(ctx: CanvasRenderingContext2D, x: number, y: number, p: Pal, frame: number, lead: boolean) {
+  const wave = Math.sin(frame * 0.25) * 0.35
+  const pulse = 0.5 + Math.sin(frame * 0.15) * 0.5
+  const by = y
+
+  // Pulsing ring so blocked agents stand out from across the room
+  ctx.strokeStyle = `rgba(251,146,60,${0.35 + pulse * 0.5})`
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.ellipse(x, y + 28, 18 + pulse * 4, 6 + pulse * 1.5, 0, 0, Math.PI * 2)
+  ctx.stroke()
+
+  drawCharBody(ctx, x, y)
+  drawLegs(ctx, x, by, p, 0)
+  drawTorso(ctx, x, by, p)
+  drawArm(ctx, x, by, 'left', -0.2)
+  // Raised, waving hand
+  drawArm(ctx, x, by, 'right', Math.PI - 0.4 + wave)
+  drawHead(ctx, x, by, false, false)
+  drawHat(ctx, x, by, p)
+  if (lead) drawCrown(ctx, x, by)
+
+  const bx = x - 20
+  const bubbleY = by - 34
+  ctx.fillStyle = '#fb923c'
+  ctx.beginPath()
+  ctx.arc(bx, bubbleY, 8 + pulse, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.fillStyle = '#ffffff'
+  ctx.font = 'bold 11px system-ui, sans-serif'
+  ctx.textAlign = 'center'
+  ctx.fillText('?', bx, bubbleY + 4)
+  ctx.textAlign = 'left'
+}
+
+function drawErroredAgent(ctx: CanvasRenderingContext2D, x: number, y: number, p: Pal, frame: number, lead: boolean) {
+  const shake = Math.sin(frame * 0.6) * (Math.floor(frame / 60) % 3 === 0 ? 1.5 : 0)
+  const cx = x + shake
+  const by = y + 2
+  drawCharBody(ctx, x, y)
+  drawLegs(ctx, cx, by, p, 0)
+  drawTorso(ctx, cx, by, p)
+  drawArm(ctx, cx, by, 'left', 0.1)
+  drawArm(ctx, cx, by, 'right', -0.1)
+  drawHead(ctx, cx, by, false, false)
+  drawHat(ctx, cx, by, p)
+  if (lead) drawCrown(ctx, cx, by)
+
+  // Red "!" bubble
+  const bx = cx + 18
+  const bubbleY = by - 34
+  ctx.fillStyle = '#ef4444'
+  ctx.beginPath()
+  ctx.arc(bx, bubbleY, 8, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.fillStyle = '#ffffff'
+  ctx.font = 'bold 11px system-ui, sans-serif'
+  ctx.textAlign = 'center'
+  ctx.fillText('!', bx, bubbleY + 4)
+  ctx.textAlign = 'left'
+}
+
 function drawCompletedAgent(ctx: CanvasRenderingContext2D, x: number, y: number, p: Pal, frame: number, lead: boolean) {
   const bob = Math.sin(frame * 0.06)
   const by = y + bob
@@ -670,9 +798,8 @@ export function renderScene(
   // Group agents by status
   const groups: Record<ZoneName, Agent[]> = { working: [], idle: [], completed: [] }
   for (const a of agents) {
-    if (a.status in groups) {
-      groups[a.status as ZoneName].push(a)
-    }
+    const zone = STATUS_ZONE[a.status]
+    if (zone) groups[zone].push(a)
   }
 
   // Always render all 3 zones
@@ -761,7 +888,7 @@ export function renderScene(
     const rx = lerp(pos.currentX, pos.targetX, t)
     const ry = lerp(pos.currentY, pos.targetY, t)
     const p = getPal(agent.color)
-    const lead = isLead(agent)
+    const lead = isLeadAgent(agent)
     const walking = pos.progress < 1
 
     if (walking) {
@@ -774,6 +901,12 @@ export function renderScene(
       else if (activity === 'hammer') drawHammeringAgent(ctx, rx, ry, p, frame, lead)
       else if (activity === 'dig') drawDiggingAgent(ctx, rx, ry, p, frame, lead)
       else drawPushingAgent(ctx, rx, ry, p, frame, lead)
+    } else if (agent.status === 'waiting-on-tool') {
+      drawWaitingAgent(ctx, rx, ry, p, frame, lead)
+    } else if (agent.status === 'blocked-on-user') {
+      drawBlockedAgent(ctx, rx, ry, p, frame, lead)
+    } else if (agent.status === 'errored') {
+      drawErroredAgent(ctx, rx, ry, p, frame, lead)
     } else if (agent.status === 'idle') {
       drawIdleAgent(ctx, rx, ry, p, frame, lead)
     } else {
@@ -782,5 +915,6 @@ export function renderScene(
 
     const nameLabel = agent.id.length > 18 ? agent.id.slice(0, 16) + '...' : agent.id
     drawNameLabel(ctx, rx, ry + 38, nameLabel, lead)
+    if (agent.errorCount > 0) drawErrorBadge(ctx, rx - 16, ry - 12, agent.errorCount)
   }
 }
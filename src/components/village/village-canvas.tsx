@@ -3,6 +3,7 @@
 import { useRef, useEffect } from 'react'
 import type { Agent } from '@/types'
 import { renderScene } from './renderer'
+import { isLeadAgent } from '@/lib/agents'
 
 interface VillageCanvasProps {
   readonly agents: readonly Agent[]
@@ -53,6 +54,8 @@ export function VillageCanvas({ agents }: VillageCanvasProps) {
     return () => cancelAnimationFrame(rafId)
   }, [agents])
 
+  const leadCount = agents.filter(isLeadAgent).length
+
   return (
     <div className="flex h-full flex-col">
       <div className="flex items-center justify-between border-b border-gray-800 bg-gray-900/80 px-4 py-2">
@@ -60,8 +63,9 @@ export function VillageCanvas({ agents }: VillageCanvasProps) {
           <span className="text-base">🏘️</span>
           Agent Village
           <span className="ml-1 text-xs text-gray-500">
-            {agents.filter(a => a.id !== 'lead').length} agents
-            {agents.some(a => a.id === 'lead') && ' + lead'}
+            {agents.filter(a => !isLeadAgent(a)).length} agents
+            {leadCount === 1 && ' + lead'}
+            {leadCount > 1 && ` + ${leadCount} leads`}
           </span>
         </h2>
         <div className="flex items-center gap-3 rounded-lg border border-gray-700/50 bg-gray-900/80 px-3 py-1 text-xs text-gray-400">
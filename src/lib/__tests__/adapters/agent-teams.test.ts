@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AgentTeamsAdapter } from '../../adapters/agent-teams'
+import fs from 'fs/promises'
+import path from 'path'
+
+vi.mock('fs/promises')
+vi.mock('../../claude-stats', () => ({
+  readClaudeStats: vi.fn().mockResolvedValue({
+    daily: { used: 0, limit: 5000000, resetIn: '23h 18m' },
+    weekly: { used: 0, limit: 20000000, resetIn: '3d 23h' },
+    contextWindow: { used: 0, total: 200000, percentage: 0 },
+    model: 'claude-opus-4-5',
+    lastUpdated: '2026-02-12T17:00:00Z',
+    breakdown: [],
+  }),
+}))
+vi.mock('../../session-reader', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../session-reader')>()),
+  readSessionSnapshot: vi.fn().mockResolvedValue({ mainSession: null, mainSessions: [], subagents: [] }),
+}))
+
+const mockFs = vi.mocked(fs)
+
+const PROJECT_DIR = '/test/project'
+const CLAUDE_HOME = '/home/.claude'
+
+/** Files keyed by path relative to CLAUDE_HOME. */
+const FIXTURE: Record<string, unknown> = {
+  'teams/loaders/config.json': {
+    name: 'loaders',
+    createdAt: Date.parse('2026-02-12T16:00:00Z'),
+    leadAgentId: 'team-lead@loaders',
+    members: [
+      { name: 'team-lead', agentId: 'team-lead@loaders', agentType: 'team-lead', cwd: PROJECT_DIR },
+      { name: 'researcher', agentId: 'researcher@loaders', agentType: 'Explore', model: 'claude-haiku-4-5', color: 'green', cwd: PROJECT_DIR },
+      { name: 'tester', agentId: 'tester@loaders', agentType: 'general-purpose', cwd: PROJECT_DIR },
+    ],
+  },
+  'teams/elsewhere/config.json': {
+    name: 'elsewhere',
+    members: [{ name: 'team-lead', cwd: '/other/project' }],
+  },
+  'teams/loaders/inboxes/team-lead.json': [
+    { from: 'researcher', text: 'Found the loader registry in src/data.', timestamp: '2026-02-12T16:10:00Z' },
+    { from: 'tester', text: JSON.stringify({ type: 'idle_notification' }), timestamp: '2026-02-12T16:20:00Z' },
+  ],
+  'teams/loaders/inboxes/tester.json': [
+    { from: 'team-lead', text: 'Please cover the CSV loader too.', timestamp: '2026-02-12T16:15:00Z' },
+  ],
+  'tasks/loaders/1.json': { id: '1', subject: 'Map existing loaders', status: 'completed', owner: 'researcher' },
+  'tasks/loaders/2.json': { id: '2', subject: 'Write loader tests', status: 'in_progress', owner: 'tester', blockedBy: ['1'] },
+  'tasks/loaders/3.json': { id: '3', subject: 'Wire loaders', status: 'pending', blockedBy: ['2'] },
+}
+
+function mockClaudeHome(files: Record<string, unknown>) {
+  const entries = Object.keys(files).map(rel => path.join(CLAUDE_HOME, rel))
+
+  mockFs.readdir.mockImplementation((async (dir: string) => {
+    const children = new Set(entries
+      .filter(p => p.startsWith(`${dir}${path.sep}`))
+      .map(p => path.relative(dir, p).split(path.sep)[0]))
+    if (children.size === 0) throw new Error('ENOENT')
+    return [...children]
+  }) as unknown as typeof fs.readdir)
+
+  mockFs.readFile.mockImplementation(async (filePath) => {
+    const rel = path.relative(CLAUDE_HOME, filePath.toString())
+    if (!(rel in files)) throw new Error('File not found')
+    return JSON.stringify(files[rel])
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('AgentTeamsAdapter', () => {
+  const adapter = new AgentTeamsAdapter(PROJECT_DIR, CLAUDE_HOME)
+
+  it('watches team configs, inboxes and task lists alongside the sessions', () => {
+    expect(adapter.getWatchPaths()).toEqual(expect.arrayContaining([
+      path.join(CLAUDE_HOME, 'teams', '*', 'config.json'),
+      path.join(CLAUDE_HOME, 'teams', '*', 'inboxes', '*.json'),
+      path.join(CLAUDE_HOME, 'tasks', '*', '*.json'),
+    ]))
+  })
+
+  it('maps the shared task list to tickets', async () => {
+    mockClaudeHome(FIXTURE)
+
+    const state = await adapter.readState()
+
+    expect(state.error).toBeNull()
+    expect(state.tickets).toEqual([
+      { id: '1', title: 'Map existing loaders', agentId: 'researcher', milestone: 'loaders', status: 'completed', priority: 'medium', dependencies: [], commits: [], reviews: [] },
+      { id: '2', title: 'Write loader tests', agentId: 'tester', milestone: 'loaders', status: 'in-progress', priority: 'medium', dependencies: ['1'], commits: [], reviews: [] },
+      { id: '3', title: 'Wire loaders', agentId: null, milestone: 'loaders', status: 'blocked', priority: 'medium', dependencies: ['2'], commits: [], reviews: [] },
+    ])
+    expect(state.project.ticketsSummary).toMatchObject({ total: 3, completed: 1, inProgress: 1, blocked: 1 })
+    expect(state.project.currentMilestone).toBe('loaders')
+  })
+
+  it('adds teammates without a session from the team config', async () => {
+    mockClaudeHome(FIXTURE)
+
+    const { agents } = await adapter.readState()
+
+    expect(agents.map(a => a.id)).toEqual(['researcher', 'tester'])
+    expect(agents[0]).toMatchObject({
+      role: 'Explore',
+      modelTier: 'haiku',
+      color: 'green',
+      status: 'idle',
+      parentAgentId: 'lead',
+      ticketsAssigned: 1,
+      ticketsCompleted: 1,
+    })
+    expect(agents[1]).toMatchObject({ status: 'working', currentTicket: '2' })
+  })
+
+  it('reads inbox entries as messages between teammates', async () => {
+    mockClaudeHome(FIXTURE)
+
+    const state = await adapter.readState()
+
+    expect(state.messages.map(m => [m.from, m.to, m.content])).toEqual([
+      ['researcher', 'lead', 'Found the loader registry in src/data.'],
+      ['lead', 'tester', 'Please cover the CSV loader too.'],
+      ['tester', 'lead', 'idle notification'],
+    ])
+    expect(state.activity.filter(e => e.type === 'message-sent').map(e => e.summary)).toEqual([
+      '[researcher] → lead: Found the loader registry in src/data.',
+      '[lead] → tester: Please cover the CSV loader too.',
+      '[tester] → lead: idle notification',
+    ])
+  })
+
+  it('falls back to plain session state when no team works in the project', async () => {
+    mockClaudeHome({ 'teams/elsewhere/config.json': FIXTURE['teams/elsewhere/config.json'] })
+
+    const state = await adapter.readState()
+
+    expect(state.error).toBeNull()
+    expect(state.tickets).toEqual([])
+    expect(state.messages).toEqual([])
+  })
+})
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { CodexAdapter, hasCodexSessions, resetRolloutCache } from '../../adapters/codex'
+import { readCompleteLines } from '../../session-tail'
+
+vi.mock('../../session-tail', async importOriginal => {
+  const actual = await importOriginal<typeof import('../../session-tail')>()
+  return { ...actual, readCompleteLines: vi.fn(actual.readCompleteLines) }
+})
+
+const PROJECT_DIR = '/test/project'
+
+let codexHome: string
+let dayDir: string
+
+function line(record: unknown): string {
+  return `${JSON.stringify(record)}\n`
+}
+
+function minutesAgo(minutes: number): string {
+  return new Date(Date.now() - minutes * 60 * 1000).toISOString()
+}
+
+function meta(id: string, cwd = PROJECT_DIR): string {
+  return line({ timestamp: minutesAgo(30), type: 'session_meta', payload: { id, timestamp: minutesAgo(30), cwd } }) +
+    line({ timestamp: minutesAgo(30), type: 'turn_context', payload: { cwd, model: 'gpt-5-codex' } })
+}
+
+function shellCall(callId: string, script: string, minutes: number): string {
+  return line({
+    timestamp: minutesAgo(minutes),
+    type: 'response_item',
+    payload: { type: 'function_call', name: 'shell', call_id: callId, arguments: JSON.stringify({ command: ['bash', '-lc', script] }) },
+  })
+}
+
+function shellOutput(callId: string, exitCode: number, minutes: number): string {
+  return line({
+    timestamp: minutesAgo(minutes),
+    type: 'response_item',
+    payload: { type: 'function_call_output', call_id: callId, output: JSON.stringify({ output: '', metadata: { exit_code: exitCode } }) },
+  })
+}
+
+function tokenCount(input: number, cached: number, output: number, minutes: number): string {
+  return line({
+    timestamp: minutesAgo(minutes),
+    type: 'event_msg',
+    payload: {
+      type: 'token_count',
+      info: {
+        last_token_usage: { input_tokens: input, cached_input_tokens: cached, output_tokens: output },
+        model_context_window: 272_000,
+      },
+    },
+  })
+}
+
+beforeEach(async () => {
+  resetRolloutCache()
+  vi.mocked(readCompleteLines).mockClear()
+  codexHome = await fs.mkdtemp(path.join(os.tmpdir(), 'codex-home-'))
+  const now = new Date()
+  dayDir = path.join(
+    codexHome, 'sessions',
+    String(now.getFullYear()), String(now.getMonth() + 1).padStart(2, '0'), String(now.getDate()).padStart(2, '0'),
+  )
+  await fs.mkdir(dayDir, { recursive: true })
+})
+
+afterEach(async () => {
+  await fs.rm(codexHome, { recursive: true, force: true })
+})
+
+describe('CodexAdapter', () => {
+  it('watches rollout files under sessions/', () => {
+    const adapter = new CodexAdapter(PROJECT_DIR, codexHome)
+    expect(adapter.getWatchPaths()).toEqual([path.join(codexHome, 'sessions', '**', '*.jsonl')])
+  })
+
+  it('maps a rollout to an agent with its tool calls, failures and context window', async () => {
+    await fs.writeFile(
+      path.join(dayDir, 'rollout-a.jsonl'),
+      meta('0199aaaa-1111') +
+        shellCall('c1', 'npm test', 20) + shellOutput('c1', 1, 19) +
+        shellCall('c2', 'npm run build', 10) +
+        tokenCount(50_000, 40_000, 2_000, 10),
+    )
+
+    const state = await new CodexAdapter(PROJECT_DIR, codexHome).readState()
+
+    expect(state.error).toBeNull()
+    expect(state.agents).toHaveLength(1)
+    expect(state.agents[0]).toMatchObject({
+      id: 'codex',
+      role: 'Codex Session',
+      sessionId: '0199aaaa-1111',
+      status: 'waiting-on-tool',
+      errorCount: 1,
+      contextWindow: { used: 50_000, total: 272_000, percentage: 18 },
+    })
+    expect(state.activity.map(e => [e.type, e.summary])).toEqual([
+      ['agent-error', '[codex] shell: npm test failed'],
+      ['system', '[codex] shell: npm run build'],
+      ['agent-spawned', '[codex] Codex session waiting on tool'],
+    ])
+  })
+
+  it('counts token usage per session, excluding cached input', async () => {
+    await fs.writeFile(
+      path.join(dayDir, 'rollout-a.jsonl'),
+      meta('0199aaaa-1111') + tokenCount(50_000, 40_000, 2_000, 20) + tokenCount(60_000, 55_000, 1_000, 10),
+    )
+
+    const { resources } = await new CodexAdapter(PROJECT_DIR, codexHome).readState()
+
+    expect(resources.model).toBe('gpt-5-codex')
+    expect(resources.daily.used).toBe(10_000 + 2_000 + 5_000 + 1_000)
+    expect(resources.breakdown).toMatchObject([{ agentId: 'codex', sessionId: '0199aaaa-1111', daily: 18_000 }])
+  })
+
+  it('only parses the lines appended to a rollout since the last read', async () => {
+    const rollout = path.join(dayDir, 'rollout-a.jsonl')
+    const first = meta('0199aaaa-1111') + shellCall('c1', 'npm test', 5)
+    await fs.writeFile(rollout, first)
+    const adapter = new CodexAdapter(PROJECT_DIR, codexHome)
+    await adapter.readState()
+
+    // Already-parsed bytes are not read again, so an in-place edit to them goes unseen
+    await fs.writeFile(rollout, first.replace('npm test', 'npm tset') + shellCall('c2', 'npm run lint', 1))
+    const state = await adapter.readState()
+
+    expect(state.activity.filter(e => e.type === 'system').map(e => e.summary)).toEqual([
+      '[codex] shell: npm test',
+      '[codex] shell: npm run lint',
+    ])
+  })
+
+  it('ignores rollouts from other directories without parsing them', async () => {
+    const otherRollout = path.join(dayDir, 'rollout-b.jsonl')
+    await fs.writeFile(otherRollout, meta('0199bbbb-2222', '/other/project'))
+    const open = vi.spyOn(fs, 'open')
+
+    const adapter = new CodexAdapter(PROJECT_DIR, codexHome)
+    const state = await adapter.readState()
+    await adapter.readState()
+
+    expect(state.agents).toEqual([])
+    expect(readCompleteLines).not.toHaveBeenCalled()
+    // The session_meta cwd is read once and cached
+    expect(open.mock.calls.filter(([file]) => file === otherRollout)).toHaveLength(1)
+    open.mockRestore()
+    expect(hasCodexSessions(PROJECT_DIR, codexHome)).toBe(false)
+    expect(hasCodexSessions('/other/project', codexHome)).toBe(true)
+  })
+})
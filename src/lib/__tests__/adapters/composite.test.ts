@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { CompositeAdapter } from '../../adapters/composite'
+import type { DashboardAdapter } from '../../adapters/types'
+import { MOCK_STATE } from '../../mock-data'
+import type { Agent, DashboardState } from '@/types'
+
+function stubAdapter(name: string, state: DashboardState, watchPaths: readonly string[] = []): DashboardAdapter {
+  return { name, readState: async () => state, getWatchPaths: () => watchPaths }
+}
+
+function agent(id: string, status: Agent['status']): Agent {
+  return { ...MOCK_STATE.agents[0], id, status, currentTicket: null }
+}
+
+const TAKT_STATE: DashboardState = {
+  ...MOCK_STATE,
+  agents: [agent('lead', 'idle'), { ...agent('takt-data-engineer', 'working'), currentTicket: 'T007' }],
+  tickets: MOCK_STATE.tickets.filter(t => t.id === 'T001' || t.id === 'T007'),
+  activity: [
+    { timestamp: '2026-02-12T10:00:00Z', agentId: 'lead', sessionId: null, type: 'system', summary: 'takt early' },
+    { timestamp: '2026-02-12T10:20:00Z', agentId: 'lead', sessionId: null, type: 'system', summary: 'takt late' },
+  ],
+  messages: [],
+  error: null,
+}
+
+const OPENCODE_STATE: DashboardState = {
+  ...MOCK_STATE,
+  agents: [agent('lead', 'working'), agent('lead-opencode', 'working')],
+  tickets: [{ ...MOCK_STATE.tickets[0], id: 'T001', title: 'Other T001' }],
+  activity: [
+    { timestamp: '2026-02-12T10:10:00Z', agentId: 'lead-opencode', sessionId: null, type: 'system', summary: 'opencode' },
+  ],
+  resources: {
+    ...MOCK_STATE.resources,
+    daily: { ...MOCK_STATE.resources.daily, used: 1_000 },
+    contextWindow: { used: 190_000, total: 200_000, percentage: 95 },
+  },
+  messages: [],
+  error: null,
+}
+
+describe('CompositeAdapter', () => {
+  it('watches every source path once', () => {
+    const adapter = new CompositeAdapter([
+      stubAdapter('takt', TAKT_STATE, ['/a', '/shared']),
+      stubAdapter('opencode', OPENCODE_STATE, ['/shared', '/b']),
+    ])
+    expect(adapter.getWatchPaths()).toEqual(['/a', '/shared', '/b'])
+  })
+
+  it('dedupes agents by id, keeping the first source and any active status', async () => {
+    const state = await new CompositeAdapter([
+      stubAdapter('takt', TAKT_STATE),
+      stubAdapter('opencode', OPENCODE_STATE),
+    ]).readState()
+
+    expect(state.agents.map(a => [a.id, a.status])).toEqual([
+      ['lead', 'working'],
+      ['takt-data-engineer', 'working'],
+      ['lead-opencode', 'working'],
+    ])
+    expect(state.project.activeAgents).toEqual(['lead', 'takt-data-engineer', 'lead-opencode'])
+  })
+
+  it('namespaces ticket ids per source', async () => {
+    const state = await new CompositeAdapter([
+      stubAdapter('takt', TAKT_STATE),
+      stubAdapter('opencode', OPENCODE_STATE),
+    ]).readState()
+
+    expect(state.tickets.map(t => [t.id, t.title])).toEqual([
+      ['takt:T001', 'Shared Data Models'],
+      ['takt:T007', 'L2-ARCTIC Loader'],
+      ['opencode:T001', 'Other T001'],
+    ])
+    expect(state.tickets[1].dependencies).toEqual(['takt:T001'])
+    expect(state.agents.find(a => a.id === 'takt-data-engineer')?.currentTicket).toBe('takt:T007')
+  })
+
+  it('namespaces the ticket ids of commits and reviews', async () => {
+    const commit = {
+      sha: 'abc1234', timestamp: '2026-02-12T10:05:00Z', author: 'dev', subject: 'T001: add models',
+      ticketIds: ['T001'], agentId: null, agentMatch: null,
+    }
+    const review = {
+      id: 'T001-review', ticketId: 'T001', reviewer: 'takt-code-reviewer', verdict: 'approved' as const,
+      submittedAt: '2026-02-12T10:10:00Z', summary: null, findings: [],
+    }
+    const withHistory: DashboardState = {
+      ...TAKT_STATE,
+      tickets: TAKT_STATE.tickets.map(t => (t.id === 'T001' ? { ...t, commits: [commit], reviews: [review] } : t)),
+    }
+
+    const state = await new CompositeAdapter([
+      stubAdapter('takt', withHistory),
+      stubAdapter('opencode', OPENCODE_STATE),
+    ]).readState()
+
+    const ticket = state.tickets.find(t => t.id === 'takt:T001')
+    expect(ticket?.commits.map(c => c.ticketIds)).toEqual([['takt:T001']])
+    expect(ticket?.reviews.map(r => r.ticketId)).toEqual(['takt:T001'])
+  })
+
+  it('interleaves activity by time and sums resources', async () => {
+    const state = await new CompositeAdapter([
+      stubAdapter('takt', TAKT_STATE),
+      stubAdapter('opencode', OPENCODE_STATE),
+    ]).readState()
+
+    expect(state.activity.map(e => e.summary)).toEqual(['takt early', 'opencode', 'takt late'])
+    expect(state.resources.daily.used).toBe(MOCK_STATE.resources.daily.used + 1_000)
+    expect(state.resources.contextWindow.percentage).toBe(95)
+    expect(state.resources.breakdown).toHaveLength(MOCK_STATE.resources.breakdown.length * 2)
+  })
+
+  it('labels repeated adapters and only errors when every source failed', async () => {
+    const failed: DashboardState = { ...TAKT_STATE, agents: [], error: 'No sessions found' }
+
+    const partial = new CompositeAdapter([stubAdapter('claude-code', TAKT_STATE), stubAdapter('claude-code', failed)])
+    expect(partial.name).toBe('composite(claude-code+claude-code-2)')
+    expect((await partial.readState()).error).toBeNull()
+
+    const broken = new CompositeAdapter([stubAdapter('claude-code', failed), stubAdapter('codex', failed)])
+    expect((await broken.readState()).error).toBe('claude-code: No sessions found; codex: No sessions found')
+  })
+})
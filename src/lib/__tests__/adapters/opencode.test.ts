@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { OpenCodeAdapter, resetOpenCodeCache } from '../../adapters/opencode'
+import fs from 'fs/promises'
+import path from 'path'
+
+vi.mock('fs/promises')
+
+const mockFs = vi.mocked(fs)
+
+const PROJECT_DIR = '/test/project'
+const OPENCODE_HOME = '/home/.local/share/opencode'
+const STORAGE = path.join(OPENCODE_HOME, 'storage')
+
+const NOW = Date.parse('2026-02-12T17:00:00Z')
+const minutesAgo = (minutes: number) => NOW - minutes * 60 * 1000
+
+/** Storage files keyed by path relative to storage/. */
+const FIXTURE: Record<string, unknown> = {
+  'project/prj_1.json': { id: 'prj_1', worktree: PROJECT_DIR },
+  'project/prj_other.json': { id: 'prj_other', worktree: '/other/project' },
+
+  'session/prj_1/ses_root01.json': {
+    id: 'ses_root01',
+    title: 'Wire dataset loaders',
+    time: { created: minutesAgo(20), updated: minutesAgo(1) },
+  },
+  'session/prj_1/ses_child1.json': {
+    id: 'ses_child1',
+    parentID: 'ses_root01',
+    title: 'Review loader tests (@general subagent)',
+    time: { created: minutesAgo(10), updated: minutesAgo(3) },
+  },
+
+  'message/ses_root01/msg_01.json': {
+    id: 'msg_01', sessionID: 'ses_root01', role: 'user', time: { created: minutesAgo(20) },
+  },
+  'message/ses_root01/msg_02.json': {
+    id: 'msg_02',
+    sessionID: 'ses_root01',
+    role: 'assistant',
+    modelID: 'claude-sonnet-4-5',
+    tokens: { input: 1_000, output: 200, reasoning: 50, cache: { read: 40_000, write: 2_000 } },
+    time: { created: minutesAgo(2) },
+  },
+  'message/ses_child1/msg_10.json': {
+    id: 'msg_10',
+    sessionID: 'ses_child1',
+    role: 'assistant',
+    modelID: 'claude-haiku-4-5',
+    tokens: { input: 500, output: 100, cache: { read: 0, write: 0 } },
+    error: { name: 'APIError', data: { message: 'Overloaded' } },
+    time: { created: minutesAgo(4), completed: minutesAgo(3) },
+  },
+
+  'part/msg_02/prt_01.json': {
+    id: 'prt_01',
+    messageID: 'msg_02',
+    type: 'tool',
+    tool: 'bash',
+    callID: 'call_1',
+    state: { status: 'error', input: { command: 'pytest' }, error: 'Exit code 1\n2 failed', time: { start: minutesAgo(12), end: minutesAgo(11) } },
+  },
+  'part/msg_02/prt_02.json': {
+    id: 'prt_02',
+    messageID: 'msg_02',
+    type: 'tool',
+    tool: 'task',
+    callID: 'call_2',
+    state: {
+      status: 'running',
+      input: { description: 'Review loader tests', prompt: 'Check the loader tests', subagent_type: 'general' },
+      metadata: { sessionId: 'ses_child1' },
+      time: { start: minutesAgo(10) },
+    },
+  },
+}
+
+function mockStorage(files: Record<string, unknown>) {
+  const entries = Object.keys(files).map(rel => path.join(STORAGE, rel))
+
+  mockFs.readdir.mockImplementation((async (dir: string) => {
+    const children = entries.filter(p => path.dirname(p) === dir).map(p => path.basename(p))
+    if (children.length === 0) throw new Error('ENOENT')
+    return children
+  }) as unknown as typeof fs.readdir)
+
+  mockFs.readFile.mockImplementation(async (filePath) => {
+    const rel = path.relative(STORAGE, filePath.toString())
+    if (!(rel in files)) throw new Error('File not found')
+    return JSON.stringify(files[rel])
+  })
+
+  mockFs.stat.mockImplementation((async (filePath: string) => {
+    const rel = path.relative(STORAGE, filePath)
+    if (!(rel in files)) throw new Error('ENOENT')
+    return { size: JSON.stringify(files[rel]).length, mtimeMs: NOW }
+  }) as unknown as typeof fs.stat)
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  resetOpenCodeCache()
+  vi.useFakeTimers()
+  vi.setSystemTime(NOW)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('OpenCodeAdapter', () => {
+  const adapter = new OpenCodeAdapter(PROJECT_DIR, OPENCODE_HOME)
+
+  it('watches session, message and part storage', () => {
+    expect(adapter.getWatchPaths()).toEqual([
+      path.join(STORAGE, 'session', '**', '*.json'),
+      path.join(STORAGE, 'message', '**', '*.json'),
+      path.join(STORAGE, 'part', '**', '*.json'),
+    ])
+  })
+
+  it('maps the root session to the lead and child sessions to subagents', async () => {
+    mockStorage(FIXTURE)
+
+    const state = await adapter.readState()
+
+    expect(state.error).toBeNull()
+    expect(state.project.name).toBe('project')
+    expect(state.agents.map(a => a.id)).toEqual(['lead-opencode', 'general-child1'])
+
+    const [lead, child] = state.agents
+    expect(lead).toMatchObject({
+      role: 'Main Session',
+      modelTier: 'sonnet',
+      status: 'waiting-on-tool',
+      sessionId: 'ses_root01',
+      parentAgentId: null,
+      errorCount: 1,
+    })
+    expect(lead.contextWindow?.used).toBe(43_000)
+
+    expect(child).toMatchObject({
+      role: 'Review loader tests',
+      modelTier: 'haiku',
+      status: 'errored',
+      parentAgentId: 'lead-opencode',
+      errorCount: 1,
+    })
+    expect(child.spawn).toMatchObject({
+      parentId: 'lead-opencode',
+      toolUseId: 'call_2',
+      turnId: 'msg_02',
+      subagentType: 'general',
+      description: 'Review loader tests',
+      instructions: 'Check the loader tests',
+      result: null,
+    })
+  })
+
+  it('turns tool calls and message errors into activity events', async () => {
+    mockStorage(FIXTURE)
+
+    const state = await adapter.readState()
+
+    expect(state.activity.map(e => [e.type, e.summary])).toEqual([
+      ['agent-error', '[lead-opencode] bash failed: Exit code 1'],
+      ['agent-spawned', '[lead-opencode] Spawned general-child1: Review loader tests'],
+      ['agent-error', '[general-child1] API error: Overloaded'],
+    ])
+  })
+
+  it('sums token usage per session, excluding cache reads', async () => {
+    mockStorage(FIXTURE)
+
+    const { resources } = await adapter.readState()
+
+    expect(resources.model).toBe('claude-sonnet-4-5')
+    expect(resources.weekly.used).toBe(3_250 + 600)
+    expect(resources.breakdown.map(b => [b.agentId, b.weekly])).toEqual([
+      ['lead-opencode', 3_250],
+      ['general-child1', 600],
+    ])
+  })
+
+  it('only re-parses storage files that changed since the last read', async () => {
+    mockStorage(FIXTURE)
+    await adapter.readState()
+    mockFs.readFile.mockClear()
+
+    const updated = {
+      ...FIXTURE,
+      'message/ses_child1/msg_11.json': {
+        id: 'msg_11', sessionID: 'ses_child1', role: 'user', time: { created: minutesAgo(2) },
+      },
+    }
+    mockStorage(updated)
+    await adapter.readState()
+
+    expect(mockFs.readFile.mock.calls.map(([filePath]) => path.relative(STORAGE, filePath.toString()))).toEqual([
+      'message/ses_child1/msg_11.json',
+    ])
+  })
+
+  it('reports an error when OpenCode has no project for the directory', async () => {
+    mockStorage({ 'project/prj_other.json': FIXTURE['project/prj_other.json'] })
+
+    const state = await adapter.readState()
+
+    expect(state.agents).toEqual([])
+    expect(state.error).toBe(`No OpenCode project found for ${PROJECT_DIR}`)
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { ProtocolAdapter, hasProtocolDir } from '../../adapters/protocol'
+
+let projectDir: string
+let protocolDir: string
+
+function minutesAgo(minutes: number): string {
+  return new Date(Date.now() - minutes * 60 * 1000).toISOString()
+}
+
+function lines(records: readonly unknown[]): string {
+  return records.map(r => `${JSON.stringify(r)}\n`).join('')
+}
+
+async function writeAgents(agents: unknown): Promise<void> {
+  await fs.writeFile(path.join(protocolDir, 'agents.json'), JSON.stringify(agents))
+}
+
+async function writeTicket(file: string, ticket: unknown): Promise<void> {
+  await fs.writeFile(path.join(protocolDir, 'tickets', file), JSON.stringify(ticket))
+}
+
+beforeEach(async () => {
+  projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'protocol-'))
+  protocolDir = path.join(projectDir, '.agent-dashboard')
+  await fs.mkdir(path.join(protocolDir, 'tickets'), { recursive: true })
+})
+
+afterEach(async () => {
+  await fs.rm(projectDir, { recursive: true, force: true })
+})
+
+describe('ProtocolAdapter', () => {
+  it('maps agents, tickets, events and messages into dashboard state', async () => {
+    await writeAgents({
+      project: { name: 'pipeline', phase: 2, currentMilestone: 'M1' },
+      agents: [
+        { id: 'planner', role: 'Planner', model: 'OPUS', status: 'idle' },
+        { id: 'coder', role: 'Coder', status: 'WAITING_ON_TOOL', parentId: 'planner', contextTokens: 50_000, updatedAt: minutesAgo(1) },
+      ],
+    })
+    await writeTicket('T1.json', { id: 'T1', title: 'Load data', status: 'done', assignee: 'coder', milestone: 'M1' })
+    await writeTicket('T2.json', { id: 'T2', title: 'Train model', status: 'in_progress', assignee: 'coder', priority: 'high', dependencies: ['T1'] })
+    await fs.writeFile(path.join(protocolDir, 'events.jsonl'), lines([
+      { timestamp: minutesAgo(10), type: 'ticket_started', agentId: 'coder', summary: 'Started T1' },
+      { timestamp: minutesAgo(5), type: 'ticket-completed', agentId: 'coder', summary: 'Finished T1' },
+    ]))
+    await fs.writeFile(path.join(protocolDir, 'messages.jsonl'), lines([
+      { timestamp: minutesAgo(4), from: 'planner', to: 'coder', content: 'Start T2', ticketId: 'T2', urgency: 'high' },
+    ]))
+
+    const state = await new ProtocolAdapter(projectDir).readState()
+
+    expect(state.error).toBeNull()
+    expect(state.agents.map(a => [a.id, a.status, a.modelTier, a.parentAgentId])).toEqual([
+      ['planner', 'idle', 'opus', null],
+      ['coder', 'waiting-on-tool', 'sonnet', 'planner'],
+    ])
+    expect(state.agents[1]).toMatchObject({
+      ticketsAssigned: 2,
+      ticketsCompleted: 1,
+      currentTicket: 'T2',
+      contextWindow: { used: 50_000, total: 200_000, percentage: 25 },
+    })
+    expect(state.tickets.map(t => [t.id, t.status, t.priority, t.dependencies])).toEqual([
+      ['T1', 'completed', 'medium', []],
+      ['T2', 'in-progress', 'high', ['T1']],
+    ])
+    expect(state.activity.map(e => [e.type, e.summary])).toEqual([
+      ['ticket-started', 'Started T1'],
+      ['ticket-completed', 'Finished T1'],
+    ])
+    expect(state.messages).toEqual([
+      { timestamp: expect.any(String), from: 'planner', to: 'coder', ticketId: 'T2', content: 'Start T2', urgency: 'high' },
+    ])
+    expect(state.project).toMatchObject({
+      name: 'pipeline',
+      phase: '2',
+      status: 'running',
+      currentMilestone: 'M1',
+      activeAgents: ['coder'],
+      ticketsSummary: { total: 2, completed: 1, inProgress: 1, pending: 0, blocked: 0, failed: 0 },
+    })
+  })
+
+  it('skips invalid ticket files and event lines, reporting them as system events', async () => {
+    await writeAgents({ agents: [{ id: 'coder', status: 'working' }] })
+    await writeTicket('T1.json', { id: 'T1', title: 'Load data', status: 'pending' })
+    await writeTicket('T2.json', { id: 'T2', title: 'Train model', status: 'someday' })
+    await fs.writeFile(path.join(protocolDir, 'events.jsonl'), lines([
+      { timestamp: minutesAgo(3), type: 'system', summary: 'Run started' },
+    ]) + '{"timestamp": "yesterday"\n')
+
+    const state = await new ProtocolAdapter(projectDir).readState()
+
+    expect(state.error).toBeNull()
+    expect(state.tickets.map(t => t.id)).toEqual(['T1'])
+    const skipped = state.activity.filter(e => e.summary.startsWith('Skipped invalid')).map(e => e.summary)
+    // Tickets and events are read concurrently, so the problems can come in either order
+    expect(skipped).toHaveLength(2)
+    expect(skipped).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^Skipped invalid \.agent-dashboard\/events\.jsonl:2: not valid JSON$/),
+      expect.stringMatching(/^Skipped invalid \.agent-dashboard\/tickets\/T2\.json: status: Invalid enum value/),
+    ]))
+    expect(state.activity.some(e => e.summary === 'Run started')).toBe(true)
+  })
+
+  it('dates skipped-file events by the file mtime so unchanged files read the same', async () => {
+    await writeAgents({ agents: [{ id: 'coder', status: 'working' }] })
+    await writeTicket('T1.json', { id: 'T1', title: 'Load data', status: 'someday' })
+    const written = new Date(Date.now() - 10 * 60_000)
+    await fs.utimes(path.join(protocolDir, 'tickets', 'T1.json'), written, written)
+    await fs.writeFile(path.join(protocolDir, 'events.jsonl'), lines([
+      { timestamp: minutesAgo(5), type: 'system', summary: 'Run started' },
+    ]))
+
+    const adapter = new ProtocolAdapter(projectDir)
+    const first = await adapter.readState()
+    const second = await adapter.readState()
+
+    expect(first.activity.map(e => e.summary)).toEqual([
+      expect.stringMatching(/^Skipped invalid \.agent-dashboard\/tickets\/T1\.json/),
+      'Run started',
+    ])
+    expect(first.activity[0].timestamp).toBe(written.toISOString())
+    expect(second.activity).toEqual(first.activity)
+  })
+
+  it('shows agents whose writer stopped updating them as completed', async () => {
+    await writeAgents({
+      agents: [
+        { id: 'fresh', status: 'working', updatedAt: minutesAgo(1) },
+        { id: 'stale', status: 'working', updatedAt: minutesAgo(30) },
+      ],
+    })
+
+    const state = await new ProtocolAdapter(projectDir).readState()
+
+    expect(state.agents.map(a => a.status)).toEqual(['working', 'completed'])
+  })
+
+  it('reports a missing or invalid agents.json as an error', async () => {
+    expect(hasProtocolDir(projectDir)).toBe(false)
+    expect((await new ProtocolAdapter(projectDir).readState()).error).toBe('No .agent-dashboard/agents.json found')
+
+    await writeAgents({ agents: [{ id: 'coder' }] })
+    expect(hasProtocolDir(projectDir)).toBe(true)
+    expect((await new ProtocolAdapter(projectDir).readState()).error)
+      .toMatch(/^Invalid \.agent-dashboard\/agents\.json: agents\.0\.status: /)
+  })
+})
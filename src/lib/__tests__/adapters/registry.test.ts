@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+import { createAdapter, listAdapters, registerAdapter } from '../../adapters/registry'
+import { getProjectSessionDir } from '../../session-reader'
+import type { DashboardAdapter } from '../../adapters/types'
+
+let tmpDir: string
+let projectDir: string
+let env: Record<string, string>
+
+function stubAdapter(name: string): DashboardAdapter {
+  return {
+    name,
+    readState: async () => { throw new Error('not read in these tests') },
+    getWatchPaths: () => [],
+  }
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'registry-'))
+  projectDir = path.join(tmpDir, 'project')
+  await fs.mkdir(projectDir)
+  env = {
+    CLAUDE_HOME: path.join(tmpDir, 'claude'),
+    OPENCODE_HOME: path.join(tmpDir, 'opencode'),
+    CODEX_HOME: path.join(tmpDir, 'codex'),
+  }
+})
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true })
+})
+
+describe('createAdapter', () => {
+  it('falls back to claude-code when nothing is detected', () => {
+    expect(createAdapter(projectDir, env).name).toBe('claude-code')
+  })
+
+  it('picks the highest-scoring adapter within a group', async () => {
+    await fs.mkdir(getProjectSessionDir(env.CLAUDE_HOME, projectDir), { recursive: true })
+    expect(createAdapter(projectDir, env).name).toBe('claude-code')
+
+    await fs.mkdir(path.join(projectDir, '.takt'))
+    expect(createAdapter(projectDir, env).name).toBe('takt')
+  })
+
+  it('honors DASHBOARD_ADAPTER, merging comma-separated names', async () => {
+    await fs.mkdir(path.join(projectDir, '.takt'))
+
+    expect(createAdapter(projectDir, { ...env, DASHBOARD_ADAPTER: 'codex' }).name).toBe('codex')
+    expect(createAdapter(projectDir, { ...env, DASHBOARD_ADAPTER: 'claude-code, opencode' }).name)
+      .toBe('composite(claude-code+opencode)')
+  })
+
+  it('rejects unknown adapter names and invalid configuration', () => {
+    expect(() => createAdapter(projectDir, { ...env, DASHBOARD_ADAPTER: 'nope' }))
+      .toThrow(/Unknown DASHBOARD_ADAPTER "nope".*takt, agent-teams, claude-code/)
+    expect(() => createAdapter(projectDir, { ...env, CODEX_HOME: '', DASHBOARD_ADAPTER: 'codex' }))
+      .toThrow('Invalid configuration for adapter "codex": CODEX_HOME must not be empty')
+  })
+
+  it('merges third-party adapters from other groups', async () => {
+    await fs.mkdir(path.join(projectDir, '.takt'))
+    registerAdapter({
+      name: 'custom',
+      description: 'Test adapter',
+      group: 'custom',
+      configSchema: z.object({ CUSTOM_ENABLED: z.string().optional() }),
+      detect: (_dir, config) => (config.CUSTOM_ENABLED ? 150 : 0),
+      create: () => stubAdapter('custom'),
+    })
+
+    expect(listAdapters().map(a => a.name)).toContain('custom')
+    expect(createAdapter(projectDir, env).name).toBe('takt')
+    expect(createAdapter(projectDir, { ...env, CUSTOM_ENABLED: '1' }).name).toBe('composite(custom+takt)')
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { ReplayAdapter } from '../../adapters/replay'
+import { MOCK_STATE } from '../../mock-data'
+import type { DashboardState } from '@/types'
+
+const START = Date.UTC(2026, 1, 12, 10, 0)
+
+let tmpDir: string
+let filePath: string
+
+function phaseState(phase: string): DashboardState {
+  return { ...MOCK_STATE, project: { ...MOCK_STATE.project, phase } }
+}
+
+/** Keyframe at 0, then the phase changes at one and two minutes. */
+async function writeRecording(): Promise<void> {
+  const frames = [
+    { t: new Date(START).toISOString(), state: phaseState('1') },
+    { t: new Date(START + 60_000).toISOString(), patch: { project: phaseState('2').project } },
+    { t: new Date(START + 120_000).toISOString(), patch: { project: phaseState('3').project } },
+  ]
+  await fs.writeFile(filePath, frames.map(frame => `${JSON.stringify(frame)}\n`).join(''))
+}
+
+async function phaseOf(adapter: ReplayAdapter): Promise<string> {
+  return (await adapter.readState()).project.phase
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] })
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'replay-'))
+  filePath = path.join(tmpDir, 'run.jsonl')
+  await writeRecording()
+})
+
+afterEach(async () => {
+  vi.useRealTimers()
+  await fs.rm(tmpDir, { recursive: true, force: true })
+})
+
+describe('ReplayAdapter', () => {
+  it('plays frames back at the chosen speed and notifies subscribers', async () => {
+    const adapter = new ReplayAdapter(filePath, 10)
+    const listener = vi.fn()
+    adapter.subscribe(listener)
+
+    expect(await phaseOf(adapter)).toBe('1')
+
+    await vi.advanceTimersByTimeAsync(6_000)
+    expect(await phaseOf(adapter)).toBe('2')
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(await phaseOf(adapter)).toBe('3')
+    expect(await adapter.getStatus()).toMatchObject({
+      recordedFrom: '2026-02-12T10:00:00.000Z',
+      durationMs: 120_000,
+      positionMs: 120_000,
+      speed: 10,
+      frames: 3,
+    })
+  })
+
+  it('pauses, seeks and changes speed', async () => {
+    const adapter = new ReplayAdapter(filePath)
+    await adapter.readState()
+
+    adapter.pause()
+    await vi.advanceTimersByTimeAsync(90_000)
+    expect(await phaseOf(adapter)).toBe('1')
+
+    adapter.seek(100_000)
+    expect(await phaseOf(adapter)).toBe('2')
+    adapter.seek(0)
+    expect(await phaseOf(adapter)).toBe('1')
+
+    adapter.apply({ action: 'speed', speed: 60 })
+    adapter.apply({ action: 'play' })
+    await vi.advanceTimersByTimeAsync(2_000)
+    expect(await phaseOf(adapter)).toBe('3')
+    expect((await adapter.getStatus()).paused).toBe(false)
+  })
+
+  it('reports a missing recording as an error', async () => {
+    const adapter = new ReplayAdapter(path.join(tmpDir, 'missing.jsonl'))
+    // Subscribing loads the file too; its failure must not surface as an unhandled rejection
+    const unsubscribe = adapter.subscribe(vi.fn())
+
+    const state = await adapter.readState()
+    expect(state.error).toMatch(/ENOENT/)
+    unsubscribe()
+  })
+})
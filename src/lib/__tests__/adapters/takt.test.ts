@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { TaktAdapter } from '../../adapters/takt'
+import { attachReviews, parseReviewMarkdown } from '../../adapters/takt-reviews'
+import type { Review, Ticket } from '@/types'
 import fs from 'fs/promises'
 import path from 'path'
 
@@ -133,6 +135,105 @@ describe('TaktAdapter', () => {
     })
   })
 
+  describe('readState with reviews', () => {
+    const REVIEWS_DIR = path.join(TAKT_DIR, 'reviews')
+    const files: Record<string, string> = {
+      [path.join(TAKT_DIR, 'tickets', 'archive', 'T001-data-models.md')]: '# T001: Shared Data Models\n**Agent:** takt-data-engineer\n**Status:** in-progress\n',
+      [path.join(REVIEWS_DIR, 'M1', 'T001-review.md')]: [
+        '# Review: T001 Shared Data Models',
+        '**Reviewer:** takt-code-reviewer',
+        '**Verdict:** CHANGES_REQUESTED',
+        '**Date:** 2026-02-12T10:00:00Z',
+        '',
+        '## Summary',
+        'Close, but the loader drops speaker ids.',
+        '',
+        '## Findings',
+        '- [blocker] src/data/models.py:42 — speaker_id is never set',
+        '- [nit] Rename `tmp` to something meaningful',
+      ].join('\n'),
+      [path.join(REVIEWS_DIR, 'T001-rereview.json')]: JSON.stringify({
+        ticketId: 'T001', reviewer: 'takt-code-reviewer', verdict: 'approved', submittedAt: '2026-02-12T11:00:00Z',
+      }),
+    }
+
+    it('attaches reviews to tickets and emits review-submitted events', async () => {
+      mockFs.access.mockResolvedValue(undefined)
+      mockFs.readFile.mockImplementation(async (filePath) => {
+        const content = files[filePath.toString()]
+        if (content === undefined) throw new Error('File not found')
+        return content
+      })
+      mockFs.readdir.mockImplementation((async (dir: string) => {
+        if (dir === path.join(TAKT_DIR, 'tickets', 'archive')) return ['T001-data-models.md']
+        if (dir === REVIEWS_DIR) return ['M1', path.join('M1', 'T001-review.md'), 'T001-rereview.json']
+        throw new Error('ENOENT')
+      }) as unknown as typeof fs.readdir)
+      mockFs.stat.mockImplementation((async (filePath: string) => {
+        if (files[filePath] === undefined) throw new Error('ENOENT')
+        return { mtime: new Date('2026-02-12T09:00:00Z') }
+      }) as unknown as typeof fs.stat)
+
+      const state = await adapter.readState()
+
+      const ticket = state.tickets.find(t => t.id === 'T001')
+      expect(ticket?.reviews).toEqual([
+        {
+          id: path.join('M1', 'T001-review'),
+          ticketId: 'T001',
+          reviewer: 'takt-code-reviewer',
+          verdict: 'changes-requested',
+          submittedAt: '2026-02-12T10:00:00.000Z',
+          summary: 'Close, but the loader drops speaker ids.',
+          findings: [
+            { severity: 'blocker', file: 'src/data/models.py', line: 42, message: 'speaker_id is never set' },
+            { severity: 'nit', file: null, line: null, message: 'Rename `tmp` to something meaningful' },
+          ],
+        },
+        expect.objectContaining({ id: 'T001-rereview', verdict: 'approved', findings: [] }),
+      ])
+      expect(state.activity.filter(e => e.type === 'review-submitted').map(e => e.summary)).toEqual([
+        '[takt-code-reviewer] Requested changes on T001 (2 findings)',
+        '[takt-code-reviewer] Approved T001',
+      ])
+    })
+  })
+
+  describe('attachReviews', () => {
+    const ticket = (id: string, milestone = ''): Ticket => ({
+      id, title: id, agentId: null, milestone, status: 'pending', priority: 'medium', dependencies: [], commits: [], reviews: [],
+    })
+    const review = (ticketId: string, id = `${ticketId}-review`): Review => ({
+      id, ticketId, reviewer: null, verdict: 'approved', submittedAt: '2026-02-12T10:00:00Z', summary: null, findings: [],
+    })
+
+    it('keeps reviews within their milestone when ticket numbers repeat', () => {
+      const tickets = attachReviews([ticket('M1-T01'), ticket('M2-T01'), ticket('T02')], [review('M1-T01'), review('M2-T02')])
+
+      expect(tickets.map(t => t.reviews.map(r => r.ticketId))).toEqual([['M1-T01'], [], ['M2-T02']])
+    })
+
+    it('attaches a bare ticket id to the milestone the review names', () => {
+      const tickets = attachReviews(
+        [ticket('T01', 'M1'), ticket('T01', 'M2'), ticket('T02', 'M1'), ticket('T02', 'M2')],
+        [review('T01', 'M2/T01-review'), review('M1-T02'), review('T02', 'T02-review')],
+      )
+
+      expect(tickets.map(t => t.reviews.map(r => r.id))).toEqual([
+        [], ['M2/T01-review'], ['M1-T02-review', 'T02-review'], ['T02-review'],
+      ])
+    })
+  })
+
+  describe('parseReviewMarkdown', () => {
+    it('does not read a ticket id out of a timestamp in the title', () => {
+      const mtime = new Date('2026-02-12T10:00:00Z')
+
+      expect(parseReviewMarkdown('# Review 2026-02-12T10:00\n**Verdict:** approved\n', 'notes', mtime)).toBeNull()
+      expect(parseReviewMarkdown('# Review 2026-02-12T10:00\n**Verdict:** approved\n', 'M2-T01', mtime)?.ticketId).toBe('M2-T01')
+    })
+  })
+
   describe('readState with no .takt dir', () => {
     it('returns error state', async () => {
       mockFs.access.mockRejectedValue(new Error('ENOENT'))
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { readClaudeStats, resetUsageCache } from '../claude-stats'
+import { getProjectSessionDir } from '../session-reader'
+
+const PROJECT_DIR = '/repo/app'
+
+let claudeHome: string
+let sessionsDir: string
+
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * 60_000)
+}
+
+async function writeSession(file: string, startedMinutesAgo: number, writtenMinutesAgo: number, output: number) {
+  const filePath = path.join(sessionsDir, file)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const records = [
+    { timestamp: minutesAgo(startedMinutesAgo).toISOString(), message: { role: 'user', content: 'Go' } },
+    {
+      timestamp: minutesAgo(writtenMinutesAgo).toISOString(),
+      message: { id: file, role: 'assistant', content: [], usage: { input_tokens: 100, output_tokens: output } },
+    },
+  ]
+  await fs.writeFile(filePath, records.map(r => `${JSON.stringify(r)}\n`).join(''))
+  await fs.utimes(filePath, minutesAgo(writtenMinutesAgo), minutesAgo(writtenMinutesAgo))
+}
+
+beforeEach(async () => {
+  resetUsageCache()
+  claudeHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-stats-'))
+  sessionsDir = getProjectSessionDir(claudeHome, PROJECT_DIR)
+})
+
+afterEach(async () => {
+  await fs.rm(claudeHome, { recursive: true, force: true })
+})
+
+describe('readClaudeStats', () => {
+  it('attributes each main session to the same lead id as its agent', async () => {
+    await writeSession('aaaaaaaa-1111.jsonl', 50, 5, 10)
+    await writeSession('bbbbbbbb-2222.jsonl', 20, 1, 20)
+    await writeSession('cccccccc-3333.jsonl', 300, 240, 30)
+
+    const stats = await readClaudeStats(claudeHome, PROJECT_DIR)
+
+    expect(stats.breakdown.map(b => [b.sessionId, b.agentId]).sort()).toEqual([
+      ['aaaaaaaa-1111', 'lead'],
+      ['bbbbbbbb-2222', 'lead-bbbbbbbb'],
+      ['cccccccc-3333', 'lead-cccccccc'],
+    ])
+    expect(stats.contextWindow.used).toBe(100)
+  })
+})
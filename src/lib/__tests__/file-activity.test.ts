@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { collectFileActivity, editConflictEvents, readFileActivity } from '../file-activity'
+import { readSessionSnapshot, type AgentSession, type SessionSnapshot } from '../session-reader'
+import { resetSessionCursors, type FileTouchCounts } from '../session-tail'
+import type { AgentStatus } from '@/types'
+
+const PROJECT = '/repo'
+
+function touch(overrides: Partial<FileTouchCounts>): FileTouchCounts {
+  return { reads: 0, edits: 0, writes: 0, lastTouchedAt: null, lastEditedAt: null, ...overrides }
+}
+
+function subagent(agentName: string, activity: AgentStatus, files: Record<string, FileTouchCounts>): AgentSession {
+  return {
+    agentId: `${agentName}-hash`,
+    mainSessionId: 'main-1',
+    agentName,
+    sessionFile: `/claude/projects/-repo/main-1/subagents/agent-${agentName}.jsonl`,
+    lastModified: new Date(),
+    activity,
+    model: null,
+    role: null,
+    currentTask: null,
+    lastAction: null,
+    messageCount: 0,
+    toolUseCount: 0,
+    contextWindow: null,
+    compacted: false,
+    spawn: null,
+    parentAgentId: null,
+    waitingOn: null,
+    lastError: null,
+    errorCount: 0,
+    recentErrors: [],
+    blockedOn: null,
+    files,
+  }
+}
+
+function snapshot(subagents: AgentSession[]): SessionSnapshot {
+  return { mainSession: null, mainSessions: [], subagents }
+}
+
+describe('collectFileActivity', () => {
+  it('indexes touches per file relative to the project', () => {
+    const files = collectFileActivity(snapshot([
+      subagent('takt-data-engineer', 'working', { '/repo/src/loader.py': touch({ reads: 2, edits: 1 }) }),
+      subagent('takt-test-engineer', 'working', { '/repo/src/loader.py': touch({ reads: 1 }), '/tmp/out.txt': touch({ writes: 1 }) }),
+    ]), PROJECT)
+
+    expect(files.map(f => f.path)).toEqual(['src/loader.py', '/tmp/out.txt'])
+    expect(files[0].touches.map(t => t.agentId).sort()).toEqual(['takt-data-engineer', 'takt-test-engineer'])
+    expect(files[0].conflict).toBe(false)
+  })
+
+  it('flags files edited by two concurrently working agents', () => {
+    const files = collectFileActivity(snapshot([
+      subagent('takt-data-engineer', 'working', { '/repo/src/models.py': touch({ edits: 1, lastEditedAt: '2026-02-12T10:00:00Z' }) }),
+      subagent('takt-eval-engineer', 'waiting-on-tool', { '/repo/src/models.py': touch({ writes: 1, lastEditedAt: '2026-02-12T10:05:00Z' }) }),
+      subagent('takt-ml-scientist', 'finished', { '/repo/src/train.py': touch({ edits: 3 }) }),
+    ]), PROJECT)
+
+    expect(files[0]).toMatchObject({ path: 'src/models.py', conflict: true })
+    expect(editConflictEvents(files)).toEqual([{
+      timestamp: '2026-02-12T10:05:00Z',
+      agentId: null,
+      sessionId: null,
+      type: 'file-conflict',
+      summary: expect.stringContaining('src/models.py'),
+    }])
+  })
+
+  it('does not flag edits by working agents far apart in time', () => {
+    const files = collectFileActivity(snapshot([
+      subagent('takt-data-engineer', 'working', { '/repo/src/models.py': touch({ edits: 1, lastEditedAt: '2026-02-12T08:00:00Z' }) }),
+      subagent('takt-eval-engineer', 'working', { '/repo/src/models.py': touch({ edits: 2, lastEditedAt: '2026-02-12T10:00:00Z' }) }),
+    ]), PROJECT)
+
+    expect(files[0].conflict).toBe(false)
+    expect(editConflictEvents(files)).toEqual([])
+  })
+
+  it('ignores edits by agents that are no longer working', () => {
+    const files = collectFileActivity(snapshot([
+      subagent('takt-data-engineer', 'working', { '/repo/src/models.py': touch({ edits: 1 }) }),
+      subagent('takt-eval-engineer', 'idle', { '/repo/src/models.py': touch({ edits: 4 }) }),
+    ]), PROJECT)
+
+    expect(files[0].conflict).toBe(false)
+  })
+})
+
+describe('readFileActivity', () => {
+  it('counts each edit once while the watcher reads the same session files', async () => {
+    resetSessionCursors()
+    const claudeHome = await fs.mkdtemp(path.join(os.tmpdir(), 'file-activity-'))
+    const sessionFile = path.join(claudeHome, 'projects', '-repo', 'main-1.jsonl')
+    await fs.mkdir(path.dirname(sessionFile), { recursive: true })
+    const edit = (id: string) => `${JSON.stringify({
+      timestamp: new Date().toISOString(),
+      message: { role: 'assistant', content: [{ type: 'tool_use', id, name: 'Edit', input: { file_path: '/repo/src/loader.py' } }] },
+    })}\n`
+
+    try {
+      await fs.writeFile(sessionFile, edit('t1'))
+      await readSessionSnapshot(claudeHome, PROJECT)
+      await fs.appendFile(sessionFile, edit('t2'))
+
+      const [, files] = await Promise.all([readSessionSnapshot(claudeHome, PROJECT), readFileActivity(claudeHome, PROJECT)])
+
+      expect(files.map(f => [f.path, f.touches.map(t => t.edits)])).toEqual([['src/loader.py', [2]]])
+    } finally {
+      await fs.rm(claudeHome, { recursive: true, force: true })
+    }
+  })
+})
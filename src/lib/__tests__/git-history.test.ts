@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execFileSync } from 'child_process'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import {
+  applyGitCommits,
+  correlateCommits,
+  parseGitLog,
+  readGitLog,
+  reflogPath,
+  resetGitLogCache,
+  type GitLogEntry,
+} from '../git-history'
+import { MOCK_STATE } from '../mock-data'
+import type { Agent, DashboardState, Ticket } from '@/types'
+
+function agent(id: string, role: string, status: Agent['status'] = 'idle'): Agent {
+  return { ...MOCK_STATE.agents[0], id, role, status, spawn: null }
+}
+
+function ticket(id: string, agentId: string | null): Ticket {
+  return { ...MOCK_STATE.tickets[0], id, agentId, commits: [] }
+}
+
+function entry(sha: string, timestamp: string, message: string, author = 'Alice', trailers: GitLogEntry['trailers'] = {}): GitLogEntry {
+  return { sha, timestamp, author, email: `${author.toLowerCase()}@example.com`, subject: message.split('\n')[0], trailers, message }
+}
+
+const STATE: DashboardState = {
+  ...MOCK_STATE,
+  agents: [
+    agent('lead', 'Orchestrator'),
+    agent('takt-data-engineer', 'Data Engineer'),
+    agent('takt-eval-engineer', 'Eval Engineer'),
+  ],
+  tickets: [ticket('M2-T01', 'takt-data-engineer'), ticket('T01', 'takt-eval-engineer')],
+  activity: [
+    { timestamp: '2026-02-12T09:00:00Z', agentId: 'lead', sessionId: null, type: 'agent-spawned', summary: 'lead' },
+    { timestamp: '2026-02-12T12:00:00Z', agentId: 'lead', sessionId: null, type: 'agent-idle', summary: 'lead' },
+    { timestamp: '2026-02-12T10:00:00Z', agentId: 'takt-data-engineer', sessionId: null, type: 'agent-spawned', summary: 'data' },
+    { timestamp: '2026-02-12T10:30:00Z', agentId: 'takt-data-engineer', sessionId: null, type: 'agent-idle', summary: 'data' },
+  ],
+  messages: [],
+}
+
+describe('parseGitLog', () => {
+  it('splits records and reads subject and trailers', () => {
+    const raw = [
+      ['abc123', '2026-02-12T10:15:00+00:00', 'Alice', 'alice@example.com', 'M2-T01: Wire loaders\n\nDetails.\n\nAgent: takt-data-engineer\n'],
+      ['def456', '2026-02-12T09:00:00+00:00', 'Bob', 'bob@example.com', 'Initial commit\n'],
+    ].map(fields => `${fields.join('\x1f')}\x1e\n`).join('')
+
+    expect(parseGitLog(raw)).toEqual([
+      {
+        sha: 'abc123',
+        timestamp: '2026-02-12T10:15:00.000Z',
+        author: 'Alice',
+        email: 'alice@example.com',
+        subject: 'M2-T01: Wire loaders',
+        trailers: { agent: ['takt-data-engineer'] },
+        message: 'M2-T01: Wire loaders\n\nDetails.\n\nAgent: takt-data-engineer\n',
+      },
+      expect.objectContaining({ sha: 'def456', subject: 'Initial commit', trailers: {} }),
+    ])
+  })
+})
+
+describe('correlateCommits', () => {
+  it('matches ticket ids as whole words', () => {
+    const [commit] = correlateCommits([entry('a', '2026-02-12T08:00:00Z', 'Fix M2-T01 loader')], STATE)
+    expect(commit.ticketIds).toEqual(['M2-T01'])
+  })
+
+  it('attributes commits by trailer, then author, then session window', () => {
+    const commits = correlateCommits([
+      entry('a', '2026-02-12T08:00:00Z', 'Tune eval', 'Alice', { 'co-authored-by': ['Eval Engineer <bot@example.com>'] }),
+      entry('b', '2026-02-12T08:00:00Z', 'Tune eval', 'takt-eval-engineer'),
+      entry('c', '2026-02-12T10:15:00Z', 'Wire loaders'),
+      entry('d', '2026-02-12T11:00:00Z', 'Docs'),
+      entry('e', '2026-02-12T08:00:00Z', 'Before anyone started'),
+    ], STATE)
+
+    expect(commits.map(c => [c.sha, c.agentId, c.agentMatch])).toEqual([
+      ['a', 'takt-eval-engineer', 'trailer'],
+      ['b', 'takt-eval-engineer', 'author'],
+      // Inside both the lead's and the data engineer's window: the shorter one wins
+      ['c', 'takt-data-engineer', 'session'],
+      ['d', 'lead', 'session'],
+      ['e', null, null],
+    ])
+  })
+
+  it('prefers the ticket assignee among overlapping sessions', () => {
+    const [commit] = correlateCommits([entry('a', '2026-02-12T10:15:00Z', 'T01: eval config')], STATE, [
+      { agentId: 'takt-data-engineer', start: Date.parse('2026-02-12T10:00:00Z'), end: Date.parse('2026-02-12T10:30:00Z') },
+      { agentId: 'takt-eval-engineer', start: Date.parse('2026-02-12T09:00:00Z'), end: Date.parse('2026-02-12T11:00:00Z') },
+    ])
+    expect(commit).toMatchObject({ ticketIds: ['T01'], agentId: 'takt-eval-engineer', agentMatch: 'session' })
+  })
+})
+
+describe('applyGitCommits', () => {
+  it('attaches commits to tickets and adds commit events in time order', () => {
+    const commits = correlateCommits([entry('abcdef123', '2026-02-12T10:15:00Z', 'M2-T01: Wire loaders')], STATE)
+    const state = applyGitCommits(STATE, commits)
+
+    expect(state.tickets[0].commits.map(c => c.sha)).toEqual(['abcdef123'])
+    expect(state.tickets[1].commits).toEqual([])
+    expect(state.activity.map(e => e.timestamp)).toEqual([...state.activity.map(e => e.timestamp)].sort())
+    expect(state.activity.find(e => e.type === 'commit')).toEqual({
+      timestamp: '2026-02-12T10:15:00Z',
+      agentId: 'takt-data-engineer',
+      sessionId: null,
+      type: 'commit',
+      summary: '[takt-data-engineer] Committed abcdef1: M2-T01: Wire loaders (M2-T01)',
+    })
+  })
+})
+
+describe('readGitLog', () => {
+  let repoDir: string
+
+  beforeEach(async () => {
+    resetGitLogCache()
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-history-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true })
+  })
+
+  it('reads the repository log, newest first, and is empty outside a repository', async () => {
+    expect(await readGitLog(repoDir)).toEqual([])
+
+    const git = (...args: string[]) => execFileSync('git', args, {
+      cwd: repoDir,
+      env: { ...process.env, GIT_AUTHOR_NAME: 'takt-data-engineer', GIT_AUTHOR_EMAIL: 'a@example.com', GIT_COMMITTER_NAME: 'x', GIT_COMMITTER_EMAIL: 'x@example.com' },
+    })
+    git('init', '-q')
+    git('commit', '-q', '--allow-empty', '-m', 'First')
+    git('commit', '-q', '--allow-empty', '-m', 'M2-T01: Second\n\nAgent: lead')
+
+    const log = await readGitLog(repoDir)
+    expect(log.map(e => [e.subject, e.author, e.trailers])).toEqual([
+      ['M2-T01: Second', 'takt-data-engineer', { agent: ['lead'] }],
+      ['First', 'takt-data-engineer', {}],
+    ])
+  })
+
+  it('follows a .git file to the worktree\'s own git directory', async () => {
+    const git = (cwd: string, ...args: string[]) => execFileSync('git', args, {
+      cwd,
+      env: { ...process.env, GIT_AUTHOR_NAME: 'lead', GIT_AUTHOR_EMAIL: 'a@example.com', GIT_COMMITTER_NAME: 'x', GIT_COMMITTER_EMAIL: 'x@example.com' },
+    })
+    const mainDir = path.join(repoDir, 'main')
+    const worktreeDir = path.join(repoDir, 'feature')
+    await fs.mkdir(mainDir)
+    git(mainDir, 'init', '-q')
+    git(mainDir, 'commit', '-q', '--allow-empty', '-m', 'First')
+    git(mainDir, 'worktree', 'add', '-q', '-b', 'feature', worktreeDir)
+
+    const reflog = reflogPath(worktreeDir)
+    expect(reflog).toBe(path.join(await fs.realpath(mainDir), '.git', 'worktrees', 'feature', 'logs', 'HEAD'))
+    expect((await fs.stat(reflog as string)).isFile()).toBe(true)
+
+    expect((await readGitLog(worktreeDir)).map(e => e.subject)).toEqual(['First'])
+    git(worktreeDir, 'commit', '-q', '--allow-empty', '-m', 'T02: On the branch')
+    expect((await readGitLog(worktreeDir)).map(e => e.subject)).toEqual(['T02: On the branch', 'First'])
+  })
+})
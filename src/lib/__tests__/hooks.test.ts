@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { HookStore, projectForHook } from '../hooks'
+import { MOCK_STATE } from '../mock-data'
+import { HOOK_STATUS_TTL_MS } from '../constants'
+
+const LEAD_SESSION = MOCK_STATE.agents.find(a => a.id === 'lead')?.sessionId ?? ''
+
+function leadOf(store: HookStore, now: number) {
+  return store.applyTo(MOCK_STATE, now).agents.find(a => a.id === 'lead')
+}
+
+describe('HookStore', () => {
+  it('marks the session blocked on the tool named by a permission notification', () => {
+    const store = new HookStore()
+    const now = Date.parse('2026-02-12T18:00:00Z')
+    store.ingest({
+      hook_event_name: 'PreToolUse',
+      session_id: LEAD_SESSION,
+      tool_name: 'Bash',
+      tool_input: { command: 'npm test' },
+    }, now)
+    expect(leadOf(store, now)?.status).toBe('waiting-on-tool')
+
+    store.ingest({
+      hook_event_name: 'Notification',
+      session_id: LEAD_SESSION,
+      message: 'Claude needs your permission to use Bash',
+    }, now + 1000)
+
+    const state = store.applyTo(MOCK_STATE, now + 1000)
+    expect(state.agents.find(a => a.id === 'lead')).toMatchObject({
+      status: 'blocked-on-user',
+      blockedOn: 'approve Bash: npm test',
+    })
+    expect(state.activity.at(-1)).toMatchObject({
+      agentId: 'lead',
+      type: 'system',
+      summary: '[lead] Claude Code: Claude needs your permission to use Bash',
+    })
+  })
+
+  it('falls back to the file-derived status once the hook is stale', () => {
+    const store = new HookStore()
+    const now = Date.parse('2026-02-12T18:00:00Z')
+    store.ingest({ hook_event_name: 'Stop', session_id: LEAD_SESSION }, now)
+
+    expect(leadOf(store, now)?.status).toBe('completed')
+    expect(leadOf(store, now + HOOK_STATUS_TTL_MS + 1)?.status).toBe(
+      MOCK_STATE.agents.find(a => a.id === 'lead')?.status,
+    )
+  })
+
+  it('merges hook events into the oldest-first activity log by time', () => {
+    const store = new HookStore()
+    store.ingest({ hook_event_name: 'Stop', session_id: LEAD_SESSION }, Date.parse('2026-02-12T17:26:00Z'))
+    store.ingest({ hook_event_name: 'Stop', session_id: LEAD_SESSION }, Date.parse('2026-02-12T18:00:00Z'))
+
+    const timestamps = store.applyTo(MOCK_STATE, Date.parse('2026-02-12T18:00:00Z')).activity.map(e => e.timestamp)
+
+    expect(timestamps).toHaveLength(MOCK_STATE.activity.length + 2)
+    expect(timestamps).toEqual([...timestamps].sort())
+    expect(timestamps.at(-1)).toBe('2026-02-12T18:00:00.000Z')
+  })
+
+  it('forgets a pending tool call once it is older than the override window', () => {
+    const store = new HookStore()
+    const now = Date.parse('2026-02-12T18:00:00Z')
+    store.ingest({
+      hook_event_name: 'PreToolUse',
+      session_id: LEAD_SESSION,
+      tool_name: 'Bash',
+      tool_input: { command: 'npm test' },
+    }, now)
+    store.ingest({
+      hook_event_name: 'Notification',
+      session_id: LEAD_SESSION,
+      message: 'Claude needs your permission to use Bash',
+    }, now + HOOK_STATUS_TTL_MS + 1)
+
+    expect(leadOf(store, now + HOOK_STATUS_TTL_MS + 1)?.blockedOn).toBe('Claude needs your permission to use Bash')
+  })
+})
+
+describe('projectForHook', () => {
+  it('routes hooks to the innermost project containing their cwd', () => {
+    const projects = [
+      { id: 'mono', dir: '/work/mono' },
+      { id: 'api', dir: '/work/mono/services/api' },
+      { id: 'web', dir: '/work/web' },
+    ]
+    const hook = (cwd?: string) => ({ hook_event_name: 'Stop' as const, session_id: 's1', cwd })
+
+    expect(projectForHook(hook('/work/mono/services/api/src'), projects)?.id).toBe('api')
+    expect(projectForHook(hook('/work/mono/docs'), projects)?.id).toBe('mono')
+    expect(projectForHook(hook('/work/website'), projects)).toBeNull()
+    expect(projectForHook(hook(), projects)).toBeNull()
+    expect(projectForHook(hook(), projects.slice(2))?.id).toBe('web')
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { findProject, getProjects } from '../config'
+import { summarizeProject } from '../projects'
+import { MOCK_STATE } from '../mock-data'
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('getProjects', () => {
+  it('falls back to the single TAKT_PROJECT_DIR project', () => {
+    vi.stubEnv('DASHBOARD_PROJECTS', '')
+    vi.stubEnv('TAKT_PROJECT_DIR', '/work/Phonetic Model')
+
+    expect(getProjects()).toEqual([{ id: 'phonetic-model', dir: '/work/Phonetic Model' }])
+  })
+
+  it('reads DASHBOARD_PROJECTS with optional ids and dedupes directory names', () => {
+    vi.stubEnv('DASHBOARD_PROJECTS', 'coach=/work/pronunciation-coach, /work/api , /other/api')
+
+    expect(getProjects()).toEqual([
+      { id: 'coach', dir: '/work/pronunciation-coach' },
+      { id: 'api', dir: '/work/api' },
+      { id: 'api-2', dir: '/other/api' },
+    ])
+    expect(findProject(null)?.id).toBe('coach')
+    expect(findProject('api-2')?.dir).toBe('/other/api')
+    expect(findProject('missing')).toBeNull()
+  })
+
+  it('normalizes explicit ids like directory names', () => {
+    vi.stubEnv('DASHBOARD_PROJECTS', 'My Coach/../x=/work/coach, ?=/work/api')
+
+    expect(getProjects().map(p => p.id)).toEqual(['my-coach-x', 'project'])
+  })
+})
+
+describe('summarizeProject', () => {
+  it('reports phase, milestone progress and working agents', () => {
+    const overview = summarizeProject({ id: 'coach', dir: '/work/pronunciation-coach' }, MOCK_STATE)
+
+    expect(overview).toMatchObject({
+      id: 'coach',
+      dir: '/work/pronunciation-coach',
+      name: MOCK_STATE.project.name,
+      phase: MOCK_STATE.project.phase,
+      currentMilestone: MOCK_STATE.project.currentMilestone,
+      ticketsSummary: MOCK_STATE.project.ticketsSummary,
+      workingAgents: MOCK_STATE.agents.filter(a => a.status === 'working').length,
+      totalAgents: MOCK_STATE.agents.length,
+      error: null,
+    })
+  })
+})
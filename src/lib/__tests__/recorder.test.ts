@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { RunRecorder, applyFrame, diffList, parseRecording } from '../recorder'
+import { MOCK_STATE } from '../mock-data'
+import { RECORDING_KEYFRAME_INTERVAL } from '../constants'
+import type { ActivityEvent, DashboardState } from '@/types'
+
+let tmpDir: string
+let filePath: string
+
+function event(minute: number): ActivityEvent {
+  return {
+    timestamp: `2026-02-12T10:${String(minute).padStart(2, '0')}:00Z`,
+    agentId: null,
+    sessionId: null,
+    type: 'system',
+    summary: `event ${minute}`,
+  }
+}
+
+function stateWith(minutes: readonly number[], phase = '1'): DashboardState {
+  return { ...MOCK_STATE, activity: minutes.map(event), project: { ...MOCK_STATE.project, phase } }
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recorder-'))
+  filePath = path.join(tmpDir, 'runs', 'run.jsonl')
+})
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true })
+})
+
+describe('diffList', () => {
+  it('drops from the front and appends to the back', () => {
+    expect(diffList([1, 2, 3], [2, 3, 4, 5])).toEqual({ drop: 1, items: [4, 5] })
+    expect(diffList([1, 2], [1, 2])).toEqual({ drop: 0, items: [] })
+  })
+
+  it('replaces the list when the new one does not continue the old', () => {
+    expect(diffList([1, 2, 3], [2, 1])).toEqual({ drop: 3, items: [2, 1] })
+  })
+})
+
+describe('RunRecorder', () => {
+  it('writes a keyframe, then only what changed, and replays to the same states', async () => {
+    const recorder = new RunRecorder(filePath)
+    const states = [stateWith([0, 1]), stateWith([0, 1]), stateWith([1, 2, 3]), stateWith([1, 2, 3], '2')]
+    for (const [i, state] of states.entries()) {
+      await recorder.record(state, new Date(Date.UTC(2026, 1, 12, 10, i)))
+    }
+
+    const frames = parseRecording(await fs.readFile(filePath, 'utf-8'))
+
+    // The unchanged second state is not written
+    expect(frames).toHaveLength(3)
+    expect(frames[0].state).toEqual(states[0])
+    expect(frames[1]).toEqual({ t: '2026-02-12T10:02:00.000Z', appended: { activity: { drop: 1, items: [event(2), event(3)] } } })
+    expect(frames[2].patch).toEqual({ project: states[3].project })
+
+    let replayed: DashboardState | null = null
+    const rebuilt = frames.map(frame => (replayed = applyFrame(replayed, frame)))
+    expect(rebuilt).toEqual([states[0], states[2], states[3]])
+  })
+
+  it('writes a fresh keyframe at the keyframe interval', async () => {
+    const recorder = new RunRecorder(filePath)
+    for (let i = 0; i <= RECORDING_KEYFRAME_INTERVAL; i++) {
+      await recorder.record(stateWith([i]))
+    }
+
+    const frames = parseRecording(await fs.readFile(filePath, 'utf-8'))
+
+    expect(frames.filter(frame => frame.state).length).toBe(2)
+    expect(frames[RECORDING_KEYFRAME_INTERVAL].state).toEqual(stateWith([RECORDING_KEYFRAME_INTERVAL]))
+  })
+
+  it('skips malformed and half-written lines when parsing', () => {
+    const raw = `${JSON.stringify({ t: '2026-02-12T10:00:00Z', state: MOCK_STATE })}\nnot json\n{"t": "2026-02-12T10:01:00Z"}\n{"t": "2026`
+    expect(parseRecording(raw)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { listSessionHistory, readHistoryState, resetSessionHistoryCache } from '../session-history'
+import { resetSessionCursors } from '../session-tail'
+
+const PROJECT_DIR = '/repo/app'
+
+let claudeHome: string
+let sessionsDir: string
+
+function lines(...records: unknown[]): string {
+  return records.map(r => `${JSON.stringify(r)}\n`).join('')
+}
+
+function reply(timestamp: string, id: string, output: number) {
+  return {
+    timestamp,
+    message: { id, role: 'assistant', content: [], usage: { input_tokens: 100, output_tokens: output } },
+  }
+}
+
+beforeEach(async () => {
+  resetSessionCursors()
+  resetSessionHistoryCache()
+  claudeHome = await fs.mkdtemp(path.join(os.tmpdir(), 'session-history-'))
+  sessionsDir = path.join(claudeHome, 'projects', '-repo-app')
+  await fs.mkdir(path.join(sessionsDir, 'run-1', 'subagents'), { recursive: true })
+})
+
+afterEach(async () => {
+  await fs.rm(claudeHome, { recursive: true, force: true })
+})
+
+describe('listSessionHistory', () => {
+  it('summarizes each main session with its subagents, newest first', async () => {
+    await fs.writeFile(path.join(sessionsDir, 'run-1.jsonl'), lines(
+      { timestamp: '2026-02-10T09:00:00Z', isMeta: true, message: { role: 'user', content: 'Caveat: local command output' } },
+      { timestamp: '2026-02-10T09:00:01Z', message: { role: 'user', content: 'Build the   data\npipeline' } },
+      reply('2026-02-10T09:30:00Z', 'm1', 50),
+    ))
+    await fs.writeFile(path.join(sessionsDir, 'run-1', 'subagents', 'agent-a1.jsonl'), lines(
+      { timestamp: '2026-02-10T09:05:00Z', agentId: 'a1', message: { role: 'user', content: 'You are takt-qa.' } },
+      reply('2026-02-10T10:00:00Z', 's1', 25),
+    ))
+    await fs.writeFile(path.join(sessionsDir, 'run-2.jsonl'), lines(
+      { timestamp: '2026-02-11T08:00:00Z', message: { role: 'user', content: 'Fix the tests' } },
+    ))
+
+    const sessions = await listSessionHistory(claudeHome, PROJECT_DIR)
+
+    expect(sessions.map(s => s.sessionId)).toEqual(['run-2', 'run-1'])
+    expect(sessions[1]).toEqual({
+      sessionId: 'run-1',
+      startedAt: '2026-02-10T09:00:00Z',
+      endedAt: '2026-02-10T10:00:00Z',
+      durationMs: 60 * 60 * 1000,
+      subagentCount: 1,
+      tokens: 275,
+      firstPrompt: 'Build the data pipeline',
+    })
+  })
+
+  it('only re-reads session files whose size or mtime changed', async () => {
+    const mainFile = path.join(sessionsDir, 'run-2.jsonl')
+    const written = new Date('2026-02-11T08:00:00Z')
+    const prompt = (content: string) => lines({ timestamp: '2026-02-11T08:00:00Z', message: { role: 'user', content } })
+    await fs.writeFile(mainFile, prompt('Fix the tests'))
+    await fs.utimes(mainFile, written, written)
+    expect((await listSessionHistory(claudeHome, PROJECT_DIR))[0].firstPrompt).toBe('Fix the tests')
+
+    // Same size and mtime: the cached summary is served without parsing the file
+    await fs.writeFile(mainFile, prompt('Fix the specs'))
+    await fs.utimes(mainFile, written, written)
+    expect((await listSessionHistory(claudeHome, PROJECT_DIR))[0].firstPrompt).toBe('Fix the tests')
+
+    await fs.appendFile(mainFile, lines(reply('2026-02-11T08:10:00Z', 'm2', 10)))
+    expect((await listSessionHistory(claudeHome, PROJECT_DIR))[0]).toMatchObject({
+      firstPrompt: 'Fix the specs',
+      endedAt: '2026-02-11T08:10:00Z',
+    })
+  })
+})
+
+describe('readHistoryState', () => {
+  it('shows a past run with all of its subagents and the run\'s own token usage', async () => {
+    const mainFile = path.join(sessionsDir, 'run-1.jsonl')
+    const subagentFile = path.join(sessionsDir, 'run-1', 'subagents', 'agent-a1.jsonl')
+    await fs.writeFile(mainFile, lines(
+      { timestamp: '2026-02-10T09:00:01Z', message: { role: 'user', content: 'Build the data pipeline' } },
+      reply('2026-02-10T09:30:00Z', 'm1', 50),
+    ))
+    await fs.writeFile(subagentFile, lines(
+      { timestamp: '2026-02-10T09:05:00Z', agentId: 'a1', message: { role: 'user', content: 'You are **takt-qa**, a testing agent.' } },
+      reply('2026-02-10T10:00:00Z', 's1', 25),
+    ))
+    // Both files were last written days ago, well past the live view's subagent cutoff
+    const endedAt = new Date('2026-02-10T10:00:00Z')
+    await fs.utimes(mainFile, endedAt, endedAt)
+    await fs.utimes(subagentFile, endedAt, endedAt)
+
+    const state = await readHistoryState(claudeHome, PROJECT_DIR, 'run-1')
+
+    expect(state?.project).toMatchObject({
+      phase: 'history',
+      status: 'finished',
+      lastUpdatedAt: endedAt.toISOString(),
+    })
+    // Statuses are as of the run's last write, not now
+    expect(state?.agents.map(a => [a.id, a.status])).toEqual([['lead', 'working'], ['takt-qa', 'working']])
+    expect(state?.resources.weekly.used).toBe(150 + 125)
+    expect(state?.resources.breakdown.map(b => [b.agentId, b.weekly])).toEqual([['lead', 150], ['takt-qa', 125]])
+  })
+
+  it('returns null for unknown or malformed session ids', async () => {
+    expect(await readHistoryState(claudeHome, PROJECT_DIR, 'run-9')).toBeNull()
+    expect(await readHistoryState(claudeHome, PROJECT_DIR, '../run-1')).toBeNull()
+  })
+})
@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import {
+  contextWindowFromUsage,
+  contextWindowSize,
+  deriveActivity,
+  getProjectSessionDir,
+  parentAgentIdFor,
+  readSessionSnapshot,
+  readSessionSnapshotAt,
+  recoverIdentity,
+} from '../session-reader'
+import { resetSessionCursors, type SessionFacts, type TaskSpawn } from '../session-tail'
+import { buildSessionState } from '../adapters/claude-code'
+import { MOCK_STATE } from '../mock-data'
+
+const SUMMARY = 'This session is being continued from a previous conversation that ran out of context.'
+
+function compactFacts(overrides: Partial<SessionFacts> = {}): SessionFacts {
+  return {
+    agentId: null,
+    agentName: null,
+    sessionId: 'main-1',
+    model: 'claude-sonnet-4-5',
+    role: null,
+    currentTask: null,
+    lastAction: null,
+    messageCount: 3,
+    toolUseCount: 1,
+    usageByDate: {},
+    lastUsage: null,
+    firstTimestamp: null,
+    lastTimestamp: null,
+    spawnPrompt: SUMMARY,
+    compactSummary: SUMMARY,
+    taskSpawns: [],
+    pendingTools: {},
+    fileTouches: {},
+    trailingToolUse: null,
+    turnEnded: false,
+    lastError: null,
+    errorCount: 0,
+    recentErrors: [],
+    ...overrides,
+  }
+}
+
+const ENGINEER = {
+  agentId: 'a1d8cc3',
+  agentName: 'takt-data-engineer',
+  role: 'data pipeline',
+  currentTask: 'M4-T02: Wire Dataset Loaders',
+}
+
+describe('recoverIdentity', () => {
+  it('keeps identities that come from the prompt', () => {
+    const facts = compactFacts({ agentId: 'b2', agentName: 'takt-qa', compactSummary: null })
+
+    expect(recoverIdentity(facts, 'agent-b2', [ENGINEER], [])).toMatchObject({ agentId: 'b2', agentName: 'takt-qa' })
+  })
+
+  it('re-links a compacted file to a sibling with the same agentId', () => {
+    const facts = compactFacts({ agentId: 'a1d8cc3' })
+
+    expect(recoverIdentity(facts, 'agent-acompact-9f', [ENGINEER], [])).toEqual(ENGINEER)
+  })
+
+  it('uses the parent session Task call for the same agentId', () => {
+    const spawn: TaskSpawn = {
+      toolUseId: 'toolu_1',
+      timestamp: null,
+      turnId: null,
+      subagentType: 'general-purpose',
+      description: null,
+      prompt: 'You are takt-eval-engineer, an evaluation agent.',
+      agentName: 'takt-eval-engineer',
+      task: 'M5-T01: Eval Harness',
+      agentId: 'c3',
+      result: 'Harness ready',
+      completedAt: null,
+    }
+
+    expect(recoverIdentity(compactFacts({ agentId: 'c3' }), 'agent-acompact-1', [], [spawn])).toMatchObject({
+      agentId: 'c3',
+      agentName: 'takt-eval-engineer',
+      currentTask: 'M5-T01: Eval Harness',
+    })
+  })
+
+  it('falls back to agent names mentioned in the compact summary', () => {
+    const facts = compactFacts({
+      agentId: 'acompact-1',
+      compactSummary: `${SUMMARY}\nThe takt-data-engineer agent was wiring the loaders.`,
+    })
+
+    expect(recoverIdentity(facts, 'agent-acompact-1', [ENGINEER], [])).toEqual(ENGINEER)
+  })
+
+  it('leaves unidentifiable files unnamed', () => {
+    expect(recoverIdentity(compactFacts(), 'agent-acompact-2', [ENGINEER], [])).toMatchObject({
+      agentId: 'agent-acompact-2',
+      agentName: null,
+    })
+  })
+})
+
+describe('deriveActivity', () => {
+  const minutesAgo = (m: number) => new Date(Date.now() - m * 60_000)
+
+  it('keeps an agent on a long tool call waiting instead of done', () => {
+    const facts = compactFacts({ pendingTools: { toolu_1: 'Bash' } })
+
+    expect(deriveActivity(facts, minutesAgo(4), { subagent: true })).toBe('waiting-on-tool')
+  })
+
+  it('flags a permission-gated call with nothing written after it as blocked on the user', () => {
+    const facts = compactFacts({ pendingTools: { toolu_1: 'Edit' }, trailingToolUse: 'Edit' })
+
+    expect(deriveActivity(facts, new Date(Date.now() - 5_000), { subagent: true })).toBe('waiting-on-tool')
+    expect(deriveActivity(facts, minutesAgo(1), { subagent: true })).toBe('blocked-on-user')
+  })
+
+  it('keeps a silent Bash call running until it outlasts the Bash timeout', () => {
+    const facts = compactFacts({ pendingTools: { toolu_1: 'Bash' }, trailingToolUse: 'Bash' })
+
+    expect(deriveActivity(facts, minutesAgo(1), { subagent: true })).toBe('waiting-on-tool')
+    expect(deriveActivity(facts, minutesAgo(9), { subagent: true })).toBe('waiting-on-tool')
+    expect(deriveActivity(facts, minutesAgo(11), { subagent: true })).toBe('blocked-on-user')
+  })
+
+  it('flags questions to the user as blocked right away', () => {
+    const facts = compactFacts({ pendingTools: { toolu_2: 'AskUserQuestion' }, trailingToolUse: 'AskUserQuestion' })
+
+    expect(deriveActivity(facts, minutesAgo(0))).toBe('blocked-on-user')
+  })
+
+  it('marks a subagent finished as soon as its turn ends', () => {
+    expect(deriveActivity(compactFacts({ turnEnded: true }), minutesAgo(0), { subagent: true })).toBe('finished')
+  })
+
+  it('never shows a lead that ended its turn as working', () => {
+    expect(deriveActivity(compactFacts({ turnEnded: true }), minutesAgo(0))).toBe('completed')
+  })
+
+  it('prefers a returned Task result and reports errors', () => {
+    expect(deriveActivity(compactFacts(), minutesAgo(0), { subagent: true, returned: true })).toBe('finished')
+    expect(deriveActivity(compactFacts({ lastError: 'overloaded' }), minutesAgo(1))).toBe('errored')
+  })
+
+  it('falls back to modification time', () => {
+    expect(deriveActivity(null, minutesAgo(1))).toBe('working')
+    expect(deriveActivity(null, minutesAgo(3))).toBe('completed')
+    expect(deriveActivity(null, minutesAgo(10))).toBe('idle')
+  })
+})
+
+describe('nested subagents', () => {
+  function lines(...records: unknown[]): string {
+    return records.map(r => `${JSON.stringify(r)}\n`).join('')
+  }
+
+  function taskCall(id: string, name: string) {
+    return {
+      timestamp: '2026-02-12T10:00:00Z',
+      message: {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id, name: 'Task', input: { description: `Run ${name}`, prompt: `You are **${name}**, a helper agent.` } }],
+      },
+    }
+  }
+
+  it('links helpers spawned by a subagent to that subagent, and the rest to the lead', async () => {
+    resetSessionCursors()
+    const claudeHome = await fs.mkdtemp(path.join(os.tmpdir(), 'session-reader-'))
+    const sessionsDir = path.join(claudeHome, 'projects', '-repo')
+    const subagentsDir = path.join(sessionsDir, 'main-1', 'subagents')
+    await fs.mkdir(subagentsDir, { recursive: true })
+
+    try {
+      await fs.writeFile(path.join(sessionsDir, 'main-1.jsonl'), lines(taskCall('toolu_1', 'takt-planner')))
+      await fs.writeFile(path.join(subagentsDir, 'agent-p1.jsonl'), lines(
+        { agentId: 'p1', message: { role: 'user', content: 'You are **takt-planner**, a helper agent.' } },
+        taskCall('toolu_2', 'takt-helper'),
+      ))
+      await fs.writeFile(path.join(subagentsDir, 'agent-h1.jsonl'), lines(
+        { agentId: 'h1', message: { role: 'user', content: 'You are **takt-helper**, a helper agent.' } },
+      ))
+
+      const snapshot = await readSessionSnapshotAt(claudeHome, '/repo', 'main-1')
+      const byName = new Map(snapshot?.subagents.map(s => [s.agentName, s]))
+
+      expect(byName.get('takt-planner')?.parentAgentId).toBeNull()
+      expect(byName.get('takt-helper')?.parentAgentId).toBe('p1')
+      expect(parentAgentIdFor(snapshot!, byName.get('takt-planner')!)).toBe('lead')
+      expect(parentAgentIdFor(snapshot!, byName.get('takt-helper')!)).toBe('takt-planner')
+    } finally {
+      await fs.rm(claudeHome, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('context windows', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('sizes the window from the model, not from how much of it is used', () => {
+    const usage = { input: 10, output: 500, cacheCreation: 2_000, cacheRead: 248_000 }
+
+    expect(contextWindowFromUsage(usage, contextWindowSize('claude-sonnet-4-5'))).toEqual({ used: 250_010, total: 200_000, percentage: 125 })
+    expect(contextWindowFromUsage(usage, contextWindowSize('claude-sonnet-4-5[1m]'))).toEqual({ used: 250_010, total: 1_000_000, percentage: 25 })
+    expect(contextWindowSize('claude-sonnet-4-5', 'sonnet[1m]')).toBe(1_000_000)
+    expect(contextWindowSize('claude-haiku-4-5', 'sonnet[1m]')).toBe(200_000)
+    expect(contextWindowSize('claude-sonnet-4-5', 'sonnet')).toBe(200_000)
+  })
+
+  it('gives the lead and each subagent the gauge of its own model', async () => {
+    vi.stubEnv('ANTHROPIC_MODEL', '')
+    resetSessionCursors()
+    const claudeHome = await fs.mkdtemp(path.join(os.tmpdir(), 'session-reader-'))
+    const projectDir = path.join(claudeHome, 'repo')
+    const sessionsDir = getProjectSessionDir(claudeHome, projectDir)
+    const subagentsDir = path.join(sessionsDir, 'main-1', 'subagents')
+    await fs.mkdir(subagentsDir, { recursive: true })
+    await fs.mkdir(path.join(projectDir, '.claude'), { recursive: true })
+
+    const turn = (model: string, cacheRead: number) => JSON.stringify({
+      timestamp: '2026-02-12T10:00:00Z',
+      message: {
+        id: `msg-${model}`,
+        role: 'assistant',
+        model,
+        content: [{ type: 'text', text: 'working on it' }],
+        usage: { input_tokens: 0, output_tokens: 10, cache_creation_input_tokens: 0, cache_read_input_tokens: cacheRead },
+      },
+    }) + '\n'
+
+    try {
+      await fs.writeFile(path.join(projectDir, '.claude', 'settings.json'), JSON.stringify({ model: 'sonnet[1m]' }))
+      await fs.writeFile(path.join(sessionsDir, 'main-1.jsonl'), turn('claude-sonnet-4-5', 100_000))
+      await fs.writeFile(path.join(subagentsDir, 'agent-h1.jsonl'), JSON.stringify({
+        agentId: 'h1',
+        message: { role: 'user', content: 'You are **takt-helper**, a helper agent.' },
+      }) + '\n' + turn('claude-haiku-4-5', 150_000))
+
+      const snapshot = await readSessionSnapshotAt(claudeHome, projectDir, 'main-1')
+      const state = buildSessionState(snapshot!, MOCK_STATE.resources, projectDir)
+
+      expect(state.agents.find(a => a.id === 'lead')?.contextWindow).toEqual({ used: 100_000, total: 1_000_000, percentage: 10 })
+      expect(state.agents.find(a => a.id !== 'lead')?.contextWindow).toEqual({ used: 150_000, total: 200_000, percentage: 75 })
+    } finally {
+      await fs.rm(claudeHome, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('concurrent main sessions', () => {
+  const PROJECT = '/repo'
+
+  async function writeSession(sessionsDir: string, file: string, minutesAgo: number, content: string, startedMinutesAgo = minutesAgo) {
+    const filePath = path.join(sessionsDir, file)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const timestamp = new Date(Date.now() - startedMinutesAgo * 60_000).toISOString()
+    await fs.writeFile(filePath, `${JSON.stringify({ timestamp, message: { role: 'user', content } })}\n`)
+    await touch(filePath, minutesAgo)
+  }
+
+  async function touch(filePath: string, minutesAgo: number) {
+    const mtime = new Date(Date.now() - minutesAgo * 60_000)
+    await fs.utimes(filePath, mtime, mtime)
+  }
+
+  it('gives every main session written in the last 30 minutes its own lead', async () => {
+    resetSessionCursors()
+    const claudeHome = await fs.mkdtemp(path.join(os.tmpdir(), 'session-reader-'))
+    const sessionsDir = getProjectSessionDir(claudeHome, PROJECT)
+
+    try {
+      await writeSession(sessionsDir, 'aaaaaaaa-1111.jsonl', 1, 'Build the loaders', 50)
+      await writeSession(sessionsDir, 'bbbbbbbb-2222.jsonl', 20, 'Fix the tests', 25)
+      await writeSession(sessionsDir, 'cccccccc-3333.jsonl', 45, 'Write the docs', 60)
+      await writeSession(sessionsDir, 'bbbbbbbb-2222/subagents/agent-q1.jsonl', 19, 'You are **takt-qa**, a testing agent.')
+
+      const snapshot = await readSessionSnapshot(claudeHome, PROJECT)
+      expect(snapshot.mainSessions.map(m => m.sessionId)).toEqual(['aaaaaaaa-1111', 'bbbbbbbb-2222'])
+
+      const state = buildSessionState(snapshot, MOCK_STATE.resources, PROJECT)
+      expect(state.agents.map(a => [a.id, a.role, a.parentAgentId])).toEqual([
+        ['lead', 'Main Session', null],
+        ['lead-bbbbbbbb', 'Main Session bbbbbbbb', null],
+        ['takt-qa', 'testing', 'lead-bbbbbbbb'],
+      ])
+    } finally {
+      await fs.rm(claudeHome, { recursive: true, force: true })
+    }
+  })
+
+  it('keeps each lead id when a write moves another session ahead by mtime', async () => {
+    resetSessionCursors()
+    const claudeHome = await fs.mkdtemp(path.join(os.tmpdir(), 'session-reader-'))
+    const sessionsDir = getProjectSessionDir(claudeHome, PROJECT)
+
+    try {
+      await writeSession(sessionsDir, 'aaaaaaaa-1111.jsonl', 1, 'Build the loaders', 50)
+      await writeSession(sessionsDir, 'bbbbbbbb-2222.jsonl', 5, 'Fix the tests', 25)
+      const leadsOf = async () => buildSessionState(await readSessionSnapshot(claudeHome, PROJECT), MOCK_STATE.resources, PROJECT)
+        .agents.map(a => [a.id, a.sessionId, a.role, a.color])
+
+      const before = await leadsOf()
+      await touch(path.join(sessionsDir, 'bbbbbbbb-2222.jsonl'), 0)
+      const after = await leadsOf()
+
+      expect(before.map(([id, sessionId]) => [id, sessionId])).toEqual([
+        ['lead', 'aaaaaaaa-1111'],
+        ['lead-bbbbbbbb', 'bbbbbbbb-2222'],
+      ])
+      expect(after).toEqual(before)
+    } finally {
+      await fs.rm(claudeHome, { recursive: true, force: true })
+    }
+  })
+
+  it('keeps the latest main session as the lead even when it is older than the cutoff', async () => {
+    resetSessionCursors()
+    const claudeHome = await fs.mkdtemp(path.join(os.tmpdir(), 'session-reader-'))
+    const sessionsDir = getProjectSessionDir(claudeHome, PROJECT)
+
+    try {
+      await writeSession(sessionsDir, 'aaaaaaaa-1111.jsonl', 90, 'Build the loaders')
+      await writeSession(sessionsDir, 'bbbbbbbb-2222.jsonl', 120, 'Fix the tests')
+
+      const snapshot = await readSessionSnapshot(claudeHome, PROJECT)
+
+      expect(snapshot.mainSessions.map(m => m.sessionId)).toEqual(['aaaaaaaa-1111'])
+      expect(snapshot.mainSession?.sessionId).toBe('aaaaaaaa-1111')
+    } finally {
+      await fs.rm(claudeHome, { recursive: true, force: true })
+    }
+  })
+})
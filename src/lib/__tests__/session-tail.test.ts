@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { tailSessionFile, resetSessionCursors } from '../session-tail'
+
+let tmpDir: string
+let filePath: string
+
+function line(record: unknown): string {
+  return `${JSON.stringify(record)}\n`
+}
+
+const PROMPT = line({
+  agentId: 'a1d8cc3',
+  sessionId: 'main-1',
+  message: {
+    role: 'user',
+    content: 'You are **takt-data-engineer**, a data pipeline agent.\n## Ticket M4-T02: Wire Dataset Loaders',
+  },
+})
+
+const EDIT = line({
+  agentId: 'a1d8cc3',
+  message: {
+    role: 'assistant',
+    model: 'claude-sonnet-4-5',
+    content: [{ type: 'tool_use', id: 't1', name: 'Edit', input: { file_path: '/repo/src/data/pipeline.py' } }],
+  },
+})
+
+beforeEach(async () => {
+  resetSessionCursors()
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'session-tail-'))
+  filePath = path.join(tmpDir, 'agent-a1d8cc3.jsonl')
+})
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true })
+})
+
+describe('tailSessionFile', () => {
+  it('derives identity, task and last action from the prompt and tool calls', async () => {
+    await fs.writeFile(filePath, PROMPT + EDIT)
+
+    const result = await tailSessionFile(filePath)
+
+    expect(result?.facts).toMatchObject({
+      agentId: 'a1d8cc3',
+      agentName: 'takt-data-engineer',
+      currentTask: 'M4-T02: Wire Dataset Loaders',
+      lastAction: 'Edit data/pipeline.py',
+      model: 'claude-sonnet-4-5',
+      messageCount: 2,
+      toolUseCount: 1,
+    })
+  })
+
+  it('only folds in appended lines and leaves partial lines for later', async () => {
+    await fs.writeFile(filePath, PROMPT)
+    await tailSessionFile(filePath)
+
+    const bash = line({
+      message: { role: 'assistant', content: [{ type: 'tool_use', id: 't2', name: 'Bash', input: { command: 'pytest tests/' } }] },
+    })
+    // Writer is mid-line: the half-written record must not be counted yet
+    await fs.appendFile(filePath, EDIT + bash.slice(0, 20))
+    const partial = await tailSessionFile(filePath)
+    expect(partial?.facts.lastAction).toBe('Edit data/pipeline.py')
+    expect(partial?.facts.messageCount).toBe(2)
+
+    await fs.appendFile(filePath, bash.slice(20))
+    const complete = await tailSessionFile(filePath)
+    expect(complete?.facts.lastAction).toBe('Bash: pytest tests/')
+    expect(complete?.facts.messageCount).toBe(3)
+    // Prompt-derived facts survive incremental updates
+    expect(complete?.facts.agentName).toBe('takt-data-engineer')
+  })
+
+  it('applies appended lines once when tails of the same file overlap', async () => {
+    await fs.writeFile(filePath, PROMPT)
+    await tailSessionFile(filePath)
+    await fs.appendFile(filePath, EDIT)
+
+    const [first, second] = await Promise.all([tailSessionFile(filePath), tailSessionFile(filePath)])
+
+    expect(first?.facts.messageCount).toBe(2)
+    expect(second?.facts.messageCount).toBe(2)
+    expect(second?.facts.toolUseCount).toBe(1)
+    expect(second?.facts.fileTouches['/repo/src/data/pipeline.py']?.edits).toBe(1)
+  })
+
+  it('re-parses from the start when the file is truncated', async () => {
+    await fs.writeFile(filePath, PROMPT + EDIT)
+    await tailSessionFile(filePath)
+
+    await fs.writeFile(filePath, PROMPT)
+    const result = await tailSessionFile(filePath)
+
+    expect(result?.facts.messageCount).toBe(1)
+    expect(result?.facts.lastAction).toBeNull()
+  })
+
+  it('counts usage once per assistant message, keeping the final record', async () => {
+    const usage = (output: number) => ({
+      input_tokens: 10,
+      output_tokens: output,
+      cache_creation_input_tokens: 100,
+      cache_read_input_tokens: 5_000,
+    })
+    const assistant = (id: string, output: number, timestamp: string) => line({
+      timestamp,
+      message: { id, role: 'assistant', content: [{ type: 'text', text: 'working on it' }], usage: usage(output) },
+    })
+
+    await fs.writeFile(
+      filePath,
+      assistant('msg_1', 1, '2026-02-11T23:59:00Z') +
+        assistant('msg_1', 40, '2026-02-11T23:59:01Z') +
+        assistant('msg_2', 60, '2026-02-12T00:01:00Z'),
+    )
+
+    const result = await tailSessionFile(filePath)
+
+    expect(result?.facts.usageByDate).toEqual({
+      '2026-02-11': { input: 10, output: 40, cacheCreation: 100, cacheRead: 5_000 },
+      '2026-02-12': { input: 10, output: 60, cacheCreation: 100, cacheRead: 5_000 },
+    })
+  })
+
+  it('records Task spawns with the agentId and final result from their tool result', async () => {
+    const spawn = line({
+      timestamp: '2026-02-12T10:00:00Z',
+      message: {
+        role: 'assistant',
+        content: [{
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'Task',
+          input: {
+            subagent_type: 'general-purpose',
+            description: 'Wire loaders',
+            prompt: 'You are **takt-data-engineer**, a data pipeline agent.\n## Ticket M4-T02: Wire Dataset Loaders',
+          },
+        }],
+      },
+    })
+    const result = line({
+      timestamp: '2026-02-12T10:20:00Z',
+      toolUseResult: { agentId: 'a1d8cc3' },
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'Loaders wired' }] }],
+      },
+    })
+
+    await fs.writeFile(filePath, spawn + result)
+
+    expect((await tailSessionFile(filePath))?.facts.taskSpawns).toEqual([{
+      toolUseId: 'toolu_1',
+      timestamp: '2026-02-12T10:00:00Z',
+      turnId: null,
+      subagentType: 'general-purpose',
+      description: 'Wire loaders',
+      prompt: 'You are **takt-data-engineer**, a data pipeline agent.\n## Ticket M4-T02: Wire Dataset Loaders',
+      agentName: 'takt-data-engineer',
+      task: 'M4-T02: Wire Dataset Loaders',
+      agentId: 'a1d8cc3',
+      result: 'Loaders wired',
+      completedAt: '2026-02-12T10:20:00Z',
+    }])
+  })
+
+  it('counts reads, edits and writes per file', async () => {
+    const call = (id: string, name: string, file: string) => line({
+      timestamp: `2026-02-12T10:0${id}:00Z`,
+      message: { role: 'assistant', content: [{ type: 'tool_use', id, name, input: { file_path: file } }] },
+    })
+    await fs.writeFile(
+      filePath,
+      call('1', 'Read', '/repo/a.py') + call('2', 'Edit', '/repo/a.py') + call('3', 'Write', '/repo/b.py'),
+    )
+
+    expect((await tailSessionFile(filePath))?.facts.fileTouches).toEqual({
+      '/repo/a.py': { reads: 1, edits: 1, writes: 0, lastTouchedAt: '2026-02-12T10:02:00Z', lastEditedAt: '2026-02-12T10:02:00Z' },
+      '/repo/b.py': { reads: 0, edits: 0, writes: 1, lastTouchedAt: '2026-02-12T10:03:00Z', lastEditedAt: '2026-02-12T10:03:00Z' },
+    })
+  })
+
+  it('tracks unanswered tool calls and the end of the turn', async () => {
+    await fs.writeFile(filePath, PROMPT + EDIT)
+    expect((await tailSessionFile(filePath))?.facts).toMatchObject({
+      pendingTools: { t1: 'Edit' },
+      trailingToolUse: 'Edit',
+      turnEnded: false,
+    })
+
+    await fs.appendFile(
+      filePath,
+      line({ message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }] } }) +
+        line({ message: { role: 'assistant', stop_reason: 'end_turn', content: [{ type: 'text', text: 'Loaders wired.' }] } }),
+    )
+
+    const facts = (await tailSessionFile(filePath))?.facts
+    expect(facts?.pendingTools).toEqual({})
+    expect(facts).toMatchObject({ trailingToolUse: null, turnEnded: true, lastError: null })
+  })
+
+  it('records failed tool calls, API errors and interruptions', async () => {
+    await fs.writeFile(
+      filePath,
+      PROMPT + EDIT +
+        line({
+          timestamp: '2026-02-12T10:01:00Z',
+          message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', is_error: true, content: 'String to replace not found in file.\nString: foo' }] },
+        }) +
+        line({
+          timestamp: '2026-02-12T10:02:00Z',
+          isApiErrorMessage: true,
+          message: { role: 'assistant', content: [{ type: 'text', text: 'API Error: 529 Overloaded' }] },
+        }) +
+        line({ timestamp: '2026-02-12T10:03:00Z', message: { role: 'user', content: '[Request interrupted by user]' } }),
+    )
+
+    const facts = (await tailSessionFile(filePath))?.facts
+    expect(facts?.errorCount).toBe(3)
+    expect(facts?.recentErrors).toEqual([
+      { timestamp: '2026-02-12T10:01:00Z', kind: 'tool', toolName: 'Edit', message: 'String to replace not found in file.' },
+      { timestamp: '2026-02-12T10:02:00Z', kind: 'api', toolName: null, message: 'API Error: 529 Overloaded' },
+      { timestamp: '2026-02-12T10:03:00Z', kind: 'interrupted', toolName: null, message: '[Request interrupted by user]' },
+    ])
+  })
+
+  it('returns null for missing files', async () => {
+    expect(await tailSessionFile(path.join(tmpDir, 'missing.jsonl'))).toBeNull()
+  })
+})
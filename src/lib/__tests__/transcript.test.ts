@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { parseTranscriptTurns, contentText, extractBashCommands } from '../transcript'
+
+function jsonl(...records: unknown[]): string {
+  return records.map(r => JSON.stringify(r)).join('\n')
+}
+
+describe('parseTranscriptTurns', () => {
+  it('orders prompt, text, tool calls and results', () => {
+    const raw = jsonl(
+      { type: 'user', timestamp: '2026-02-12T17:00:00Z', message: { role: 'user', content: 'You are **takt-data-engineer**, a data agent' } },
+      {
+        type: 'assistant',
+        timestamp: '2026-02-12T17:00:05Z',
+        message: {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'hmm' },
+            { type: 'text', text: 'Reading the loader' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: '/p/loader.py' } },
+          ],
+        },
+      },
+      {
+        type: 'user',
+        timestamp: '2026-02-12T17:00:06Z',
+        message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'def load(): ...' }] },
+      },
+    )
+
+    const turns = parseTranscriptTurns(raw)
+
+    expect(turns.map(t => t.kind)).toEqual(['user', 'assistant', 'tool-use', 'tool-result'])
+    expect(turns[2].toolInput).toEqual({ file_path: '/p/loader.py' })
+    expect(turns[3].toolName).toBe('Read')
+    expect(turns[3].text).toBe('def load(): ...')
+  })
+
+  it('marks failed tool results, API errors and interruptions as errors', () => {
+    const raw = jsonl(
+      { type: 'assistant', message: { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'pytest' } }] } },
+      { type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', is_error: true, content: [{ type: 'text', text: 'Exit code 1' }] }] } },
+      { type: 'assistant', isApiErrorMessage: true, message: { role: 'assistant', content: [{ type: 'text', text: 'API Error: 529 Overloaded' }] } },
+      { type: 'user', message: { role: 'user', content: [{ type: 'text', text: '[Request interrupted by user]' }] } },
+    )
+
+    const errors = parseTranscriptTurns(raw).filter(t => t.kind === 'error')
+
+    expect(errors.map(t => t.text)).toEqual(['Exit code 1', 'API Error: 529 Overloaded', '[Request interrupted by user]'])
+    expect(errors[0].toolName).toBe('Bash')
+  })
+
+  it('skips meta messages and malformed lines', () => {
+    const raw = [
+      JSON.stringify({ type: 'user', isMeta: true, message: { role: 'user', content: 'caveat' } }),
+      '{not json',
+      JSON.stringify({ type: 'summary', summary: 'Loader work' }),
+    ].join('\n')
+
+    expect(parseTranscriptTurns(raw)).toEqual([])
+  })
+})
+
+describe('contentText', () => {
+  it('joins text blocks and ignores images', () => {
+    expect(contentText([{ type: 'text', text: 'a' }, { type: 'image' }, { type: 'text', text: 'b' }])).toBe('a\nb')
+    expect(contentText(undefined)).toBe('')
+  })
+})
+
+describe('extractBashCommands', () => {
+  it('pairs each Bash call with its result, duration and exit code', () => {
+    const raw = jsonl(
+      { timestamp: '2026-02-12T17:00:00Z', message: { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'pytest tests/', description: 'Run tests' } }] } },
+      { timestamp: '2026-02-12T17:00:42Z', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', is_error: true, content: 'Exit code 1\n2 failed' }] } },
+      { timestamp: '2026-02-12T17:01:00Z', message: { role: 'assistant', content: [{ type: 'tool_use', id: 't2', name: 'Bash', input: { command: 'ls' } }] } },
+      { timestamp: '2026-02-12T17:01:01Z', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't2', content: 'src' }] } },
+      { timestamp: '2026-02-12T17:02:00Z', message: { role: 'assistant', content: [{ type: 'tool_use', id: 't3', name: 'Bash', input: { command: 'sleep 600' } }] } },
+    )
+
+    const commands = extractBashCommands(parseTranscriptTurns(raw))
+
+    expect(commands).toHaveLength(3)
+    expect(commands[0]).toMatchObject({
+      command: 'pytest tests/',
+      description: 'Run tests',
+      durationMs: 42_000,
+      isError: true,
+      exitCode: 1,
+      output: 'Exit code 1\n2 failed',
+    })
+    expect(commands[1]).toMatchObject({ isError: false, exitCode: 0, output: 'src' })
+    expect(commands[2]).toMatchObject({ endedAt: null, output: null, exitCode: null })
+  })
+})
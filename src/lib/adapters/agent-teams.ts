@@ -0,0 +1,396 @@
+import { z } from 'zod'
+import fs from 'fs/promises'
+import { readdirSync, readFileSync } from 'fs'
+import path from 'path'
+import type {
+  ActivityEvent,
+  Agent,
+  AgentColor,
+  DashboardState,
+  Message,
+  Ticket,
+  TicketStatus,
+  TicketsSummary,
+} from '@/types'
+import type { AdapterRegistration, DashboardAdapter } from './types'
+import { readClaudeStats } from '@/lib/claude-stats'
+import { readSessionSnapshot, type SessionSnapshot } from '@/lib/session-reader'
+import { AGENT_COLORS, CONTEXT_WINDOW_MAX, TOKEN_LIMITS } from '@/lib/constants'
+import { isActiveStatus, leadIdFor } from '@/lib/agents'
+import { buildSessionState, ClaudeHomeConfigSchema, type ClaudeHomeConfig } from './claude-code'
+
+// --- Zod schemas for Agent Teams files ---
+
+const TeamMemberSchema = z.object({
+  name: z.string(),
+  agentId: z.string().optional(),
+  agentType: z.string().optional(),
+  model: z.string().optional(),
+  color: z.string().optional(),
+  cwd: z.string().optional(),
+})
+
+const TeamConfigSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  createdAt: z.number().optional(),
+  leadAgentId: z.string().optional(),
+  leadSessionId: z.string().optional(),
+  members: z.array(TeamMemberSchema),
+})
+
+const TeamTaskSchema = z.object({
+  id: z.string(),
+  subject: z.string(),
+  description: z.string().optional(),
+  status: z.enum(['pending', 'in_progress', 'completed']),
+  owner: z.string().optional(),
+  blocks: z.array(z.string()).default([]),
+  blockedBy: z.array(z.string()).default([]),
+})
+
+const InboxMessageSchema = z.object({
+  from: z.string(),
+  text: z.string(),
+  timestamp: z.string(),
+  summary: z.string().optional(),
+  read: z.boolean().optional(),
+})
+
+type TeamConfig = z.infer<typeof TeamConfigSchema>
+type TeamTask = z.infer<typeof TeamTaskSchema>
+
+/** A team working in the project, with its shared task list and inboxes. */
+interface Team {
+  readonly config: TeamConfig
+  readonly tasks: readonly TeamTask[]
+  readonly messages: readonly Message[]
+}
+
+// Protocol messages (idle notices, shutdown requests…) are JSON with a type
+const ProtocolMessageSchema = z.object({ type: z.string() }).passthrough()
+const URGENT_PROTOCOL_TYPES = new Set(['shutdown_request', 'permission_request'])
+// Messages per team shown as message-sent activity
+const MESSAGE_EVENTS_PER_TEAM = 50
+
+// --- Helper functions ---
+
+function isTeamInProject(config: TeamConfig, projectDir: string): boolean {
+  return config.members.some(m => m.cwd === projectDir)
+}
+
+function colorOf(raw: string | undefined, index: number): AgentColor {
+  const known = AGENT_COLORS.find(c => c === raw)
+  return known ?? AGENT_COLORS[index % AGENT_COLORS.length]
+}
+
+function modelTierOf(model: string | undefined): Agent['modelTier'] {
+  if (model?.includes('opus')) return 'opus'
+  if (model?.includes('haiku')) return 'haiku'
+  return 'sonnet'
+}
+
+function ticketStatusOf(task: TeamTask, completed: ReadonlySet<string>): TicketStatus {
+  if (task.status === 'completed') return 'completed'
+  if (task.status === 'in_progress') return 'in-progress'
+  return task.blockedBy.some(id => !completed.has(id)) ? 'blocked' : 'pending'
+}
+
+/** Plain text of an inbox message; protocol messages collapse to their summary or type. */
+function messageContent(text: string, summary: string | undefined): { content: string; urgent: boolean } {
+  try {
+    const parsed = ProtocolMessageSchema.safeParse(JSON.parse(text))
+    if (parsed.success) {
+      const type = parsed.data.type
+      return { content: summary ?? type.replace(/_/g, ' '), urgent: URGENT_PROTOCOL_TYPES.has(type) }
+    }
+  } catch {
+    // ordinary text message
+  }
+  return { content: text, urgent: false }
+}
+
+async function readJsonSafe<T>(filePath: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T | null> {
+  try {
+    const parsed = schema.safeParse(JSON.parse(await fs.readFile(filePath, 'utf-8')))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether an Agent Teams team has a member working in this directory.
+ * Synchronous so the SSE route can pick an adapter before streaming.
+ */
+export function hasAgentTeam(projectDir: string, claudeHome: string): boolean {
+  const teamsDir = path.join(claudeHome, 'teams')
+  try {
+    return readdirSync(teamsDir).some(team => {
+      try {
+        const raw = readFileSync(path.join(teamsDir, team, 'config.json'), 'utf-8')
+        const parsed = TeamConfigSchema.safeParse(JSON.parse(raw))
+        return parsed.success && isTeamInProject(parsed.data, projectDir)
+      } catch {
+        return false
+      }
+    })
+  } catch {
+    return false
+  }
+}
+
+// --- Agent Teams Adapter ---
+
+/**
+ * Adapter for Claude Code Agent Teams, which keeps per-team state next to
+ * the session files:
+ *   ~/.claude/teams/<team>/config.json           ← members (name, agentType, model, cwd)
+ *   ~/.claude/teams/<team>/inboxes/<member>.json ← messages sent to that member
+ *   ~/.claude/tasks/<team>/<id>.json             ← the shared task list
+ * Agents and their status still come from the session reader, as for plain
+ * Claude Code; teammates are matched to those agents by name, tasks become
+ * tickets and inbox entries become messages.
+ */
+export class AgentTeamsAdapter implements DashboardAdapter {
+  readonly name = 'agent-teams'
+  private readonly claudeHome: string
+  private readonly projectDir: string
+
+  constructor(projectDir: string, claudeHome: string) {
+    this.projectDir = projectDir
+    this.claudeHome = claudeHome
+  }
+
+  getWatchPaths(): readonly string[] {
+    const encoded = this.projectDir.replace(/\//g, '-')
+    return [
+      path.join(this.claudeHome, 'stats-cache.json'),
+      path.join(this.claudeHome, 'projects', encoded, '**', '*.jsonl'),
+      path.join(this.claudeHome, 'teams', '*', 'config.json'),
+      path.join(this.claudeHome, 'teams', '*', 'inboxes', '*.json'),
+      path.join(this.claudeHome, 'tasks', '*', '*.json'),
+    ]
+  }
+
+  async readState(): Promise<DashboardState> {
+    try {
+      const [sessionSnap, teams] = await Promise.all([
+        readSessionSnapshot(this.claudeHome, this.projectDir),
+        this.readTeams(),
+      ])
+      const resources = await readClaudeStats(this.claudeHome, this.projectDir)
+
+      const base = buildSessionState(sessionSnap, resources, this.projectDir)
+      if (teams.length === 0) return base
+      return applyTeams(base, teams, sessionSnap)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read Agent Teams state'
+      return createEmptyState(message)
+    }
+  }
+
+  private async readTeams(): Promise<Team[]> {
+    const teamsDir = path.join(this.claudeHome, 'teams')
+    const names = await fs.readdir(teamsDir).catch(() => [] as string[])
+    const teams: Team[] = []
+
+    for (const name of names) {
+      const config = await readJsonSafe(path.join(teamsDir, name, 'config.json'), TeamConfigSchema)
+      if (!config || !isTeamInProject(config, this.projectDir)) continue
+      teams.push({
+        config,
+        tasks: await this.readTasks(name),
+        messages: await this.readInboxes(path.join(teamsDir, name, 'inboxes')),
+      })
+    }
+
+    return teams
+  }
+
+  private async readTasks(teamName: string): Promise<TeamTask[]> {
+    const tasksDir = path.join(this.claudeHome, 'tasks', teamName)
+    const files = await fs.readdir(tasksDir).catch(() => [] as string[])
+    const tasks: TeamTask[] = []
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue
+      const task = await readJsonSafe(path.join(tasksDir, file), TeamTaskSchema)
+      if (task) tasks.push(task)
+    }
+    // Task ids are sequence numbers
+    return tasks.sort((a, b) => Number(a.id) - Number(b.id) || a.id.localeCompare(b.id))
+  }
+
+  private async readInboxes(inboxDir: string): Promise<Message[]> {
+    const files = await fs.readdir(inboxDir).catch(() => [] as string[])
+    const messages: Message[] = []
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue
+      const inbox = await readJsonSafe(path.join(inboxDir, file), z.array(InboxMessageSchema))
+      for (const entry of inbox ?? []) {
+        const { content, urgent } = messageContent(entry.text, entry.summary)
+        messages.push({
+          timestamp: entry.timestamp,
+          from: entry.from,
+          to: path.basename(file, '.json'),
+          ticketId: null,
+          content,
+          urgency: urgent ? 'high' : 'normal',
+        })
+      }
+    }
+    return messages.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  }
+}
+
+/**
+ * Overlay team data on the session-derived state: teammates take over the
+ * session agents with their name (or are added from the task list when no
+ * session matches), the team lead maps to the lead session, tasks become
+ * tickets and inbox messages become messages and message-sent events.
+ */
+function applyTeams(base: DashboardState, teams: readonly Team[], sessionSnap: SessionSnapshot): DashboardState {
+  const agents = [...base.agents]
+  const activity = [...base.activity]
+  const tickets: Ticket[] = []
+  const messages: Message[] = []
+
+  for (const team of teams) {
+    const { config } = team
+    const leadIndex = sessionSnap.mainSessions.findIndex(m => m.sessionId === config.leadSessionId)
+    const leadId = leadIndex >= 0 ? leadIdFor(config.leadSessionId as string, leadIndex) : 'lead'
+    const leadMember = config.members.find(m => m.agentId === config.leadAgentId)
+
+    // Member name → dashboard agent id
+    const agentIdOf = new Map<string, string>()
+    if (leadMember) agentIdOf.set(leadMember.name, leadId)
+    const idOf = (name: string | undefined) => (name ? agentIdOf.get(name) ?? name : null)
+
+    const completed = new Set(team.tasks.filter(t => t.status === 'completed').map(t => t.id))
+    const teamTickets = team.tasks.map((task): Ticket => ({
+      id: teams.length > 1 ? `${config.name}/${task.id}` : task.id,
+      title: task.subject,
+      agentId: idOf(task.owner),
+      milestone: config.name,
+      status: ticketStatusOf(task, completed),
+      priority: 'medium',
+      dependencies: task.blockedBy.map(id => (teams.length > 1 ? `${config.name}/${id}` : id)),
+      commits: [],
+      reviews: [],
+    }))
+
+    config.members.forEach((member, i) => {
+      if (member === leadMember) return
+      agentIdOf.set(member.name, member.name)
+      const owned = teamTickets.filter(t => t.agentId === member.name)
+      const current = owned.find(t => t.status === 'in-progress')
+      const teamFields = {
+        role: member.agentType ?? 'Teammate',
+        ticketsAssigned: owned.length,
+        ticketsCompleted: owned.filter(t => t.status === 'completed').length,
+        currentTicket: current?.id ?? null,
+      }
+
+      const existing = agents.findIndex(a => a.id === member.name)
+      if (existing >= 0) {
+        agents[existing] = { ...agents[existing], ...teamFields }
+        return
+      }
+      agents.push({
+        id: member.name,
+        ...teamFields,
+        modelTier: modelTierOf(member.model),
+        // No session to read: working while it owns an in-progress task
+        status: current ? 'working' : 'idle',
+        color: colorOf(member.color, i + 1),
+        sessionId: null,
+        contextWindow: null,
+        spawn: null,
+        parentAgentId: leadId,
+        blockedOn: null,
+        errorCount: 0,
+      })
+    })
+
+    const teamMessages = team.messages.map(m => ({ ...m, from: idOf(m.from) ?? m.from, to: idOf(m.to) ?? m.to }))
+    tickets.push(...teamTickets)
+    messages.push(...teamMessages)
+    activity.push(...teamMessages.slice(-MESSAGE_EVENTS_PER_TEAM).map((m): ActivityEvent => ({
+      timestamp: m.timestamp,
+      agentId: m.from,
+      sessionId: null,
+      type: 'message-sent',
+      summary: `[${m.from}] → ${m.to}: ${m.content.split('\n')[0].slice(0, 120)}`,
+    })))
+  }
+
+  activity.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+  return {
+    ...base,
+    agents,
+    tickets,
+    activity,
+    messages: messages.sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    project: {
+      ...base.project,
+      currentMilestone: teams.map(t => t.config.name).join(', '),
+      activeAgents: agents.filter(a => isActiveStatus(a.status)).map(a => a.id),
+      ticketsSummary: summarizeTickets(tickets),
+      startedAt: teams[0].config.createdAt
+        ? new Date(teams[0].config.createdAt).toISOString()
+        : base.project.startedAt,
+    },
+  }
+}
+
+function summarizeTickets(tickets: readonly Ticket[]): TicketsSummary {
+  const count = (status: TicketStatus) => tickets.filter(t => t.status === status).length
+  return {
+    total: tickets.length,
+    completed: count('completed'),
+    inProgress: count('in-progress'),
+    pending: count('pending'),
+    blocked: count('blocked'),
+    failed: count('failed'),
+  }
+}
+
+function createEmptyState(error: string | null): DashboardState {
+  return {
+    agents: [],
+    tickets: [],
+    activity: [],
+    project: {
+      name: 'Agent Teams',
+      phase: '0',
+      status: 'disconnected',
+      currentMilestone: null,
+      activeAgents: [],
+      ticketsSummary: {
+        total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
+      },
+      startedAt: null,
+      lastUpdatedAt: null,
+    },
+    resources: {
+      daily: { used: 0, limit: TOKEN_LIMITS.daily, resetIn: 'N/A' },
+      weekly: { used: 0, limit: TOKEN_LIMITS.weekly, resetIn: 'N/A' },
+      contextWindow: { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+      model: 'unknown',
+      lastUpdated: null,
+      breakdown: [],
+    },
+    messages: [],
+    error,
+  }
+}
+
+export const agentTeamsAdapterRegistration: AdapterRegistration<ClaudeHomeConfig> = {
+  name: 'agent-teams',
+  description: 'Claude Code Agent Teams: sessions plus team task lists and teammate inboxes',
+  group: 'claude-code',
+  configSchema: ClaudeHomeConfigSchema,
+  detect: (projectDir, { claudeHome }) => (hasAgentTeam(projectDir, claudeHome) ? 80 : 0),
+  create: (projectDir, { claudeHome }) => new AgentTeamsAdapter(projectDir, claudeHome),
+}
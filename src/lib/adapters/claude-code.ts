@@ -1,14 +1,35 @@
+import { z } from 'zod'
+import fs from 'fs'
 import path from 'path'
-import type { DashboardState, Agent, ActivityEvent } from '@/types'
-import type { DashboardAdapter } from './types'
+import type { DashboardState, Agent, ActivityEvent, ResourceUsage } from '@/types'
+import type { AdapterRegistration, DashboardAdapter } from './types'
 import { readClaudeStats } from '@/lib/claude-stats'
-import { readSessionSnapshot } from '@/lib/session-reader'
+import {
+  readSessionSnapshot,
+  getProjectSessionDir,
+  agentSpawnFor,
+  errorActivityEvents,
+  parentAgentIdFor,
+  subagentActivityEvent,
+  type SessionSnapshot,
+} from '@/lib/session-reader'
 import { AGENT_COLORS } from '@/lib/constants'
+import { isActiveStatus, leadIdFor, spawnActivityEvent } from '@/lib/agents'
+import { collectFileActivity, editConflictEvents } from '@/lib/file-activity'
+import { getClaudeHome } from '@/lib/config'
+
+/** Config shared by the adapters that read Claude Code's session files. */
+export const ClaudeHomeConfigSchema = z
+  .object({ CLAUDE_HOME: z.string().min(1, 'CLAUDE_HOME must not be empty').optional() })
+  .transform(env => ({ claudeHome: env.CLAUDE_HOME ?? getClaudeHome() }))
+
+export type ClaudeHomeConfig = z.infer<typeof ClaudeHomeConfigSchema>
 
 /**
  * Adapter for regular Claude Code sessions (no Takt).
  * Reads session JSONL files for main + subagent activity.
- * Derives agent status from file modification times.
+ * Derives agent status from session content with deriveActivity, falling
+ * back to file modification times only when the content is inconclusive.
  */
 export class ClaudeCodeAdapter implements DashboardAdapter {
   readonly name = 'claude-code'
@@ -30,105 +51,10 @@ export class ClaudeCodeAdapter implements DashboardAdapter {
 
   async readState(): Promise<DashboardState> {
     try {
-      const [resources, sessionSnap] = await Promise.all([
-        readClaudeStats(this.claudeHome),
-        readSessionSnapshot(this.claudeHome, this.projectDir),
-      ])
-
-      const agents: Agent[] = []
-      const activity: ActivityEvent[] = []
-
-      // Lead agent from main session
-      if (sessionSnap.mainSession) {
-        const main = sessionSnap.mainSession
-        agents.push({
-          id: 'lead',
-          role: 'Main Session',
-          modelTier: 'opus',
-          status: main.activity,
-          color: 'blue',
-          ticketsAssigned: 0,
-          ticketsCompleted: 0,
-          currentTicket: null,
-          sessionId: main.sessionId,
-        })
-
-        activity.push({
-          timestamp: main.lastModified.toISOString(),
-          agentId: 'lead',
-          sessionId: main.sessionId,
-          type: main.activity === 'working' ? 'agent-spawned' : 'agent-idle',
-          summary: `[lead] Main session ${main.activity === 'working' ? 'active' : main.activity}`,
-        })
-      }
-
-      // Subagents from session subagents directory.
-      // Without a registry (non-Takt), only show recent subagents to avoid
-      // filling the village with idle ghosts from old Task calls.
-      const STALE_CUTOFF_MS = 60 * 60 * 1000 // 1 hour
-      const recentSubagents = sessionSnap.subagents.filter(s =>
-        s.activity !== 'idle' || (Date.now() - s.lastModified.getTime()) < STALE_CUTOFF_MS
-      )
-
-      for (let i = 0; i < recentSubagents.length; i++) {
-        const sub = recentSubagents[i]
-        const displayId = sub.agentName ?? sub.agentId
-        agents.push({
-          id: displayId,
-          role: sub.role ?? 'Subagent',
-          modelTier: sub.model?.includes('opus') ? 'opus' : 'sonnet',
-          status: sub.activity,
-          color: AGENT_COLORS[(i + 1) % AGENT_COLORS.length],
-          ticketsAssigned: 0,
-          ticketsCompleted: 0,
-          currentTicket: null,
-          sessionId: path.basename(sub.sessionFile, '.jsonl'),
-        })
-
-        let summary: string
-        if (sub.activity === 'working') {
-          const taskPart = sub.currentTask ? ` on ${sub.currentTask}` : ''
-          const actionPart = sub.lastAction ? ` — ${sub.lastAction}` : ''
-          summary = `[${displayId}] Working${taskPart}${actionPart}`
-        } else if (sub.activity === 'completed') {
-          const taskPart = sub.currentTask ? `: ${sub.currentTask}` : ''
-          summary = `[${displayId}] Just finished${taskPart}`
-        } else {
-          summary = `[${displayId}] Idle`
-        }
-
-        activity.push({
-          timestamp: sub.lastModified.toISOString(),
-          agentId: displayId,
-          sessionId: path.basename(sub.sessionFile, '.jsonl'),
-          type: sub.activity === 'working' ? 'ticket-started' : sub.activity === 'completed' ? 'ticket-completed' : 'agent-idle',
-          summary,
-        })
-      }
+      const sessionSnap = await readSessionSnapshot(this.claudeHome, this.projectDir)
+      const resources = await readClaudeStats(this.claudeHome, this.projectDir)
 
-      // Sort activity newest first
-      activity.sort((a, b) => b.timestamp.localeCompare(a.timestamp))
-
-      return {
-        agents,
-        tickets: [],
-        activity,
-        project: {
-          name: path.basename(this.projectDir),
-          phase: 'active',
-          status: 'running',
-          currentMilestone: null,
-          activeAgents: agents.filter(a => a.status === 'working').map(a => a.id),
-          ticketsSummary: {
-            total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
-          },
-          startedAt: sessionSnap.mainSession?.lastModified.toISOString() ?? null,
-          lastUpdatedAt: new Date().toISOString(),
-        },
-        resources,
-        messages: [],
-        error: null,
-      }
+      return buildSessionState(sessionSnap, resources, this.projectDir)
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to read Claude Code state'
       return {
@@ -153,6 +79,7 @@ export class ClaudeCodeAdapter implements DashboardAdapter {
           contextWindow: { used: 0, total: 200_000, percentage: 0 },
           model: 'unknown',
           lastUpdated: null,
+          breakdown: [],
         },
         messages: [],
         error: message,
@@ -160,3 +87,124 @@ export class ClaudeCodeAdapter implements DashboardAdapter {
     }
   }
 }
+
+/**
+ * Map a session snapshot to dashboard state: one lead per main session plus
+ * its subagents, with their status, spawn, error and edit-conflict events.
+ * In history mode every subagent of the session is kept and the project is
+ * marked as a past run.
+ */
+export function buildSessionState(
+  sessionSnap: SessionSnapshot,
+  resources: ResourceUsage,
+  projectDir: string,
+  { history = false }: { history?: boolean } = {},
+): DashboardState {
+  const agents: Agent[] = []
+  const activity: ActivityEvent[] = []
+
+  // One lead per concurrently running main session
+  sessionSnap.mainSessions.forEach((main, i) => {
+    const leadId = leadIdFor(main.sessionId, i)
+    agents.push({
+      id: leadId,
+      role: i === 0 ? 'Main Session' : `Main Session ${main.sessionId.slice(0, 8)}`,
+      modelTier: 'opus',
+      status: main.activity,
+      color: i === 0 ? 'blue' : AGENT_COLORS[i % AGENT_COLORS.length],
+      ticketsAssigned: 0,
+      ticketsCompleted: 0,
+      currentTicket: null,
+      sessionId: main.sessionId,
+      contextWindow: main.contextWindow,
+      spawn: null,
+      parentAgentId: null,
+      blockedOn: main.blockedOn,
+      errorCount: main.errorCount,
+    })
+
+    activity.push({
+      timestamp: main.lastModified.toISOString(),
+      agentId: leadId,
+      sessionId: main.sessionId,
+      type: isActiveStatus(main.activity) ? 'agent-spawned' : 'agent-idle',
+      summary: `[${leadId}] Main session ${main.activity === 'working' ? 'active' : main.activity.replace(/-/g, ' ')}`,
+    })
+    activity.push(...errorActivityEvents(main, leadId, main.sessionId))
+  })
+
+  // Subagents from session subagents directory.
+  // Without a registry (non-Takt), only show recent subagents to avoid
+  // filling the village with idle ghosts from old Task calls.
+  const STALE_CUTOFF_MS = 60 * 60 * 1000 // 1 hour
+  const recentSubagents = history
+    ? sessionSnap.subagents
+    : sessionSnap.subagents.filter(s =>
+      isActiveStatus(s.activity) || (Date.now() - s.lastModified.getTime()) < STALE_CUTOFF_MS
+    )
+
+  for (let i = 0; i < recentSubagents.length; i++) {
+    const sub = recentSubagents[i]
+    const displayId = sub.agentName ?? sub.agentId
+    const spawn = agentSpawnFor(sessionSnap, sub)
+    agents.push({
+      id: displayId,
+      role: sub.role ?? 'Subagent',
+      modelTier: sub.model?.includes('opus') ? 'opus' : 'sonnet',
+      status: sub.activity,
+      color: AGENT_COLORS[(i + 1) % AGENT_COLORS.length],
+      ticketsAssigned: 0,
+      ticketsCompleted: 0,
+      currentTicket: null,
+      sessionId: path.basename(sub.sessionFile, '.jsonl'),
+      contextWindow: sub.contextWindow,
+      spawn,
+      parentAgentId: parentAgentIdFor(sessionSnap, sub),
+      blockedOn: sub.blockedOn,
+      errorCount: sub.errorCount,
+    })
+
+    activity.push(subagentActivityEvent(sub, displayId))
+    activity.push(...errorActivityEvents(sub, displayId, path.basename(sub.sessionFile, '.jsonl')))
+
+    const spawnEvent = spawn && spawnActivityEvent(displayId, path.basename(sub.sessionFile, '.jsonl'), spawn)
+    if (spawnEvent) activity.push(spawnEvent)
+  }
+
+  activity.push(...editConflictEvents(collectFileActivity(sessionSnap, projectDir)))
+
+  // Oldest first, like every other adapter; the activity panel shows it reversed
+  activity.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+  return {
+    agents,
+    tickets: [],
+    activity,
+    project: {
+      name: path.basename(projectDir),
+      phase: history ? 'history' : 'active',
+      status: history ? 'finished' : 'running',
+      currentMilestone: null,
+      activeAgents: agents.filter(a => isActiveStatus(a.status)).map(a => a.id),
+      ticketsSummary: {
+        total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
+      },
+      startedAt: sessionSnap.mainSession?.lastModified.toISOString() ?? null,
+      lastUpdatedAt: history
+        ? sessionSnap.mainSession?.lastModified.toISOString() ?? null
+        : new Date().toISOString(),
+    },
+    resources,
+    messages: [],
+    error: null,
+  }
+}
+
+export const claudeCodeAdapterRegistration: AdapterRegistration<ClaudeHomeConfig> = {
+  name: 'claude-code',
+  description: 'Claude Code session JSONL files under CLAUDE_HOME',
+  group: 'claude-code',
+  configSchema: ClaudeHomeConfigSchema,
+  detect: (projectDir, { claudeHome }) => (fs.existsSync(getProjectSessionDir(claudeHome, projectDir)) ? 50 : 0),
+  create: (projectDir, { claudeHome }) => new ClaudeCodeAdapter(projectDir, claudeHome),
+}
@@ -0,0 +1,643 @@
+import { z } from 'zod'
+import fs from 'fs/promises'
+import { closeSync, openSync, readdirSync, readSync } from 'fs'
+import path from 'path'
+import type {
+  ActivityEvent,
+  Agent,
+  AgentStatus,
+  ContextWindow,
+  DashboardState,
+  ModelTier,
+  ResourceUsage,
+  TokenUsage,
+  UsageBreakdownEntry,
+} from '@/types'
+import type { AdapterRegistration, DashboardAdapter } from './types'
+import { AGENT_COLORS, CONTEXT_WINDOW_MAX, TOKEN_LIMITS } from '@/lib/constants'
+import { addUsage, countedTokens, EMPTY_USAGE, queuePerFile, readCompleteLines } from '@/lib/session-tail'
+import { formatResetTimer, getDailyResetDate, getWeeklyResetDate } from '@/lib/format'
+import { isActiveStatus } from '@/lib/agents'
+import { getCodexHome } from '@/lib/config'
+
+// Same thresholds as the Claude Code session reader
+const ACTIVE_THRESHOLD_MS = 2 * 60 * 1000
+const DONE_THRESHOLD_MS = 5 * 60 * 1000
+const STALLED_THRESHOLD_MS = 30 * 60 * 1000
+// Rollouts written within this window count as running concurrently
+const CONCURRENT_SESSION_WINDOW_MS = 30 * 60 * 1000
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+// Tool calls per session shown in the activity log
+const TOOL_EVENTS_PER_SESSION = 20
+// session_meta is the first line but can carry long instructions: read it in
+// growing chunks, up to the limit
+const META_CHUNK_BYTES = 16 * 1024
+const META_READ_LIMIT_BYTES = 1024 * 1024
+
+/** A parsed rollout line or nested object. Fields vary by record type and are checked at use. */
+type RolloutRecord = Record<string, unknown>
+
+interface ToolCall {
+  readonly callId: string
+  readonly timestamp: string
+  readonly summary: string
+  failed: boolean
+  done: boolean
+}
+
+/** What one rollout file says about its session. */
+interface RolloutFacts {
+  sessionId: string | null
+  cwd: string | null
+  startedAt: string | null
+  lastTimestamp: string | null
+  model: string | null
+  contextWindow: ContextWindow | null
+  /** Token usage per local date (YYYY-MM-DD) from token_count events. */
+  usageByDate: Record<string, TokenUsage>
+  tokens: TokenUsage
+  toolCalls: ToolCall[]
+  turnEnded: boolean
+  lastError: string | null
+  errorCount: number
+  errors: { timestamp: string; message: string }[]
+}
+
+interface Rollout {
+  readonly filePath: string
+  readonly lastModified: Date
+  readonly facts: RolloutFacts
+}
+
+/** How far a rollout has been read, and the facts parsed so far. */
+interface RolloutCursor {
+  readonly size: number
+  readonly mtimeMs: number
+  /** Byte offset just past the last complete line parsed. */
+  readonly offset: number
+  readonly facts: RolloutFacts
+}
+
+// Rollouts are append-only: each read parses only the lines written since the last
+const rolloutCursors = new Map<string, RolloutCursor>()
+// In-flight read per rollout, so concurrent reads never apply the same lines twice
+const pendingReads = new Map<string, Promise<Rollout | null>>()
+// session_meta cwd per rollout file; the first line never changes once written
+const rolloutCwds = new Map<string, string>()
+
+// --- Helper functions ---
+
+function asRecord(value: unknown): RolloutRecord | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as RolloutRecord : null
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' ? value : 0
+}
+
+function localDate(time: string | number): string {
+  const d = new Date(time)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function modelTierOf(model: string | null): ModelTier {
+  // Codex models have no tiers of their own; mini models map to the small one
+  if (model?.includes('mini')) return 'haiku'
+  return 'sonnet'
+}
+
+/** Codex agent id: "codex" for the latest session, suffixed for concurrent ones. */
+export function codexIdFor(sessionId: string, index: number): string {
+  return index === 0 ? 'codex' : `codex-${sessionId.slice(0, 8)}`
+}
+
+/** Codex counts cached input inside input_tokens; split it out like Claude's cache reads. */
+function usageOf(raw: RolloutRecord | null): TokenUsage {
+  if (!raw) return EMPTY_USAGE
+  const cached = asNumber(raw.cached_input_tokens)
+  return {
+    input: Math.max(0, asNumber(raw.input_tokens) - cached),
+    output: asNumber(raw.output_tokens),
+    cacheCreation: 0,
+    cacheRead: cached,
+  }
+}
+
+function parseJson(text: unknown): RolloutRecord | null {
+  if (typeof text !== 'string') return null
+  try {
+    return asRecord(JSON.parse(text))
+  } catch {
+    return null
+  }
+}
+
+/** "shell: npm test" style label for a function or custom tool call. */
+function describeCall(payload: RolloutRecord): string {
+  const name = asString(payload.name) ?? 'tool'
+  const args = parseJson(payload.arguments)
+  const command = args?.command
+  if (Array.isArray(command)) {
+    // ["bash", "-lc", "npm test"] → the script itself
+    const script = command[0] === 'bash' && command[1] === '-lc' ? command[2] : command.join(' ')
+    return `${name}: ${String(script).slice(0, 120)}`
+  }
+  if (typeof command === 'string') return `${name}: ${command.slice(0, 120)}`
+  return name
+}
+
+function callFailed(payload: RolloutRecord): boolean {
+  const output = parseJson(payload.output)
+  const exitCode = asRecord(output?.metadata)?.exit_code
+  return typeof exitCode === 'number' ? exitCode !== 0 : false
+}
+
+function createFacts(): RolloutFacts {
+  return {
+    sessionId: null,
+    cwd: null,
+    startedAt: null,
+    lastTimestamp: null,
+    model: null,
+    contextWindow: null,
+    usageByDate: {},
+    tokens: EMPTY_USAGE,
+    toolCalls: [],
+    turnEnded: false,
+    lastError: null,
+    errorCount: 0,
+    errors: [],
+  }
+}
+
+function applyRecord(facts: RolloutFacts, record: RolloutRecord): void {
+  const timestamp = asString(record.timestamp)
+  const payload = asRecord(record.payload) ?? {}
+  if (timestamp) facts.lastTimestamp = timestamp
+
+  if (record.type === 'session_meta') {
+    facts.sessionId = asString(payload.id) ?? facts.sessionId
+    facts.cwd = asString(payload.cwd) ?? facts.cwd
+    facts.startedAt = asString(payload.timestamp) ?? timestamp
+    return
+  }
+  if (record.type === 'turn_context') {
+    facts.model = asString(payload.model) ?? facts.model
+    facts.cwd = asString(payload.cwd) ?? facts.cwd
+    return
+  }
+
+  if (record.type === 'response_item') {
+    if (payload.type === 'function_call' || payload.type === 'custom_tool_call' || payload.type === 'local_shell_call') {
+      facts.turnEnded = false
+      facts.toolCalls.push({
+        callId: asString(payload.call_id) ?? '',
+        timestamp: timestamp ?? '',
+        summary: describeCall(payload),
+        failed: false,
+        done: false,
+      })
+    } else if (payload.type === 'function_call_output' || payload.type === 'custom_tool_call_output') {
+      const call = facts.toolCalls.find(c => c.callId === payload.call_id)
+      if (call) {
+        call.done = true
+        call.failed = callFailed(payload)
+        if (call.failed) {
+          facts.errorCount++
+          facts.errors.push({ timestamp: timestamp ?? '', message: `${call.summary} failed` })
+        }
+      }
+    } else if (payload.type === 'message' && payload.role === 'user') {
+      facts.turnEnded = false
+      facts.lastError = null
+    }
+    return
+  }
+
+  if (record.type !== 'event_msg') return
+
+  switch (payload.type) {
+    case 'token_count': {
+      const info = asRecord(payload.info)
+      const lastUsage = asRecord(info?.last_token_usage)
+      const last = usageOf(lastUsage)
+      if (timestamp) {
+        const date = localDate(timestamp)
+        facts.usageByDate[date] = addUsage(facts.usageByDate[date] ?? EMPTY_USAGE, last)
+      }
+      facts.tokens = addUsage(facts.tokens, last)
+      const window = asNumber(info?.model_context_window)
+      const used = lastUsage?.input_tokens
+      if (window && typeof used === 'number') {
+        facts.contextWindow = { used, total: window, percentage: Math.round((used / window) * 100) }
+      }
+      break
+    }
+    case 'task_started':
+      facts.turnEnded = false
+      facts.lastError = null
+      break
+    case 'task_complete':
+      facts.turnEnded = true
+      break
+    case 'turn_aborted':
+      facts.turnEnded = true
+      facts.errorCount++
+      facts.errors.push({ timestamp: timestamp ?? '', message: 'Interrupted' })
+      break
+    case 'error':
+      facts.lastError = asString(payload.message) ?? 'Unknown error'
+      facts.errorCount++
+      facts.errors.push({ timestamp: timestamp ?? '', message: facts.lastError ?? 'Unknown error' })
+      break
+  }
+}
+
+function applyLines(facts: RolloutFacts, chunk: string): void {
+  for (const line of chunk.split('\n')) {
+    if (!line.trim()) continue
+    const record = parseJson(line)
+    if (record) applyRecord(facts, record)
+  }
+}
+
+async function tailRollout(filePath: string): Promise<Rollout | null> {
+  const stat = await fs.stat(filePath).catch(() => null)
+  if (!stat) {
+    rolloutCursors.delete(filePath)
+    return null
+  }
+
+  let cursor = rolloutCursors.get(filePath)
+  if (cursor && cursor.size === stat.size && cursor.mtimeMs === stat.mtimeMs) {
+    return { filePath, lastModified: stat.mtime, facts: cursor.facts }
+  }
+
+  // A rollout shorter than what was parsed has been rewritten: start over
+  if (!cursor || stat.size < cursor.offset) {
+    cursor = { size: 0, mtimeMs: 0, offset: 0, facts: createFacts() }
+  }
+
+  const { facts } = cursor
+  try {
+    const offset = await readCompleteLines(filePath, cursor.offset, stat.size, chunk => applyLines(facts, chunk))
+    rolloutCursors.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, offset, facts })
+  } catch {
+    // Facts may be half-updated; force a full re-parse next time
+    rolloutCursors.delete(filePath)
+    return null
+  }
+
+  return { filePath, lastModified: stat.mtime, facts }
+}
+
+/** Read a rollout incrementally; unchanged rollouts cost a single stat. */
+function readRollout(filePath: string): Promise<Rollout | null> {
+  return queuePerFile(pendingReads, filePath, () => tailRollout(filePath))
+}
+
+/** Content first, then quiet time, as for Claude Code leads. */
+function deriveStatus(rollout: Rollout): AgentStatus {
+  const elapsed = Date.now() - rollout.lastModified.getTime()
+  const { facts } = rollout
+  const pending = facts.toolCalls.some(c => !c.done)
+
+  if (facts.lastError && !facts.turnEnded) return elapsed < STALLED_THRESHOLD_MS ? 'errored' : 'idle'
+  if (pending && !facts.turnEnded) return elapsed < STALLED_THRESHOLD_MS ? 'waiting-on-tool' : 'idle'
+  if (facts.turnEnded) return elapsed < DONE_THRESHOLD_MS ? 'completed' : 'idle'
+  if (elapsed < ACTIVE_THRESHOLD_MS) return 'working'
+  if (elapsed < DONE_THRESHOLD_MS) return 'completed'
+  return 'idle'
+}
+
+/**
+ * Day directories (sessions/YYYY/MM/DD) that may hold rollouts from the past
+ * week, newest first.
+ */
+async function recentDayDirs(sessionsDir: string): Promise<string[]> {
+  const cutoff = localDate(Date.now() - WEEK_MS).replace(/-/g, '/')
+  const dirs: string[] = []
+  for (const year of await fs.readdir(sessionsDir).catch(() => [] as string[])) {
+    for (const month of await fs.readdir(path.join(sessionsDir, year)).catch(() => [] as string[])) {
+      for (const day of await fs.readdir(path.join(sessionsDir, year, month)).catch(() => [] as string[])) {
+        if (`${year}/${month}/${day}` >= cutoff) dirs.push(path.join(sessionsDir, year, month, day))
+      }
+    }
+  }
+  return dirs.sort().reverse()
+}
+
+/**
+ * The session_meta cwd from the first `bytesRead` bytes of a rollout: null if
+ * there is none yet, undefined if the chunk filled up before the first line
+ * ended and a bigger one is needed.
+ */
+function metaCwd(head: Buffer, bytesRead: number): string | null | undefined {
+  const newline = head.subarray(0, bytesRead).indexOf(0x0a)
+  if (newline === -1) return bytesRead < head.length ? null : undefined
+  const record = parseJson(head.toString('utf-8', 0, newline))
+  return record?.type === 'session_meta' ? asString(asRecord(record.payload)?.cwd) : null
+}
+
+/**
+ * The cwd recorded in a rollout's session_meta line, read without loading
+ * the whole file. Cached per path; a rollout without a complete first line
+ * yet is checked again next time.
+ */
+async function rolloutCwd(filePath: string): Promise<string | null> {
+  const known = rolloutCwds.get(filePath)
+  if (known !== undefined) return known
+
+  let cwd: string | null = null
+  const fh = await fs.open(filePath, 'r').catch(() => null)
+  if (!fh) return null
+  try {
+    for (let length = META_CHUNK_BYTES; length <= META_READ_LIMIT_BYTES; length *= 2) {
+      const head = Buffer.alloc(length)
+      const { bytesRead } = await fh.read(head, 0, length, 0)
+      const found = metaCwd(head, bytesRead)
+      if (found === undefined) continue
+      cwd = found
+      break
+    }
+  } catch {
+    return null
+  } finally {
+    await fh.close()
+  }
+
+  if (cwd !== null) rolloutCwds.set(filePath, cwd)
+  return cwd
+}
+
+/** rolloutCwd for adapter detection, which must be synchronous. Shares its cache. */
+function rolloutCwdSync(filePath: string): string | null {
+  const known = rolloutCwds.get(filePath)
+  if (known !== undefined) return known
+
+  let cwd: string | null = null
+  let fd: number | null = null
+  try {
+    fd = openSync(filePath, 'r')
+    for (let length = META_CHUNK_BYTES; length <= META_READ_LIMIT_BYTES; length *= 2) {
+      const head = Buffer.alloc(length)
+      const found = metaCwd(head, readSync(fd, head, 0, length, 0))
+      if (found === undefined) continue
+      cwd = found
+      break
+    }
+  } catch {
+    return null
+  } finally {
+    if (fd !== null) closeSync(fd)
+  }
+
+  if (cwd !== null) rolloutCwds.set(filePath, cwd)
+  return cwd
+}
+
+/**
+ * Whether Codex has a rollout from the past week for this directory.
+ * Synchronous so the SSE route can pick an adapter before streaming.
+ */
+export function hasCodexSessions(projectDir: string, codexHome: string): boolean {
+  const sessionsDir = path.join(codexHome, 'sessions')
+  const cutoff = localDate(Date.now() - WEEK_MS).replace(/-/g, '/')
+  const list = (dir: string) => {
+    try {
+      return readdirSync(dir)
+    } catch {
+      return []
+    }
+  }
+  for (const year of list(sessionsDir)) {
+    for (const month of list(path.join(sessionsDir, year))) {
+      for (const day of list(path.join(sessionsDir, year, month))) {
+        if (`${year}/${month}/${day}` < cutoff) continue
+        const dayDir = path.join(sessionsDir, year, month, day)
+        const found = list(dayDir).some(file =>
+          file.endsWith('.jsonl') && rolloutCwdSync(path.join(dayDir, file)) === projectDir,
+        )
+        if (found) return true
+      }
+    }
+  }
+  return false
+}
+
+/** Drop rollout cursors so every file is re-parsed. */
+export function resetRolloutCache(): void {
+  rolloutCursors.clear()
+  rolloutCwds.clear()
+}
+
+// --- Codex Adapter ---
+
+/**
+ * Adapter for OpenAI's Codex CLI, which writes one JSONL rollout per session:
+ *   <CODEX_HOME>/sessions/YYYY/MM/DD/rollout-<timestamp>-<id>.jsonl
+ * Rollouts whose session_meta cwd is the project become agents: the latest
+ * as "codex", plus any other written within the last 30 minutes. Status,
+ * tool calls and token usage come from the response items and events.
+ */
+export class CodexAdapter implements DashboardAdapter {
+  readonly name = 'codex'
+  private readonly projectDir: string
+  private readonly sessionsDir: string
+
+  constructor(projectDir: string, codexHome: string) {
+    this.projectDir = projectDir
+    this.sessionsDir = path.join(codexHome, 'sessions')
+  }
+
+  getWatchPaths(): readonly string[] {
+    return [path.join(this.sessionsDir, '**', '*.jsonl')]
+  }
+
+  async readState(): Promise<DashboardState> {
+    try {
+      const rollouts = await this.readRollouts()
+      const now = Date.now()
+      const shown = rollouts.filter((r, i) =>
+        i === 0 || now - r.lastModified.getTime() < CONCURRENT_SESSION_WINDOW_MS,
+      )
+
+      const agents: Agent[] = []
+      const activity: ActivityEvent[] = []
+      shown.forEach((rollout, i) => {
+        const sessionId = rollout.facts.sessionId ?? path.basename(rollout.filePath, '.jsonl')
+        const agentId = codexIdFor(sessionId, i)
+        const status = deriveStatus(rollout)
+        agents.push({
+          id: agentId,
+          role: i === 0 ? 'Codex Session' : `Codex Session ${sessionId.slice(0, 8)}`,
+          modelTier: modelTierOf(rollout.facts.model),
+          status,
+          color: AGENT_COLORS[(i + 2) % AGENT_COLORS.length],
+          ticketsAssigned: 0,
+          ticketsCompleted: 0,
+          currentTicket: null,
+          sessionId,
+          contextWindow: rollout.facts.contextWindow,
+          spawn: null,
+          parentAgentId: null,
+          blockedOn: null,
+          errorCount: rollout.facts.errorCount,
+        })
+        activity.push(...rolloutActivity(rollout, agentId, sessionId, status))
+      })
+
+      activity.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+      return {
+        agents,
+        tickets: [],
+        activity,
+        project: {
+          name: path.basename(this.projectDir),
+          phase: 'active',
+          status: rollouts.length > 0 ? 'running' : 'idle',
+          currentMilestone: null,
+          activeAgents: agents.filter(a => isActiveStatus(a.status)).map(a => a.id),
+          ticketsSummary: {
+            total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
+          },
+          startedAt: shown[0]?.facts.startedAt ?? null,
+          lastUpdatedAt: new Date().toISOString(),
+        },
+        resources: buildResources(rollouts, agents),
+        messages: [],
+        error: null,
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read Codex state'
+      return createEmptyState(message)
+    }
+  }
+
+  /**
+   * This project's rollouts from the past week, most recently written first.
+   * Other projects' rollouts are told apart by their session_meta line and never parsed.
+   */
+  private async readRollouts(): Promise<Rollout[]> {
+    const rollouts: Rollout[] = []
+    for (const dir of await recentDayDirs(this.sessionsDir)) {
+      for (const file of await fs.readdir(dir).catch(() => [] as string[])) {
+        const filePath = path.join(dir, file)
+        if (!file.endsWith('.jsonl') || await rolloutCwd(filePath) !== this.projectDir) continue
+        const rollout = await readRollout(filePath)
+        if (rollout) rollouts.push(rollout)
+      }
+    }
+    return rollouts.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime())
+  }
+}
+
+function rolloutActivity(rollout: Rollout, agentId: string, sessionId: string, status: AgentStatus): ActivityEvent[] {
+  const base = { agentId, sessionId }
+  const events: ActivityEvent[] = [{
+    ...base,
+    timestamp: rollout.lastModified.toISOString(),
+    type: isActiveStatus(status) ? 'agent-spawned' : 'agent-idle',
+    summary: `[${agentId}] Codex session ${status === 'working' ? 'active' : status.replace(/-/g, ' ')}`,
+  }]
+
+  for (const call of rollout.facts.toolCalls.slice(-TOOL_EVENTS_PER_SESSION)) {
+    if (call.failed || !call.timestamp) continue
+    events.push({ ...base, timestamp: call.timestamp, type: 'system', summary: `[${agentId}] ${call.summary}` })
+  }
+  for (const error of rollout.facts.errors) {
+    if (!error.timestamp) continue
+    events.push({ ...base, timestamp: error.timestamp, type: 'agent-error', summary: `[${agentId}] ${error.message}` })
+  }
+
+  return events
+}
+
+/** Daily/weekly token totals across the week's rollouts; cache reads are excluded, as for Claude Code. */
+function buildResources(rollouts: readonly Rollout[], agents: readonly Agent[]): ResourceUsage {
+  const today = localDate(Date.now())
+  const weekStart = localDate(Date.now() - WEEK_MS)
+  const agentOfSession = new Map(agents.map(a => [a.sessionId, a.id]))
+
+  let daily = 0
+  let weekly = 0
+  const breakdown: UsageBreakdownEntry[] = []
+
+  for (const rollout of rollouts) {
+    const sessionId = rollout.facts.sessionId ?? path.basename(rollout.filePath, '.jsonl')
+    let sessionDaily = 0
+    let sessionWeekly = 0
+    for (const [date, usage] of Object.entries(rollout.facts.usageByDate)) {
+      if (date === today) sessionDaily += countedTokens(usage)
+      if (date > weekStart) sessionWeekly += countedTokens(usage)
+    }
+    if (sessionWeekly === 0) continue
+    daily += sessionDaily
+    weekly += sessionWeekly
+    breakdown.push({
+      agentId: agentOfSession.get(sessionId) ?? `codex-${sessionId.slice(0, 8)}`,
+      sessionId,
+      daily: sessionDaily,
+      weekly: sessionWeekly,
+      tokens: rollout.facts.tokens,
+    })
+  }
+
+  const latest = rollouts[0]?.facts
+  return {
+    daily: { used: daily, limit: TOKEN_LIMITS.daily, resetIn: formatResetTimer(getDailyResetDate()) },
+    weekly: { used: weekly, limit: TOKEN_LIMITS.weekly, resetIn: formatResetTimer(getWeeklyResetDate()) },
+    contextWindow: latest?.contextWindow ?? { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+    model: latest?.model ?? 'unknown',
+    lastUpdated: new Date().toISOString(),
+    breakdown: breakdown.sort((a, b) => b.weekly - a.weekly),
+  }
+}
+
+function createEmptyState(error: string | null): DashboardState {
+  return {
+    agents: [],
+    tickets: [],
+    activity: [],
+    project: {
+      name: 'No Project',
+      phase: '0',
+      status: 'disconnected',
+      currentMilestone: null,
+      activeAgents: [],
+      ticketsSummary: {
+        total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
+      },
+      startedAt: null,
+      lastUpdatedAt: null,
+    },
+    resources: {
+      daily: { used: 0, limit: TOKEN_LIMITS.daily, resetIn: 'N/A' },
+      weekly: { used: 0, limit: TOKEN_LIMITS.weekly, resetIn: 'N/A' },
+      contextWindow: { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+      model: 'unknown',
+      lastUpdated: null,
+      breakdown: [],
+    },
+    messages: [],
+    error,
+  }
+}
+
+const CodexConfigSchema = z
+  .object({ CODEX_HOME: z.string().min(1, 'CODEX_HOME must not be empty').optional() })
+  .transform(env => ({ codexHome: env.CODEX_HOME ?? getCodexHome() }))
+
+export const codexAdapterRegistration: AdapterRegistration<z.infer<typeof CodexConfigSchema>> = {
+  name: 'codex',
+  description: 'Codex CLI JSONL rollouts under CODEX_HOME',
+  group: 'codex',
+  configSchema: CodexConfigSchema,
+  detect: (projectDir, { codexHome }) => (hasCodexSessions(projectDir, codexHome) ? 60 : 0),
+  create: (projectDir, { codexHome }) => new CodexAdapter(projectDir, codexHome),
+}
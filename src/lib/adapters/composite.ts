@@ -0,0 +1,190 @@
+import type {
+  ActivityEvent,
+  Agent,
+  DashboardState,
+  Message,
+  ResourceUsage,
+  Ticket,
+  TicketsSummary,
+  UsagePeriod,
+} from '@/types'
+import type { DashboardAdapter } from './types'
+import { MAX_ACTIVITY_EVENTS } from '@/lib/constants'
+import { isActiveStatus } from '@/lib/agents'
+
+/** One adapter's state, labelled with the prefix used for its ticket ids. */
+interface SourceState {
+  readonly label: string
+  readonly state: DashboardState
+}
+
+/**
+ * Labels for namespacing: the adapter name, suffixed with a counter when
+ * the same kind of adapter appears more than once ("claude-code", "claude-code-2").
+ */
+function sourceLabels(adapters: readonly DashboardAdapter[]): string[] {
+  const seen = new Map<string, number>()
+  return adapters.map(adapter => {
+    const count = (seen.get(adapter.name) ?? 0) + 1
+    seen.set(adapter.name, count)
+    return count === 1 ? adapter.name : `${adapter.name}-${count}`
+  })
+}
+
+function namespacedTicketId(label: string, id: string): string {
+  return `${label}:${id}`
+}
+
+/** Prefix every ticket id, and every reference to one, with the source label. */
+function namespaceTickets({ label, state }: SourceState): DashboardState {
+  const ns = (id: string) => namespacedTicketId(label, id)
+  return {
+    ...state,
+    tickets: state.tickets.map(t => ({
+      ...t,
+      id: ns(t.id),
+      dependencies: t.dependencies.map(ns),
+      commits: t.commits.map(c => ({ ...c, ticketIds: c.ticketIds.map(ns) })),
+      reviews: t.reviews.map(r => ({ ...r, ticketId: ns(r.ticketId) })),
+    })),
+    agents: state.agents.map(a => (a.currentTicket ? { ...a, currentTicket: ns(a.currentTicket) } : a)),
+    messages: state.messages.map(m => (m.ticketId ? { ...m, ticketId: ns(m.ticketId) } : m)),
+  }
+}
+
+/**
+ * Agents from every source, keeping the first one seen for each id (so
+ * earlier adapters win), but taking an active status from any duplicate.
+ */
+function mergeAgents(states: readonly DashboardState[]): Agent[] {
+  const byId = new Map<string, Agent>()
+  for (const agent of states.flatMap(s => s.agents)) {
+    const existing = byId.get(agent.id)
+    if (!existing) {
+      byId.set(agent.id, agent)
+    } else if (!isActiveStatus(existing.status) && isActiveStatus(agent.status)) {
+      byId.set(agent.id, { ...existing, status: agent.status, blockedOn: agent.blockedOn })
+    }
+  }
+  return [...byId.values()]
+}
+
+/** Summed usage against the first source's limit and reset time. */
+function sumPeriod(periods: readonly UsagePeriod[]): UsagePeriod {
+  return { ...periods[0], used: periods.reduce((sum, p) => sum + p.used, 0) }
+}
+
+/**
+ * Token usage summed across sources. The context window shown is the
+ * fullest one, since that is the one about to run out.
+ */
+function sumResources(resources: readonly ResourceUsage[]): ResourceUsage {
+  const fullest = resources.reduce((max, r) => (r.contextWindow.percentage > max.contextWindow.percentage ? r : max))
+  const lastUpdated = resources
+    .map(r => r.lastUpdated)
+    .filter((t): t is string => t !== null)
+    .sort()
+    .pop() ?? null
+
+  return {
+    daily: sumPeriod(resources.map(r => r.daily)),
+    weekly: sumPeriod(resources.map(r => r.weekly)),
+    contextWindow: fullest.contextWindow,
+    model: resources.map(r => r.model).filter(m => m !== 'unknown').join(', ') || 'unknown',
+    lastUpdated,
+    breakdown: resources.flatMap(r => r.breakdown).sort((a, b) => b.weekly - a.weekly),
+  }
+}
+
+function sumTicketsSummaries(summaries: readonly TicketsSummary[]): TicketsSummary {
+  return summaries.reduce((total, s) => ({
+    total: total.total + s.total,
+    completed: total.completed + s.completed,
+    inProgress: total.inProgress + s.inProgress,
+    pending: total.pending + s.pending,
+    blocked: total.blocked + s.blocked,
+    failed: total.failed + s.failed,
+  }))
+}
+
+function earliest(values: readonly (string | null)[]): string | null {
+  return values.filter((v): v is string => v !== null).sort()[0] ?? null
+}
+
+function latest(values: readonly (string | null)[]): string | null {
+  return values.filter((v): v is string => v !== null).sort().pop() ?? null
+}
+
+/** Merge several adapters' states into one dashboard. */
+function mergeStates(sources: readonly SourceState[]): DashboardState {
+  // Only namespace when tickets from different sources could collide
+  const namespaced = sources.length > 1 ? sources.map(namespaceTickets) : sources.map(s => s.state)
+  const agents = mergeAgents(namespaced)
+  const tickets: Ticket[] = namespaced.flatMap(s => s.tickets)
+  const activity: ActivityEvent[] = namespaced
+    .flatMap(s => s.activity)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .slice(-MAX_ACTIVITY_EVENTS)
+  const messages: Message[] = namespaced
+    .flatMap(s => s.messages)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+  // A source that failed contributes its error; the dashboard only errors when every source did
+  const errors = sources
+    .filter(s => s.state.error)
+    .map(s => `${s.label}: ${s.state.error}`)
+  const healthy = namespaced.filter((_, i) => !sources[i].state.error)
+  const projects = (healthy.length > 0 ? healthy : namespaced).map(s => s.project)
+
+  return {
+    agents,
+    tickets,
+    activity,
+    project: {
+      name: [...new Set(projects.map(p => p.name))].join(' + '),
+      phase: projects[0].phase,
+      status: projects[0].status,
+      currentMilestone: projects.map(p => p.currentMilestone).find(m => m !== null) ?? null,
+      activeAgents: agents.filter(a => isActiveStatus(a.status)).map(a => a.id),
+      ticketsSummary: sumTicketsSummaries(projects.map(p => p.ticketsSummary)),
+      startedAt: earliest(projects.map(p => p.startedAt)),
+      lastUpdatedAt: latest(projects.map(p => p.lastUpdatedAt)),
+    },
+    resources: sumResources((healthy.length > 0 ? healthy : namespaced).map(s => s.resources)),
+    messages,
+    error: errors.length === sources.length ? errors.join('; ') : null,
+  }
+}
+
+/**
+ * Runs several adapters (e.g. Takt plus an OpenCode session, or the same
+ * adapter for two project directories) and merges their states: agents are
+ * deduped by id, activity and messages interleaved by time, resources summed,
+ * and ticket ids prefixed with the source ("takt:T01") so they don't collide.
+ */
+export class CompositeAdapter implements DashboardAdapter {
+  readonly name: string
+  private readonly adapters: readonly DashboardAdapter[]
+  private readonly labels: readonly string[]
+
+  constructor(adapters: readonly DashboardAdapter[]) {
+    if (adapters.length === 0) throw new Error('CompositeAdapter needs at least one adapter')
+    this.adapters = adapters
+    this.labels = sourceLabels(adapters)
+    this.name = `composite(${this.labels.join('+')})`
+  }
+
+  getWatchPaths(): readonly string[] {
+    return [...new Set(this.adapters.flatMap(a => a.getWatchPaths()))]
+  }
+
+  subscribe(listener: () => void): () => void {
+    const unsubscribes = this.adapters.map(a => a.subscribe?.(listener))
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe?.())
+  }
+
+  async readState(): Promise<DashboardState> {
+    const states = await Promise.all(this.adapters.map(a => a.readState()))
+    return mergeStates(states.map((state, i) => ({ label: this.labels[i], state })))
+  }
+}
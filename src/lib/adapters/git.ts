@@ -0,0 +1,40 @@
+import type { DashboardState } from '@/types'
+import type { DashboardAdapter } from './types'
+import { applyGitCommits, correlateCommits, readGitLog, reflogPath, resolveGitDir } from '@/lib/git-history'
+
+/** Whether the project directory is the root of a git repository, worktree or submodule. */
+export function isGitRepo(projectDir: string): boolean {
+  return resolveGitDir(projectDir) !== null
+}
+
+/**
+ * Wraps another adapter and correlates the project's git log with its state:
+ * commits are attached to the tickets they mention and shown as activity.
+ * Works on top of any adapter, so Takt, Agent Teams and protocol tickets all
+ * get their commits.
+ */
+export class GitHistoryAdapter implements DashboardAdapter {
+  readonly name: string
+  private readonly adapter: DashboardAdapter
+  private readonly projectDir: string
+
+  constructor(adapter: DashboardAdapter, projectDir: string) {
+    this.adapter = adapter
+    this.projectDir = projectDir
+    this.name = adapter.name
+  }
+
+  getWatchPaths(): readonly string[] {
+    const reflog = reflogPath(this.projectDir)
+    return reflog ? [...this.adapter.getWatchPaths(), reflog] : this.adapter.getWatchPaths()
+  }
+
+  subscribe(listener: () => void): () => void {
+    return this.adapter.subscribe?.(listener) ?? (() => undefined)
+  }
+
+  async readState(): Promise<DashboardState> {
+    const [state, log] = await Promise.all([this.adapter.readState(), readGitLog(this.projectDir)])
+    return applyGitCommits(state, correlateCommits(log, state))
+  }
+}
@@ -0,0 +1,582 @@
+import { z } from 'zod'
+import fs from 'fs/promises'
+import { readdirSync, readFileSync } from 'fs'
+import path from 'path'
+import type {
+  ActivityEvent,
+  Agent,
+  AgentSpawn,
+  AgentStatus,
+  DashboardState,
+  ModelTier,
+  ResourceUsage,
+  TokenUsage,
+  UsageBreakdownEntry,
+} from '@/types'
+import type { AdapterRegistration, DashboardAdapter } from './types'
+import { AGENT_COLORS, CONTEXT_WINDOW_MAX, SPAWN_MAX_TEXT, TOKEN_LIMITS } from '@/lib/constants'
+import { contextWindowFromUsage, contextWindowSize } from '@/lib/session-reader'
+import { addUsage, countedTokens, EMPTY_USAGE } from '@/lib/session-tail'
+import { formatResetTimer, getDailyResetDate, getWeeklyResetDate } from '@/lib/format'
+import { isActiveStatus } from '@/lib/agents'
+import { getOpenCodeHome } from '@/lib/config'
+
+// --- Zod schemas for OpenCode storage files ---
+
+const ProjectSchema = z.object({
+  id: z.string(),
+  worktree: z.string(),
+})
+
+const SessionSchema = z.object({
+  id: z.string(),
+  parentID: z.string().optional(),
+  title: z.string().optional(),
+  time: z.object({
+    created: z.number(),
+    updated: z.number(),
+  }),
+})
+
+const MessageSchema = z.object({
+  id: z.string(),
+  sessionID: z.string(),
+  role: z.enum(['user', 'assistant']),
+  modelID: z.string().optional(),
+  tokens: z.object({
+    input: z.number(),
+    output: z.number(),
+    reasoning: z.number().optional(),
+    cache: z.object({ read: z.number(), write: z.number() }).optional(),
+  }).optional(),
+  error: z.object({
+    name: z.string().optional(),
+    data: z.object({ message: z.string().optional() }).passthrough().optional(),
+  }).passthrough().optional(),
+  time: z.object({
+    created: z.number(),
+    completed: z.number().optional(),
+  }),
+})
+
+const PartSchema = z.object({
+  id: z.string(),
+  messageID: z.string(),
+  type: z.string(),
+  tool: z.string().optional(),
+  callID: z.string().optional(),
+  state: z.object({
+    status: z.enum(['pending', 'running', 'completed', 'error']),
+    input: z.record(z.string(), z.unknown()).optional(),
+    output: z.string().optional(),
+    title: z.string().optional(),
+    error: z.string().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+    time: z.object({ start: z.number().optional(), end: z.number().optional() }).optional(),
+  }).optional(),
+})
+
+type OpenCodeSession = z.infer<typeof SessionSchema>
+type OpenCodeMessage = z.infer<typeof MessageSchema>
+type OpenCodePart = z.infer<typeof PartSchema>
+
+// Same thresholds as the Claude Code session reader
+const ACTIVE_THRESHOLD_MS = 2 * 60 * 1000
+const DONE_THRESHOLD_MS = 5 * 60 * 1000
+const STALLED_THRESHOLD_MS = 30 * 60 * 1000
+const FINISHED_THRESHOLD_MS = 60 * 60 * 1000
+// Root sessions updated within this window count as running concurrently
+const CONCURRENT_SESSION_WINDOW_MS = 30 * 60 * 1000
+// Child sessions quiet for longer than this are dropped unless still active
+const STALE_CUTOFF_MS = 60 * 60 * 1000
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+// Tool calls per session shown in the activity log
+const TOOL_EVENTS_PER_SESSION = 20
+
+const SPAWN_TOOL = 'task'
+// Child session titles end with "(@general subagent)"
+const SUBAGENT_TITLE = /\(@([\w-]+) subagent\)\s*$/
+
+interface CachedRecord {
+  readonly size: number
+  readonly mtimeMs: number
+  /** The record as validated by its schema, or null if it failed validation. */
+  readonly value: unknown
+}
+
+// Storage files are re-parsed only when their size or mtime changes
+const recordCache = new Map<string, CachedRecord>()
+
+/** A session with everything read for it. */
+interface SessionView {
+  readonly session: OpenCodeSession
+  readonly messages: readonly OpenCodeMessage[]
+  /** Parts of every message, in message order. */
+  readonly parts: readonly OpenCodePart[]
+}
+
+// --- Helper functions ---
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString()
+}
+
+function truncate(text: string): string {
+  return text.length > SPAWN_MAX_TEXT ? `${text.slice(0, SPAWN_MAX_TEXT)}…` : text
+}
+
+function modelTierOf(modelId: string | undefined): ModelTier {
+  if (modelId?.includes('opus')) return 'opus'
+  if (modelId?.includes('haiku')) return 'haiku'
+  return 'sonnet'
+}
+
+function usageOf(message: OpenCodeMessage): TokenUsage {
+  const tokens = message.tokens
+  if (!tokens) return EMPTY_USAGE
+  return {
+    input: tokens.input,
+    output: tokens.output + (tokens.reasoning ?? 0),
+    cacheCreation: tokens.cache?.write ?? 0,
+    cacheRead: tokens.cache?.read ?? 0,
+  }
+}
+
+function errorText(message: OpenCodeMessage): string | null {
+  if (!message.error) return null
+  return message.error.data?.message ?? message.error.name ?? 'Unknown error'
+}
+
+function toolParts(view: SessionView): OpenCodePart[] {
+  return view.parts.filter(p => p.type === 'tool' && p.tool && p.state)
+}
+
+/** Subagent type from a child session title, e.g. "general". */
+function subagentTypeOf(session: OpenCodeSession): string | null {
+  return session.title?.match(SUBAGENT_TITLE)?.[1] ?? null
+}
+
+/**
+ * Agent id for the lead of a root session, distinct from Claude Code's
+ * "lead" so both can share a dashboard: "lead-opencode" for the latest
+ * session, suffixed for concurrent ones.
+ */
+export function openCodeLeadIdFor(sessionId: string, index: number): string {
+  return index === 0 ? 'lead-opencode' : `lead-opencode-${sessionId.slice(-8)}`
+}
+
+function subagentIdOf(session: OpenCodeSession): string {
+  return `${subagentTypeOf(session) ?? 'subagent'}-${session.id.slice(-6)}`
+}
+
+/** The parent's `task` tool call that created a child session. */
+function findSpawnPart(parent: SessionView, child: OpenCodeSession): OpenCodePart | null {
+  const tasks = toolParts(parent).filter(p => p.tool === SPAWN_TOOL)
+  return tasks.find(p => p.state?.metadata?.sessionId === child.id)
+    ?? tasks.find(p => {
+      const description = p.state?.input?.description
+      return typeof description === 'string' && !!child.title?.startsWith(description)
+    })
+    ?? null
+}
+
+function toAgentSpawn(part: OpenCodePart, parentId: string): AgentSpawn {
+  const input = part.state?.input ?? {}
+  const done = part.state?.status === 'completed'
+  return {
+    parentId,
+    toolUseId: part.callID ?? part.id,
+    spawnedAt: part.state?.time?.start ? iso(part.state.time.start) : null,
+    turnId: part.messageID,
+    subagentType: typeof input.subagent_type === 'string' ? input.subagent_type : null,
+    description: typeof input.description === 'string' ? input.description : null,
+    instructions: typeof input.prompt === 'string' ? truncate(input.prompt) : '',
+    result: done && part.state?.output ? truncate(part.state.output) : null,
+    completedAt: done && part.state?.time?.end ? iso(part.state.time.end) : null,
+  }
+}
+
+/**
+ * Status from the latest message and tool calls, falling back to how long
+ * ago the session was updated (as for Claude Code sessions).
+ */
+function deriveStatus(view: SessionView, { child, returned }: { child: boolean; returned: boolean }): AgentStatus {
+  const elapsed = Date.now() - view.session.time.updated
+  const last = view.messages[view.messages.length - 1]
+
+  if (returned) return elapsed < FINISHED_THRESHOLD_MS ? 'finished' : 'idle'
+  if (last?.role === 'assistant' && last.error) return elapsed < STALLED_THRESHOLD_MS ? 'errored' : 'idle'
+
+  const lastParts = last ? view.parts.filter(p => p.messageID === last.id) : []
+  if (lastParts.some(p => p.state?.status === 'pending' || p.state?.status === 'running')) {
+    return elapsed < STALLED_THRESHOLD_MS ? 'waiting-on-tool' : 'idle'
+  }
+  if (last?.role === 'assistant' && last.time.completed) {
+    if (child) return elapsed < FINISHED_THRESHOLD_MS ? 'finished' : 'idle'
+    return elapsed < DONE_THRESHOLD_MS ? 'completed' : 'idle'
+  }
+
+  if (elapsed < ACTIVE_THRESHOLD_MS) return 'working'
+  if (elapsed < DONE_THRESHOLD_MS) return 'completed'
+  return 'idle'
+}
+
+function errorCountOf(view: SessionView): number {
+  return view.messages.filter(m => m.error).length + toolParts(view).filter(p => p.state?.status === 'error').length
+}
+
+/** Recent tool calls as activity events: spawns, failures and ordinary calls. */
+function toolEvents(view: SessionView, agentId: string, agentIdOfSession: ReadonlyMap<string, string>): ActivityEvent[] {
+  return toolParts(view).slice(-TOOL_EVENTS_PER_SESSION).flatMap((part): ActivityEvent[] => {
+    const state = part.state
+    if (!state) return []
+    const timestamp = iso(state.time?.end ?? state.time?.start ?? view.session.time.updated)
+    const base = { timestamp, agentId, sessionId: view.session.id }
+
+    if (part.tool === SPAWN_TOOL) {
+      const childId = typeof state.metadata?.sessionId === 'string' ? agentIdOfSession.get(state.metadata.sessionId) : undefined
+      const description = typeof state.input?.description === 'string' ? `: ${state.input.description}` : ''
+      return [{ ...base, type: 'agent-spawned', summary: `[${agentId}] Spawned ${childId ?? 'a subagent'}${description}` }]
+    }
+    if (state.status === 'error') {
+      const message = (state.error ?? 'failed').split('\n')[0].slice(0, 120)
+      return [{ ...base, type: 'agent-error', summary: `[${agentId}] ${part.tool} failed: ${message}` }]
+    }
+    const title = state.title ? `: ${state.title}` : ''
+    return [{ ...base, type: 'system', summary: `[${agentId}] ${part.tool}${title}` }]
+  })
+}
+
+function messageErrorEvents(view: SessionView, agentId: string): ActivityEvent[] {
+  return view.messages.filter(m => m.error).map(m => ({
+    timestamp: iso(m.time.completed ?? m.time.created),
+    agentId,
+    sessionId: view.session.id,
+    type: 'agent-error',
+    summary: `[${agentId}] API error: ${(errorText(m) ?? '').split('\n')[0].slice(0, 120)}`,
+  }))
+}
+
+async function readJsonFile<T>(filePath: string, schema: z.ZodType<T>): Promise<T | null> {
+  const stat = await fs.stat(filePath).catch(() => null)
+  if (!stat) {
+    recordCache.delete(filePath)
+    return null
+  }
+
+  const cached = recordCache.get(filePath)
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+    return cached.value as T | null
+  }
+
+  try {
+    const parsed = schema.safeParse(JSON.parse(await fs.readFile(filePath, 'utf-8')))
+    const value = parsed.success ? parsed.data : null
+    recordCache.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, value })
+    return value
+  } catch {
+    // Unreadable or half-written: not cached, so the next read tries again
+    return null
+  }
+}
+
+async function readJsonDir<T>(dir: string, schema: z.ZodType<T>): Promise<T[]> {
+  const files = await fs.readdir(dir).catch(() => [] as string[])
+  const results: T[] = []
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue
+    const record = await readJsonFile(path.join(dir, file), schema)
+    if (record) results.push(record)
+  }
+  return results
+}
+
+/** Drop cached storage records so every file is re-parsed. */
+export function resetOpenCodeCache(): void {
+  recordCache.clear()
+}
+
+/**
+ * Whether OpenCode has recorded a project for this directory. Synchronous so
+ * the SSE route can pick an adapter before streaming.
+ */
+export function hasOpenCodeProject(projectDir: string, openCodeHome: string): boolean {
+  const dir = path.join(openCodeHome, 'storage', 'project')
+  try {
+    return readdirSync(dir).some(file => {
+      if (!file.endsWith('.json')) return false
+      const parsed = ProjectSchema.safeParse(JSON.parse(readFileSync(path.join(dir, file), 'utf-8')))
+      return parsed.success && parsed.data.worktree === projectDir
+    })
+  } catch {
+    return false
+  }
+}
+
+// --- OpenCode Adapter ---
+
+/**
+ * Adapter for OpenCode (https://opencode.ai), which keeps one JSON file per record:
+ *   <data>/storage/project/<projectID>.json         ← { id, worktree }
+ *   <data>/storage/session/<projectID>/<id>.json    ← { id, parentID?, title, time }
+ *   <data>/storage/message/<sessionID>/<id>.json    ← { role, modelID, tokens, error?, time }
+ *   <data>/storage/part/<messageID>/<id>.json       ← text and tool parts
+ * Root sessions become leads; child sessions, started by the `task` tool,
+ * become subagents under the session that spawned them.
+ */
+export class OpenCodeAdapter implements DashboardAdapter {
+  readonly name = 'opencode'
+  private readonly projectDir: string
+  private readonly storageDir: string
+
+  constructor(projectDir: string, openCodeHome: string) {
+    this.projectDir = projectDir
+    this.storageDir = path.join(openCodeHome, 'storage')
+  }
+
+  getWatchPaths(): readonly string[] {
+    return [
+      path.join(this.storageDir, 'session', '**', '*.json'),
+      path.join(this.storageDir, 'message', '**', '*.json'),
+      path.join(this.storageDir, 'part', '**', '*.json'),
+    ]
+  }
+
+  async readState(): Promise<DashboardState> {
+    try {
+      const projectId = await this.findProjectId()
+      if (!projectId) return createEmptyState(`No OpenCode project found for ${this.projectDir}`)
+
+      const sessions = await readJsonDir(path.join(this.storageDir, 'session', projectId), SessionSchema)
+      const now = Date.now()
+      const roots = sessions
+        .filter(s => !s.parentID)
+        .sort((a, b) => b.time.updated - a.time.updated)
+        .filter((s, i) => i === 0 || now - s.time.updated < CONCURRENT_SESSION_WINDOW_MS)
+
+      // Leads plus every descendant session, parents before children
+      const shown: OpenCodeSession[] = [...roots]
+      for (let i = 0; i < shown.length; i++) {
+        shown.push(...sessions.filter(s => s.parentID === shown[i].id))
+      }
+
+      const views = new Map<string, SessionView>()
+      for (const session of shown) {
+        views.set(session.id, await this.readSessionView(session))
+      }
+
+      const { agents, activity } = buildAgents(roots, shown, views)
+      const recent = sessions.filter(s => now - s.time.updated < WEEK_MS)
+      const resources = await this.readResources(recent, agents)
+      activity.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+      return {
+        agents,
+        tickets: [],
+        activity,
+        project: {
+          name: path.basename(this.projectDir),
+          phase: 'active',
+          status: 'running',
+          currentMilestone: null,
+          activeAgents: agents.filter(a => isActiveStatus(a.status)).map(a => a.id),
+          ticketsSummary: {
+            total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
+          },
+          startedAt: roots[0] ? iso(roots[0].time.created) : null,
+          lastUpdatedAt: new Date().toISOString(),
+        },
+        resources,
+        messages: [],
+        error: null,
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read OpenCode state'
+      return createEmptyState(message)
+    }
+  }
+
+  private async findProjectId(): Promise<string | null> {
+    const projects = await readJsonDir(path.join(this.storageDir, 'project'), ProjectSchema)
+    return projects.find(p => p.worktree === this.projectDir)?.id ?? null
+  }
+
+  private async readMessages(sessionId: string): Promise<OpenCodeMessage[]> {
+    const messages = await readJsonDir(path.join(this.storageDir, 'message', sessionId), MessageSchema)
+    return messages.sort((a, b) => a.time.created - b.time.created || a.id.localeCompare(b.id))
+  }
+
+  private async readSessionView(session: OpenCodeSession): Promise<SessionView> {
+    const messages = await this.readMessages(session.id)
+    const parts: OpenCodePart[] = []
+    for (const message of messages) {
+      const messageParts = await readJsonDir(path.join(this.storageDir, 'part', message.id), PartSchema)
+      parts.push(...messageParts.sort((a, b) => a.id.localeCompare(b.id)))
+    }
+    return { session, messages, parts }
+  }
+
+  /**
+   * Token usage from the assistant messages of every session updated this
+   * week; cache reads are excluded, as for Claude Code.
+   */
+  private async readResources(sessions: readonly OpenCodeSession[], agents: readonly Agent[]): Promise<ResourceUsage> {
+    const today = new Date().toISOString().slice(0, 10)
+    const weekAgo = Date.now() - WEEK_MS
+    const agentOfSession = new Map(agents.filter(a => a.sessionId).map(a => [a.sessionId as string, a.id]))
+
+    let daily = 0
+    let weekly = 0
+    let model: string | null = null
+    let latest = 0
+    let leadUsage: TokenUsage | null = null
+    let leadModel: string | null = null
+    const breakdown: UsageBreakdownEntry[] = []
+
+    for (const session of sessions) {
+      const messages = (await this.readMessages(session.id)).filter(m => m.role === 'assistant')
+      let sessionDaily = 0
+      let sessionWeekly = 0
+      let tokens = EMPTY_USAGE
+      for (const message of messages) {
+        const usage = usageOf(message)
+        tokens = addUsage(tokens, usage)
+        if (message.time.created >= weekAgo) sessionWeekly += countedTokens(usage)
+        if (iso(message.time.created).slice(0, 10) === today) sessionDaily += countedTokens(usage)
+        if (message.modelID && message.time.created > latest) {
+          latest = message.time.created
+          model = message.modelID
+        }
+      }
+      if (agentOfSession.get(session.id) === openCodeLeadIdFor(session.id, 0) && messages.length > 0) {
+        leadUsage = usageOf(messages[messages.length - 1])
+        leadModel = messages[messages.length - 1].modelID ?? null
+      }
+      if (sessionWeekly === 0) continue
+
+      daily += sessionDaily
+      weekly += sessionWeekly
+      breakdown.push({
+        agentId: agentOfSession.get(session.id) ?? (session.parentID ? subagentIdOf(session) : openCodeLeadIdFor(session.id, 1)),
+        sessionId: session.id,
+        daily: sessionDaily,
+        weekly: sessionWeekly,
+        tokens,
+      })
+    }
+
+    return {
+      daily: { used: daily, limit: TOKEN_LIMITS.daily, resetIn: formatResetTimer(getDailyResetDate()) },
+      weekly: { used: weekly, limit: TOKEN_LIMITS.weekly, resetIn: formatResetTimer(getWeeklyResetDate()) },
+      contextWindow: contextWindowFromUsage(leadUsage, contextWindowSize(leadModel)) ?? { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+      model: model ?? 'unknown',
+      lastUpdated: new Date().toISOString(),
+      breakdown: breakdown.sort((a, b) => b.weekly - a.weekly),
+    }
+  }
+}
+
+/**
+ * One lead per root session and one subagent per child session, with spawn
+ * records from the parent's `task` calls and tool-call activity.
+ */
+function buildAgents(
+  roots: readonly OpenCodeSession[],
+  shown: readonly OpenCodeSession[],
+  views: ReadonlyMap<string, SessionView>,
+): { agents: Agent[]; activity: ActivityEvent[] } {
+  const agentIdOfSession = new Map<string, string>()
+  roots.forEach((root, i) => agentIdOfSession.set(root.id, openCodeLeadIdFor(root.id, i)))
+  for (const session of shown) {
+    if (session.parentID) agentIdOfSession.set(session.id, subagentIdOf(session))
+  }
+
+  const agents: Agent[] = []
+  const activity: ActivityEvent[] = []
+  const now = Date.now()
+
+  shown.forEach((session, i) => {
+    const view = views.get(session.id)
+    const agentId = agentIdOfSession.get(session.id)
+    if (!view || !agentId) return
+
+    const parent = session.parentID ? views.get(session.parentID) : undefined
+    const parentId = session.parentID ? agentIdOfSession.get(session.parentID) ?? null : null
+    const spawnPart = parent ? findSpawnPart(parent, session) : null
+    const spawn = spawnPart && parentId ? toAgentSpawn(spawnPart, parentId) : null
+    const status = deriveStatus(view, { child: !!session.parentID, returned: spawn?.result != null })
+
+    // Quiet child sessions from earlier in the run would only add idle ghosts
+    if (session.parentID && !isActiveStatus(status) && now - session.time.updated > STALE_CUTOFF_MS) return
+
+    const lastAssistant = [...view.messages].reverse().find(m => m.role === 'assistant')
+    const rootIndex = roots.indexOf(session)
+    agents.push({
+      id: agentId,
+      role: session.parentID
+        ? session.title?.replace(SUBAGENT_TITLE, '').trim() || 'Subagent'
+        : rootIndex === 0 ? 'Main Session' : `Main Session ${session.id.slice(-8)}`,
+      modelTier: modelTierOf(lastAssistant?.modelID),
+      status,
+      color: rootIndex === 0 ? 'blue' : AGENT_COLORS[i % AGENT_COLORS.length],
+      ticketsAssigned: 0,
+      ticketsCompleted: 0,
+      currentTicket: null,
+      sessionId: session.id,
+      contextWindow: lastAssistant
+        ? contextWindowFromUsage(usageOf(lastAssistant), contextWindowSize(lastAssistant.modelID ?? null))
+        : null,
+      spawn,
+      parentAgentId: parentId,
+      blockedOn: null,
+      errorCount: errorCountOf(view),
+    })
+
+    activity.push(...toolEvents(view, agentId, agentIdOfSession), ...messageErrorEvents(view, agentId))
+  })
+
+  return { agents, activity }
+}
+
+function createEmptyState(error: string | null): DashboardState {
+  return {
+    agents: [],
+    tickets: [],
+    activity: [],
+    project: {
+      name: 'No Project',
+      phase: '0',
+      status: 'disconnected',
+      currentMilestone: null,
+      activeAgents: [],
+      ticketsSummary: {
+        total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
+      },
+      startedAt: null,
+      lastUpdatedAt: null,
+    },
+    resources: {
+      daily: { used: 0, limit: TOKEN_LIMITS.daily, resetIn: 'N/A' },
+      weekly: { used: 0, limit: TOKEN_LIMITS.weekly, resetIn: 'N/A' },
+      contextWindow: { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+      model: 'unknown',
+      lastUpdated: null,
+      breakdown: [],
+    },
+    messages: [],
+    error,
+  }
+}
+
+const OpenCodeConfigSchema = z
+  .object({ OPENCODE_HOME: z.string().min(1, 'OPENCODE_HOME must not be empty').optional() })
+  .transform(env => ({ openCodeHome: env.OPENCODE_HOME ?? getOpenCodeHome() }))
+
+export const openCodeAdapterRegistration: AdapterRegistration<z.infer<typeof OpenCodeConfigSchema>> = {
+  name: 'opencode',
+  description: 'OpenCode session, message and part storage under OPENCODE_HOME',
+  group: 'opencode',
+  configSchema: OpenCodeConfigSchema,
+  detect: (projectDir, { openCodeHome }) => (hasOpenCodeProject(projectDir, openCodeHome) ? 60 : 0),
+  create: (projectDir, { openCodeHome }) => new OpenCodeAdapter(projectDir, openCodeHome),
+}
@@ -0,0 +1,8 @@
+/**
+ * Third-party adapters. Add a registration here (or import one from a
+ * package) and the registry picks it up alongside the built-ins — no route
+ * changes needed. See README "Adding a New Adapter".
+ */
+import type { AdapterRegistration } from './types'
+
+export const PLUGIN_ADAPTERS: readonly AdapterRegistration[] = []
@@ -0,0 +1,428 @@
+/**
+ * Adapter for the dashboard file protocol: a `.agent-dashboard/` directory any
+ * orchestrator can write (see README "Dashboard file protocol"). Every file is
+ * validated with the zod schemas below; invalid files and lines are skipped
+ * and reported as system events instead of failing the whole read.
+ */
+import { z } from 'zod'
+import fs from 'fs/promises'
+import { existsSync } from 'fs'
+import path from 'path'
+import type {
+  ActivityEvent,
+  Agent,
+  AgentColor,
+  DashboardState,
+  Message,
+  ProjectState,
+  Ticket,
+  TicketStatus,
+  TicketsSummary,
+} from '@/types'
+import type { AdapterRegistration, DashboardAdapter } from './types'
+import {
+  AGENT_COLORS,
+  CONTEXT_WINDOW_MAX,
+  MAX_ACTIVITY_EVENTS,
+  PROTOCOL_MAX_PROBLEMS,
+  PROTOCOL_STALE_AGENT_MS,
+  TOKEN_LIMITS,
+} from '@/lib/constants'
+import { isActiveStatus } from '@/lib/agents'
+
+export const PROTOCOL_DIR = '.agent-dashboard'
+
+// --- Zod schemas for protocol files ---
+
+const TimestampSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'must be an ISO 8601 timestamp')
+
+// Writers in other languages tend to emit snake_case or upper-case enum values
+const normalizedEnum = <U extends string, T extends [U, ...U[]]>(values: T) =>
+  z.preprocess(
+    raw => (typeof raw === 'string' ? raw.trim().toLowerCase().replace(/_/g, '-') : raw),
+    z.enum(values),
+  )
+
+const ProtocolAgentSchema = z.object({
+  id: z.string().min(1),
+  role: z.string().optional(),
+  model: normalizedEnum(['opus', 'sonnet', 'haiku']).optional(),
+  status: normalizedEnum([
+    'working', 'waiting-on-tool', 'blocked-on-user', 'idle', 'errored', 'completed', 'finished',
+  ]),
+  color: z.string().optional(),
+  currentTicket: z.string().nullable().optional(),
+  parentId: z.string().nullable().optional(),
+  sessionId: z.string().nullable().optional(),
+  blockedOn: z.string().nullable().optional(),
+  errorCount: z.number().int().nonnegative().optional(),
+  contextTokens: z.number().nonnegative().optional(),
+  updatedAt: TimestampSchema.optional(),
+})
+
+const AgentsFileSchema = z.object({
+  project: z.object({
+    name: z.string().optional(),
+    phase: z.union([z.string(), z.number()]).optional(),
+    status: z.string().optional(),
+    currentMilestone: z.string().nullable().optional(),
+    startedAt: TimestampSchema.optional(),
+  }).optional(),
+  agents: z.array(ProtocolAgentSchema),
+})
+
+const ProtocolTicketSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  status: z.preprocess(
+    raw => (typeof raw === 'string' && raw.trim().toLowerCase() === 'done' ? 'completed' : raw),
+    normalizedEnum(['pending', 'in-progress', 'completed', 'blocked', 'failed']),
+  ),
+  assignee: z.string().nullable().optional(),
+  milestone: z.string().optional(),
+  priority: normalizedEnum(['critical', 'high', 'medium', 'low']).optional(),
+  dependencies: z.array(z.string()).optional(),
+})
+
+const ProtocolEventSchema = z.object({
+  timestamp: TimestampSchema,
+  type: normalizedEnum([
+    'ticket-started', 'ticket-completed', 'ticket-failed', 'agent-spawned', 'agent-idle',
+    'milestone-started', 'milestone-completed', 'message-sent', 'review-submitted',
+    'file-conflict', 'agent-error', 'commit', 'system',
+  ]),
+  agentId: z.string().nullable().optional(),
+  sessionId: z.string().nullable().optional(),
+  summary: z.string(),
+})
+
+const ProtocolMessageSchema = z.object({
+  timestamp: TimestampSchema,
+  from: z.string(),
+  to: z.string(),
+  content: z.string(),
+  ticketId: z.string().nullable().optional(),
+  urgency: normalizedEnum(['normal', 'high']).optional(),
+})
+
+type AgentsFile = z.infer<typeof AgentsFileSchema>
+type ProtocolAgent = z.infer<typeof ProtocolAgentSchema>
+
+/** A file or line that failed validation, reported in the activity log. */
+interface Problem {
+  readonly file: string
+  readonly message: string
+  /** When the file was last written, so re-reading an unchanged file reports the same event. */
+  readonly modifiedAt: string
+}
+
+interface ProtocolFile {
+  readonly raw: string
+  readonly modifiedAt: string
+}
+
+// --- Helper functions ---
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ')
+}
+
+function parseJson<T>(
+  raw: string,
+  file: string,
+  modifiedAt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  problems: Problem[],
+): T | null {
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch {
+    problems.push({ file, message: 'not valid JSON', modifiedAt })
+    return null
+  }
+  const parsed = schema.safeParse(json)
+  if (!parsed.success) {
+    problems.push({ file, message: describeIssues(parsed.error), modifiedAt })
+    return null
+  }
+  return parsed.data
+}
+
+/** Parse a JSONL file, skipping blank and invalid lines. Only the last `limit` lines are read. */
+function parseJsonLines<T>(
+  { raw, modifiedAt }: ProtocolFile,
+  file: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  limit: number,
+  problems: Problem[],
+): T[] {
+  const lines = raw.split('\n')
+  const offset = Math.max(0, lines.length - limit)
+  const records: T[] = []
+  lines.slice(offset).forEach((line, i) => {
+    if (!line.trim()) return
+    const record = parseJson(line, `${file}:${offset + i + 1}`, modifiedAt, schema, problems)
+    if (record) records.push(record)
+  })
+  return records
+}
+
+async function readProtocolFile(filePath: string): Promise<ProtocolFile | null> {
+  try {
+    const [raw, stat] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)])
+    return { raw, modifiedAt: stat.mtime.toISOString() }
+  } catch {
+    return null
+  }
+}
+
+function colorOf(raw: string | undefined, index: number): AgentColor {
+  const known = AGENT_COLORS.find(c => c === raw)
+  return known ?? AGENT_COLORS[index % AGENT_COLORS.length]
+}
+
+function statusOf(agent: ProtocolAgent, now: number): Agent['status'] {
+  // A writer that crashed never reports its agents as done
+  if (isActiveStatus(agent.status) && agent.updatedAt && now - Date.parse(agent.updatedAt) > PROTOCOL_STALE_AGENT_MS) {
+    return 'completed'
+  }
+  return agent.status
+}
+
+function buildAgents(file: AgentsFile, tickets: readonly Ticket[]): Agent[] {
+  const now = Date.now()
+  return file.agents.map((agent, i) => {
+    const assigned = tickets.filter(t => t.agentId === agent.id)
+    const inProgress = assigned.find(t => t.status === 'in-progress')
+    return {
+      id: agent.id,
+      role: agent.role ?? agent.id,
+      modelTier: agent.model ?? 'sonnet',
+      status: statusOf(agent, now),
+      color: colorOf(agent.color, i),
+      ticketsAssigned: assigned.length,
+      ticketsCompleted: assigned.filter(t => t.status === 'completed').length,
+      currentTicket: agent.currentTicket ?? inProgress?.id ?? null,
+      sessionId: agent.sessionId ?? null,
+      contextWindow: agent.contextTokens === undefined ? null : {
+        used: agent.contextTokens,
+        total: CONTEXT_WINDOW_MAX,
+        percentage: Math.min(100, Math.round((agent.contextTokens / CONTEXT_WINDOW_MAX) * 100)),
+      },
+      spawn: null,
+      parentAgentId: agent.parentId ?? null,
+      blockedOn: agent.blockedOn ?? null,
+      errorCount: agent.errorCount ?? 0,
+    }
+  })
+}
+
+function summarizeTickets(tickets: readonly Ticket[]): TicketsSummary {
+  const count = (status: TicketStatus) => tickets.filter(t => t.status === status).length
+  return {
+    total: tickets.length,
+    completed: count('completed'),
+    inProgress: count('in-progress'),
+    pending: count('pending'),
+    blocked: count('blocked'),
+    failed: count('failed'),
+  }
+}
+
+function problemEvents(problems: readonly Problem[]): ActivityEvent[] {
+  return problems.slice(0, PROTOCOL_MAX_PROBLEMS).map(problem => ({
+    timestamp: problem.modifiedAt,
+    agentId: null,
+    sessionId: null,
+    type: 'system',
+    summary: `Skipped invalid ${PROTOCOL_DIR}/${problem.file}: ${problem.message}`,
+  }))
+}
+
+/** Whether the project has a protocol directory. Synchronous so the SSE route can pick an adapter before streaming. */
+export function hasProtocolDir(projectDir: string): boolean {
+  return existsSync(path.join(projectDir, PROTOCOL_DIR, 'agents.json'))
+}
+
+// --- Protocol Adapter ---
+
+export class ProtocolAdapter implements DashboardAdapter {
+  readonly name = 'protocol'
+  private readonly projectDir: string
+  private readonly protocolDir: string
+
+  constructor(projectDir: string) {
+    this.projectDir = projectDir
+    this.protocolDir = path.join(projectDir, PROTOCOL_DIR)
+  }
+
+  getWatchPaths(): readonly string[] {
+    return [
+      path.join(this.protocolDir, 'agents.json'),
+      path.join(this.protocolDir, 'tickets', '*.json'),
+      path.join(this.protocolDir, 'events.jsonl'),
+      path.join(this.protocolDir, 'messages.jsonl'),
+    ]
+  }
+
+  async readState(): Promise<DashboardState> {
+    try {
+      const problems: Problem[] = []
+      const agentsJson = await readProtocolFile(path.join(this.protocolDir, 'agents.json'))
+      if (agentsJson === null) return createEmptyState(`No ${PROTOCOL_DIR}/agents.json found`)
+
+      const agentsFile = parseJson(agentsJson.raw, 'agents.json', agentsJson.modifiedAt, AgentsFileSchema, problems)
+      if (!agentsFile) {
+        return createEmptyState(`Invalid ${PROTOCOL_DIR}/agents.json: ${problems[0].message}`)
+      }
+
+      const [tickets, activity, messages] = await Promise.all([
+        this.readTickets(problems),
+        this.readEvents(problems),
+        this.readMessages(problems),
+      ])
+      const agents = buildAgents(agentsFile, tickets)
+
+      const allActivity = [...activity, ...problemEvents(problems)]
+      allActivity.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+      return {
+        agents,
+        tickets,
+        activity: allActivity.slice(-MAX_ACTIVITY_EVENTS),
+        project: this.buildProject(agentsFile, agents, tickets, activity),
+        resources: {
+          daily: { used: 0, limit: TOKEN_LIMITS.daily, resetIn: 'N/A' },
+          weekly: { used: 0, limit: TOKEN_LIMITS.weekly, resetIn: 'N/A' },
+          contextWindow: agents.find(a => a.contextWindow)?.contextWindow
+            ?? { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+          model: 'unknown',
+          lastUpdated: new Date().toISOString(),
+          breakdown: [],
+        },
+        messages,
+        error: null,
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read dashboard protocol files'
+      return createEmptyState(message)
+    }
+  }
+
+  private async readTickets(problems: Problem[]): Promise<Ticket[]> {
+    const ticketsDir = path.join(this.protocolDir, 'tickets')
+    const files = (await fs.readdir(ticketsDir).catch(() => [] as string[]))
+      .filter(file => file.endsWith('.json'))
+      .sort()
+
+    const tickets: Ticket[] = []
+    for (const file of files) {
+      const json = await readProtocolFile(path.join(ticketsDir, file))
+      if (json === null) continue
+      const ticket = parseJson(json.raw, `tickets/${file}`, json.modifiedAt, ProtocolTicketSchema, problems)
+      if (!ticket) continue
+      tickets.push({
+        id: ticket.id,
+        title: ticket.title,
+        agentId: ticket.assignee ?? null,
+        milestone: ticket.milestone ?? '',
+        status: ticket.status,
+        priority: ticket.priority ?? 'medium',
+        dependencies: ticket.dependencies ?? [],
+        commits: [],
+        reviews: [],
+      })
+    }
+    return tickets
+  }
+
+  private async readEvents(problems: Problem[]): Promise<ActivityEvent[]> {
+    const events = await readProtocolFile(path.join(this.protocolDir, 'events.jsonl'))
+    if (events === null) return []
+    return parseJsonLines(events, 'events.jsonl', ProtocolEventSchema, MAX_ACTIVITY_EVENTS, problems).map(event => ({
+      timestamp: event.timestamp,
+      agentId: event.agentId ?? null,
+      sessionId: event.sessionId ?? null,
+      type: event.type,
+      summary: event.summary,
+    }))
+  }
+
+  private async readMessages(problems: Problem[]): Promise<Message[]> {
+    const messages = await readProtocolFile(path.join(this.protocolDir, 'messages.jsonl'))
+    if (messages === null) return []
+    return parseJsonLines(messages, 'messages.jsonl', ProtocolMessageSchema, MAX_ACTIVITY_EVENTS, problems).map(message => ({
+      timestamp: message.timestamp,
+      from: message.from,
+      to: message.to,
+      ticketId: message.ticketId ?? null,
+      content: message.content,
+      urgency: message.urgency ?? 'normal',
+    }))
+  }
+
+  private buildProject(
+    file: AgentsFile,
+    agents: readonly Agent[],
+    tickets: readonly Ticket[],
+    activity: readonly ActivityEvent[],
+  ): ProjectState {
+    const activeAgents = agents.filter(a => isActiveStatus(a.status)).map(a => a.id)
+    const inProgress = tickets.find(t => t.status === 'in-progress' && t.milestone)
+    return {
+      name: file.project?.name ?? path.basename(this.projectDir),
+      phase: String(file.project?.phase ?? 'active'),
+      status: file.project?.status ?? (activeAgents.length > 0 ? 'running' : 'idle'),
+      currentMilestone: file.project?.currentMilestone ?? inProgress?.milestone ?? null,
+      activeAgents,
+      ticketsSummary: summarizeTickets(tickets),
+      startedAt: file.project?.startedAt ?? activity[0]?.timestamp ?? null,
+      lastUpdatedAt: activity.at(-1)?.timestamp ?? null,
+    }
+  }
+}
+
+function createEmptyState(error: string | null): DashboardState {
+  return {
+    agents: [],
+    tickets: [],
+    activity: [],
+    project: {
+      name: 'No Project',
+      phase: '0',
+      status: 'disconnected',
+      currentMilestone: null,
+      activeAgents: [],
+      ticketsSummary: {
+        total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
+      },
+      startedAt: null,
+      lastUpdatedAt: null,
+    },
+    resources: {
+      daily: { used: 0, limit: TOKEN_LIMITS.daily, resetIn: 'N/A' },
+      weekly: { used: 0, limit: TOKEN_LIMITS.weekly, resetIn: 'N/A' },
+      contextWindow: { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+      model: 'unknown',
+      lastUpdated: null,
+      breakdown: [],
+    },
+    messages: [],
+    error,
+  }
+}
+
+// The protocol directory lives in the project itself, so there is nothing to configure
+const ProtocolConfigSchema = z.object({})
+
+export const protocolAdapterRegistration: AdapterRegistration<z.infer<typeof ProtocolConfigSchema>> = {
+  name: 'protocol',
+  description: `Dashboard file protocol: ${PROTOCOL_DIR}/agents.json, tickets/*.json, events.jsonl and messages.jsonl`,
+  group: 'protocol',
+  configSchema: ProtocolConfigSchema,
+  detect: projectDir => (hasProtocolDir(projectDir) ? 90 : 0),
+  create: projectDir => new ProtocolAdapter(projectDir),
+}
@@ -0,0 +1,113 @@
+/**
+ * Adapter registry: every adapter registers how to detect and build itself,
+ * and `createAdapter` picks the best match per group for a project directory
+ * (see README "Adapter auto-detection").
+ */
+import type { AdapterRegistration, DashboardAdapter } from './types'
+import { taktAdapterRegistration } from './takt'
+import { claudeCodeAdapterRegistration } from './claude-code'
+import { agentTeamsAdapterRegistration } from './agent-teams'
+import { openCodeAdapterRegistration } from './opencode'
+import { codexAdapterRegistration } from './codex'
+import { protocolAdapterRegistration } from './protocol'
+import { ReplayAdapter, replayAdapterRegistration } from './replay'
+import { CompositeAdapter } from './composite'
+import { GitHistoryAdapter, isGitRepo } from './git'
+import { PLUGIN_ADAPTERS } from './plugins'
+
+type Env = Readonly<Record<string, string | undefined>>
+
+/** Used when nothing is detected, so a fresh project still gets a (empty) dashboard. */
+const FALLBACK_ADAPTER = 'claude-code'
+
+const registrations = new Map<string, AdapterRegistration>()
+
+/** Register an adapter. A registration with the same name replaces the earlier one. */
+export function registerAdapter<Config>(registration: AdapterRegistration<Config>): void {
+  registrations.set(registration.name, registration as AdapterRegistration)
+}
+
+export function listAdapters(): AdapterRegistration[] {
+  return [...registrations.values()]
+}
+
+function parseConfig(registration: AdapterRegistration, env: Env): unknown {
+  const result = registration.configSchema.safeParse(env)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => issue.message).join('; ')
+    throw new Error(`Invalid configuration for adapter "${registration.name}": ${issues}`)
+  }
+  return result.data
+}
+
+function build(registration: AdapterRegistration, projectDir: string, env: Env): DashboardAdapter {
+  return registration.create(projectDir, parseConfig(registration, env))
+}
+
+/**
+ * Combine the chosen adapters and add the project's git history on top. A
+ * replay already carries the commits it recorded, so it is left as is.
+ */
+function merge(adapters: DashboardAdapter[], projectDir: string): DashboardAdapter {
+  const adapter = adapters.length === 1 ? adapters[0] : new CompositeAdapter(adapters)
+  if (adapters.some(a => a instanceof ReplayAdapter) || !isGitRepo(projectDir)) return adapter
+  return new GitHistoryAdapter(adapter, projectDir)
+}
+
+/** Detection score for a project, or 0 when the adapter's config is invalid. */
+export function scoreAdapter(registration: AdapterRegistration, projectDir: string, env: Env = process.env): number {
+  const result = registration.configSchema.safeParse(env)
+  if (!result.success) return 0
+  try {
+    return registration.detect(projectDir, result.data)
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Build the adapter for a project. DASHBOARD_ADAPTER names one adapter, or a
+ * comma-separated list to merge; otherwise the highest-scoring adapter of each
+ * group is used. Throws for unknown names or invalid configuration.
+ */
+export function createAdapter(projectDir: string, env: Env = process.env): DashboardAdapter {
+  const override = env.DASHBOARD_ADAPTER?.split(',').map(name => name.trim()).filter(Boolean) ?? []
+  if (override.length > 0) {
+    return merge(override.map(name => {
+      const registration = registrations.get(name)
+      if (!registration) {
+        throw new Error(`Unknown DASHBOARD_ADAPTER "${name}". Registered adapters: ${[...registrations.keys()].join(', ')}`)
+      }
+      return build(registration, projectDir, env)
+    }), projectDir)
+  }
+
+  const bestByGroup = new Map<string, { registration: AdapterRegistration; score: number }>()
+  for (const registration of registrations.values()) {
+    const score = scoreAdapter(registration, projectDir, env)
+    if (score <= 0) continue
+    const best = bestByGroup.get(registration.group)
+    if (!best || score > best.score) bestByGroup.set(registration.group, { registration, score })
+  }
+
+  const matches = [...bestByGroup.values()].sort((a, b) => b.score - a.score)
+  if (matches.length === 0) {
+    const fallback = registrations.get(FALLBACK_ADAPTER)
+    if (!fallback) throw new Error('No adapter detected for project and no fallback adapter registered')
+    return merge([build(fallback, projectDir, env)], projectDir)
+  }
+  return merge(matches.map(({ registration }) => build(registration, projectDir, env)), projectDir)
+}
+
+for (const registration of [
+  taktAdapterRegistration,
+  agentTeamsAdapterRegistration,
+  claudeCodeAdapterRegistration,
+  openCodeAdapterRegistration,
+  codexAdapterRegistration,
+  protocolAdapterRegistration,
+  replayAdapterRegistration,
+  ...PLUGIN_ADAPTERS,
+]) {
+  registerAdapter(registration)
+}
@@ -0,0 +1,254 @@
+/**
+ * Plays a run recorded by FileWatcher (see lib/recorder.ts) back as if it were
+ * live: `readState` returns the state at the current playback position, and
+ * subscribers are notified whenever playback reaches the next frame.
+ */
+import { z } from 'zod'
+import fs from 'fs/promises'
+import type { DashboardState, ReplayStatus } from '@/types'
+import type { AdapterRegistration, DashboardAdapter } from './types'
+import { applyFrame, parseRecording, type RecordedFrame } from '@/lib/recorder'
+import { CONTEXT_WINDOW_MAX, REPLAY_SPEEDS, TOKEN_LIMITS } from '@/lib/constants'
+
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number]
+
+export function isReplaySpeed(value: number): value is ReplaySpeed {
+  return (REPLAY_SPEEDS as readonly number[]).includes(value)
+}
+
+/** Playback control sent to /api/replay. */
+export const ReplayCommandSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('play') }),
+  z.object({ action: z.literal('pause') }),
+  z.object({ action: z.literal('seek'), positionMs: z.number().nonnegative() }),
+  z.object({
+    action: z.literal('speed'),
+    speed: z.number().refine(isReplaySpeed, `speed must be one of ${REPLAY_SPEEDS.join(', ')}`),
+  }),
+])
+
+export type ReplayCommand = z.infer<typeof ReplayCommandSchema>
+
+/** Index of the last frame recorded at or before `offsetMs`, or -1 before the first. */
+function frameIndexAt(offsets: readonly number[], offsetMs: number): number {
+  let low = 0
+  let high = offsets.length - 1
+  let found = -1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (offsets[mid] <= offsetMs) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found
+}
+
+export class ReplayAdapter implements DashboardAdapter {
+  readonly name = 'replay'
+  private readonly filePath: string
+  private frames: RecordedFrame[] | null = null
+  /** Milliseconds from the first frame to each frame. */
+  private offsets: number[] = []
+  private speed: ReplaySpeed
+  private paused = false
+  /** Playback position when playback last (re)started, and the wall-clock time it did. */
+  private anchorPositionMs = 0
+  private anchorWallMs = Date.now()
+  /** Last reconstructed frame, so playing forward applies only the new diffs. */
+  private cached: { index: number; state: DashboardState } | null = null
+  private readonly listeners = new Set<() => void>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(filePath: string, speed: ReplaySpeed = 1) {
+    this.filePath = filePath
+    this.speed = speed
+  }
+
+  getWatchPaths(): readonly string[] {
+    // Frames are served from memory on a timer, not from file changes
+    return []
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    // A missing or unreadable recording is reported by readState
+    void this.load().then(() => this.schedule()).catch(() => undefined)
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) this.clearTimer()
+    }
+  }
+
+  async readState(): Promise<DashboardState> {
+    try {
+      const frames = await this.load()
+      if (frames.length === 0) return createEmptyState(`Recording ${this.filePath} has no frames`)
+      return this.stateAt(Math.max(0, frameIndexAt(this.offsets, this.positionMs())))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read recording'
+      return createEmptyState(message)
+    }
+  }
+
+  async getStatus(): Promise<ReplayStatus> {
+    const frames = await this.load().catch(() => [])
+    return {
+      file: this.filePath,
+      recordedFrom: frames[0]?.t ?? null,
+      recordedTo: frames.at(-1)?.t ?? null,
+      durationMs: this.durationMs(),
+      positionMs: this.positionMs(),
+      speed: this.speed,
+      paused: this.paused,
+      frames: frames.length,
+    }
+  }
+
+  play(): void {
+    if (!this.paused) return
+    // Playing from the end starts over
+    const position = this.positionMs() >= this.durationMs() ? 0 : this.positionMs()
+    this.paused = false
+    this.moveTo(position)
+  }
+
+  pause(): void {
+    if (this.paused) return
+    const position = this.positionMs()
+    this.paused = true
+    this.moveTo(position)
+  }
+
+  seek(positionMs: number): void {
+    this.moveTo(Math.min(Math.max(0, positionMs), this.durationMs()))
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    const position = this.positionMs()
+    this.speed = speed
+    this.moveTo(position)
+  }
+
+  apply(command: ReplayCommand): void {
+    switch (command.action) {
+      case 'play': return this.play()
+      case 'pause': return this.pause()
+      case 'seek': return this.seek(command.positionMs)
+      case 'speed': return this.setSpeed(command.speed as ReplaySpeed)
+    }
+  }
+
+  private async load(): Promise<RecordedFrame[]> {
+    if (this.frames) return this.frames
+    const frames = parseRecording(await fs.readFile(this.filePath, 'utf-8'))
+    const start = frames.length > 0 ? Date.parse(frames[0].t) : 0
+    this.offsets = frames.map(frame => Date.parse(frame.t) - start)
+    this.frames = frames
+    this.anchorWallMs = Date.now()
+    return frames
+  }
+
+  private durationMs(): number {
+    return this.offsets.at(-1) ?? 0
+  }
+
+  private positionMs(): number {
+    if (this.paused) return this.anchorPositionMs
+    const position = this.anchorPositionMs + (Date.now() - this.anchorWallMs) * this.speed
+    return Math.min(position, this.durationMs())
+  }
+
+  private moveTo(positionMs: number): void {
+    this.anchorPositionMs = positionMs
+    this.anchorWallMs = Date.now()
+    this.notify()
+    this.schedule()
+  }
+
+  private stateAt(index: number): DashboardState {
+    const frames = this.frames ?? []
+    // Rebuild from the nearest keyframe unless we can continue from the cached frame
+    let start = index
+    while (start > 0 && !frames[start].state) start--
+    let state: DashboardState | null = null
+    if (this.cached && this.cached.index <= index && this.cached.index >= start) {
+      start = this.cached.index + 1
+      state = this.cached.state
+    }
+    for (let i = start; i <= index; i++) state = applyFrame(state, frames[i])
+    if (!state) throw new Error(`Recording ${this.filePath} has no frame at position ${index}`)
+    this.cached = { index, state }
+    return state
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener()
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  /** Wake up when playback reaches the next frame. */
+  private schedule(): void {
+    this.clearTimer()
+    if (this.paused || this.listeners.size === 0) return
+    const next = this.offsets[frameIndexAt(this.offsets, this.positionMs()) + 1]
+    if (next === undefined) return
+    this.timer = setTimeout(() => {
+      this.notify()
+      this.schedule()
+    }, Math.max(0, (next - this.positionMs()) / this.speed))
+  }
+}
+
+function createEmptyState(error: string | null): DashboardState {
+  return {
+    agents: [],
+    tickets: [],
+    activity: [],
+    project: {
+      name: 'Replay',
+      phase: '0',
+      status: 'disconnected',
+      currentMilestone: null,
+      activeAgents: [],
+      ticketsSummary: {
+        total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0,
+      },
+      startedAt: null,
+      lastUpdatedAt: null,
+    },
+    resources: {
+      daily: { used: 0, limit: TOKEN_LIMITS.daily, resetIn: 'N/A' },
+      weekly: { used: 0, limit: TOKEN_LIMITS.weekly, resetIn: 'N/A' },
+      contextWindow: { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+      model: 'unknown',
+      lastUpdated: null,
+      breakdown: [],
+    },
+    messages: [],
+    error,
+  }
+}
+
+const ReplayConfigSchema = z.object({
+  DASHBOARD_REPLAY_FILE: z.string({ required_error: 'DASHBOARD_REPLAY_FILE must name a recorded run file' }).min(1),
+  DASHBOARD_REPLAY_SPEED: z.coerce.number()
+    .refine(isReplaySpeed, `DASHBOARD_REPLAY_SPEED must be one of ${REPLAY_SPEEDS.join(', ')}`)
+    .default(1),
+}).transform(env => ({ replayFile: env.DASHBOARD_REPLAY_FILE, speed: env.DASHBOARD_REPLAY_SPEED as ReplaySpeed }))
+
+export const replayAdapterRegistration: AdapterRegistration<z.infer<typeof ReplayConfigSchema>> = {
+  name: 'replay',
+  description: 'Plays back a run recorded with DASHBOARD_RECORD_DIR',
+  group: 'replay',
+  configSchema: ReplayConfigSchema,
+  // Never auto-detected: only used with DASHBOARD_ADAPTER=replay
+  detect: () => 0,
+  create: (_projectDir, { replayFile, speed }) => new ReplayAdapter(replayFile, speed),
+}
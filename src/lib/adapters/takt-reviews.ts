@@ -0,0 +1,235 @@
+/**
+ * Takt review files under `.takt/reviews/` (any depth), in markdown or JSON
+ * (see README "Takt reviews"), parsed into `Review`s that are attached to
+ * their tickets and shown as review-submitted activity.
+ */
+import { z } from 'zod'
+import fs from 'fs/promises'
+import path from 'path'
+import type {
+  ActivityEvent,
+  Review,
+  ReviewFinding,
+  ReviewFindingSeverity,
+  ReviewVerdict,
+  Ticket,
+} from '@/types'
+
+const TICKET_ID_PATTERN = /\b(?:M\d+-)?T\d+\b/i
+
+const JsonReviewSchema = z.object({
+  ticketId: z.string().optional(),
+  ticket: z.string().optional(),
+  reviewer: z.string().optional(),
+  verdict: z.string(),
+  summary: z.string().optional(),
+  submittedAt: z.string().optional(),
+  findings: z.array(z.union([
+    z.string(),
+    z.object({
+      severity: z.string().optional(),
+      file: z.string().optional(),
+      line: z.number().int().optional(),
+      message: z.string(),
+    }),
+  ])).default([]),
+})
+
+// --- Helper functions ---
+
+export function parseVerdict(raw: string): ReviewVerdict {
+  const normalized = raw.toLowerCase().replace(/[\s_-]+/g, ' ').trim()
+  if (/^(approved?|pass(ed)?|lgtm|accept(ed)?)\b/.test(normalized)) return 'approved'
+  if (/^(changes? requested|request(ed)? changes|needs? (work|changes)|revise)\b/.test(normalized)) return 'changes-requested'
+  if (/^(reject(ed)?|fail(ed)?)\b/.test(normalized)) return 'rejected'
+  return 'commented'
+}
+
+function parseSeverity(raw: string | undefined): ReviewFindingSeverity {
+  const normalized = raw?.toLowerCase().trim()
+  if (normalized === 'blocker' || normalized === 'critical') return 'blocker'
+  if (normalized === 'major' || normalized === 'high') return 'major'
+  if (normalized === 'nit' || normalized === 'nitpick') return 'nit'
+  return 'minor'
+}
+
+/** "- [major] src/a.py:42 — message", with the severity and location both optional. */
+function parseFindingLine(text: string): ReviewFinding {
+  const severityMatch = text.match(/^\[([^\]]+)\]\s*/)
+  const rest = severityMatch ? text.slice(severityMatch[0].length) : text
+  const locationMatch = rest.match(/^`?([\w./-]+\.\w+)(?::(\d+))?`?\s*(?:[—–:-]\s*)?(.+)$/)
+  return {
+    severity: parseSeverity(severityMatch?.[1]),
+    file: locationMatch ? locationMatch[1] : null,
+    line: locationMatch?.[2] ? Number(locationMatch[2]) : null,
+    message: (locationMatch ? locationMatch[3] : rest).trim(),
+  }
+}
+
+function extractField(content: string, field: string): string | null {
+  const match = content.match(new RegExp(`\\*\\*${field}(?::\\*\\*|\\*\\*:)\\s*(.+)`, 'i'))
+  return match ? match[1].trim() : null
+}
+
+/** Body of a "## Heading" section, up to the next heading of the same level. */
+function extractSection(content: string, heading: RegExp): string | null {
+  const sections = content.split(/^(?=## )/m)
+  const section = sections.find(s => heading.test(s.split('\n')[0]))
+  if (!section) return null
+  const body = section.split('\n').slice(1).join('\n').trim()
+  return body || null
+}
+
+function timestampOf(raw: string | null | undefined, fallback: Date): string {
+  // Date-only values (2026-02-12) lose the time of day, so prefer the file mtime
+  if (raw && raw.includes('T') && !Number.isNaN(Date.parse(raw))) return new Date(raw).toISOString()
+  return fallback.toISOString()
+}
+
+function ticketIdFrom(...candidates: (string | null | undefined)[]): string | null {
+  for (const candidate of candidates) {
+    const match = candidate?.match(TICKET_ID_PATTERN)
+    if (match) return match[0].toUpperCase()
+  }
+  return null
+}
+
+export function parseReviewMarkdown(content: string, id: string, mtime: Date): Review | null {
+  const title = content.match(/^#\s+(.+)/m)?.[1].trim() ?? null
+  const ticketId = ticketIdFrom(extractField(content, 'Ticket'), title, id)
+  const verdict = extractField(content, 'Verdict') ?? extractField(content, 'Status')
+  if (!ticketId || !verdict) return null
+
+  const findingsBody = extractSection(content, /^## (Findings|Issues|Comments)\b/i) ?? ''
+  const findings = findingsBody
+    .split('\n')
+    .map(line => line.match(/^\s*[-*]\s+(.+)/)?.[1])
+    .filter((line): line is string => Boolean(line))
+    .map(parseFindingLine)
+
+  return {
+    id,
+    ticketId,
+    reviewer: extractField(content, 'Reviewer') ?? extractField(content, 'Agent'),
+    verdict: parseVerdict(verdict),
+    submittedAt: timestampOf(extractField(content, 'Date') ?? extractField(content, 'Submitted'), mtime),
+    summary: extractSection(content, /^## (Summary|Verdict|Notes)\b/i),
+    findings,
+  }
+}
+
+export function parseReviewJson(raw: string, id: string, mtime: Date): Review | null {
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch {
+    return null
+  }
+  const parsed = JsonReviewSchema.safeParse(json)
+  if (!parsed.success) return null
+  const review = parsed.data
+  const ticketId = ticketIdFrom(review.ticketId, review.ticket, id)
+  if (!ticketId) return null
+
+  return {
+    id,
+    ticketId,
+    reviewer: review.reviewer ?? null,
+    verdict: parseVerdict(review.verdict),
+    submittedAt: timestampOf(review.submittedAt, mtime),
+    summary: review.summary ?? null,
+    findings: review.findings.map(finding => (typeof finding === 'string'
+      ? parseFindingLine(finding)
+      : {
+        severity: parseSeverity(finding.severity),
+        file: finding.file ?? null,
+        line: finding.line ?? null,
+        message: finding.message,
+      })),
+  }
+}
+
+/** Every review under `reviewsDir`, oldest first. */
+export async function readTaktReviews(reviewsDir: string): Promise<Review[]> {
+  const files = await fs.readdir(reviewsDir, { recursive: true }).catch(() => [] as string[])
+  const reviews: Review[] = []
+  for (const file of files) {
+    const ext = path.extname(file)
+    if (ext !== '.md' && ext !== '.json') continue
+    const filePath = path.join(reviewsDir, file)
+    const [content, stat] = await Promise.all([
+      fs.readFile(filePath, 'utf-8').catch(() => null),
+      fs.stat(filePath).catch(() => null),
+    ])
+    if (!content || !stat) continue
+    const id = file.slice(0, -ext.length)
+    const review = ext === '.md' ? parseReviewMarkdown(content, id, stat.mtime) : parseReviewJson(content, id, stat.mtime)
+    if (review) reviews.push(review)
+  }
+  return reviews.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt))
+}
+
+const MILESTONE_PREFIX = /^M\d+-/i
+const MILESTONE_KEY = /^(M\d+)\b/i
+
+/**
+ * Review ids name the milestone ("M2-T01") when ticket files may not ("T01").
+ * Ticket numbers restart in each milestone, so two prefixed ids must match exactly.
+ */
+function sameTicket(reviewTicketId: string, ticketId: string): boolean {
+  if (reviewTicketId.toUpperCase() === ticketId.toUpperCase()) return true
+  if (MILESTONE_PREFIX.test(reviewTicketId) && MILESTONE_PREFIX.test(ticketId)) return false
+  const bare = (id: string) => id.toUpperCase().replace(MILESTONE_PREFIX, '')
+  return bare(reviewTicketId) === bare(ticketId)
+}
+
+function milestoneKey(...candidates: string[]): string | null {
+  for (const candidate of candidates) {
+    const match = candidate.match(MILESTONE_KEY)
+    if (match) return match[1].toUpperCase()
+  }
+  return null
+}
+
+/** "M2" from the review's ticket id or from the milestone directory it sits in ("M2/T01-review.md"). */
+function reviewMilestone(review: Review): string | null {
+  return milestoneKey(review.ticketId, ...review.id.split(/[\\/]/).slice(0, -1))
+}
+
+/** Tickets a review belongs to: a bare "T01" matches every milestone's T01 unless the review names its milestone. */
+function ticketsFor(review: Review, tickets: readonly Ticket[]): Ticket[] {
+  const matches = tickets.filter(ticket => sameTicket(review.ticketId, ticket.id))
+  const milestone = reviewMilestone(review)
+  if (!milestone) return matches
+  const inMilestone = matches.filter(ticket => milestoneKey(ticket.id, ticket.milestone) === milestone)
+  return inMilestone.length > 0 ? inMilestone : matches
+}
+
+export function attachReviews(tickets: readonly Ticket[], reviews: readonly Review[]): Ticket[] {
+  const byTicket = new Map<Ticket, Review[]>()
+  for (const review of reviews) {
+    for (const ticket of ticketsFor(review, tickets)) {
+      byTicket.set(ticket, [...(byTicket.get(ticket) ?? []), review])
+    }
+  }
+  return tickets.map(ticket => ({ ...ticket, reviews: byTicket.get(ticket) ?? [] }))
+}
+
+const VERDICT_SUMMARIES: Record<ReviewVerdict, string> = {
+  'approved': 'Approved',
+  'changes-requested': 'Requested changes on',
+  'rejected': 'Rejected',
+  'commented': 'Reviewed',
+}
+
+export function reviewActivityEvent(review: Review): ActivityEvent {
+  const findings = review.findings.length
+  const suffix = findings > 0 ? ` (${findings} finding${findings === 1 ? '' : 's'})` : ''
+  return {
+    timestamp: review.submittedAt,
+    agentId: review.reviewer,
+    sessionId: null,
+    type: 'review-submitted',
+    summary: `[${review.reviewer ?? 'unknown'}] ${VERDICT_SUMMARIES[review.verdict]} ${review.ticketId}${suffix}`,
+  }
+}
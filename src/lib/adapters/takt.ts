@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import fs from 'fs/promises'
+import { existsSync } from 'fs'
 import path from 'path'
 import type {
   Agent,
@@ -14,10 +15,21 @@ import type {
   ProjectState,
   Message,
 } from '@/types'
-import type { DashboardAdapter } from './types'
+import type { AdapterRegistration, DashboardAdapter } from './types'
+import { ClaudeHomeConfigSchema, type ClaudeHomeConfig } from './claude-code'
 import { AGENT_COLORS } from '@/lib/constants'
 import { readClaudeStats } from '@/lib/claude-stats'
-import { readSessionSnapshot, type SessionSnapshot } from '@/lib/session-reader'
+import {
+  readSessionSnapshot,
+  agentSpawnFor,
+  errorActivityEvents,
+  parentAgentIdFor,
+  subagentActivityEvent,
+  type SessionSnapshot,
+} from '@/lib/session-reader'
+import { isActiveStatus, leadIdFor, spawnActivityEvent } from '@/lib/agents'
+import { collectFileActivity, editConflictEvents } from '@/lib/file-activity'
+import { attachReviews, readTaktReviews, reviewActivityEvent } from './takt-reviews'
 
 // --- Zod schemas for Takt JSON files ---
 
@@ -209,32 +221,34 @@ export class TaktAdapter implements DashboardAdapter {
     }
 
     try {
-      const [agents, rawTickets, session, taktState, resources, activity, messages, sessionSnap] =
+      const [agents, rawTickets, session, taktState, activity, messages, sessionSnap, reviews] =
         await Promise.all([
           this.readAgents(),
           this.readTickets(),
           this.readSession(),
           this.readTaktState(),
-          readClaudeStats(this.claudeHome),
           this.readActivity(),
           this.readMessages(),
           readSessionSnapshot(this.claudeHome, this.projectDir),
+          readTaktReviews(path.join(this.taktDir, 'reviews')),
         ])
+      const resources = await readClaudeStats(this.claudeHome, this.projectDir)
 
       // Override ticket statuses using milestone completion data
       const milestoneCompletions = taktState?.milestoneCompletions ?? {}
-      const tickets = applyMilestoneCompletions(rawTickets, milestoneCompletions)
+      const tickets = attachReviews(applyMilestoneCompletions(rawTickets, milestoneCompletions), reviews)
 
       // Derive agent status from session activity (JSONL file times), with ticket fallback
       const agentsWithStatus = deriveAgentStatusesFromSession(agents, tickets, sessionSnap)
 
-      // Add lead/orchestrator agent
-      const leadAgent = buildLeadAgent(taktState, agentsWithStatus, sessionSnap)
-      const allAgents = [leadAgent, ...agentsWithStatus]
+      // Add lead/orchestrator agent, plus one per concurrently running main session
+      const leadAgents = buildLeadAgents(taktState, agentsWithStatus, sessionSnap)
+      const allAgents = [...leadAgents, ...agentsWithStatus]
 
       // Add lead + subagent session-based activity events
       const sessionActivity = buildSessionActivityEvents(sessionSnap, agentsWithStatus)
-      const allActivity = [...activity, ...sessionActivity]
+      const conflicts = editConflictEvents(collectFileActivity(sessionSnap, this.projectDir))
+      const allActivity = [...activity, ...sessionActivity, ...conflicts, ...reviews.map(reviewActivityEvent)]
       allActivity.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
 
       const project = buildProjectState(session, taktState, allAgents)
@@ -274,6 +288,11 @@ export class TaktAdapter implements DashboardAdapter {
         ticketsCompleted: a.ticketsCompleted ?? 0,
         currentTicket: null,
         sessionId: null,
+        contextWindow: null,
+        spawn: null,
+        parentAgentId: null,
+        blockedOn: null,
+        errorCount: 0,
       }))
     }
 
@@ -290,6 +309,11 @@ export class TaktAdapter implements DashboardAdapter {
         ticketsCompleted: 0,
         currentTicket: null,
         sessionId: null,
+        contextWindow: null,
+        spawn: null,
+        parentAgentId: null,
+        blockedOn: null,
+        errorCount: 0,
       }))
     }
 
@@ -340,6 +364,8 @@ export class TaktAdapter implements DashboardAdapter {
                 status: parseTicketStatus((t.status as string) ?? milestoneStatus),
                 priority: parseTicketPriority((t.priority as string) ?? 'medium'),
                 dependencies: Array.isArray(t.dependencies) ? t.dependencies as string[] : [],
+                commits: [],
+                reviews: [],
               })
             }
           } catch {
@@ -575,6 +601,8 @@ function parseTicketMarkdown(content: string, milestone: string): Ticket {
     status: parseTicketStatus(extractField(content, 'Status') ?? 'pending'),
     priority: parseTicketPriority(extractField(content, 'Priority') ?? 'medium'),
     dependencies: extractDependencies(content),
+    commits: [],
+    reviews: [],
   }
 }
 
@@ -649,10 +677,25 @@ function deriveAgentStatusesFromSession(
       sessionId: matchedSession
         ? path.basename(matchedSession.sessionFile, '.jsonl')
         : agent.sessionId,
+      contextWindow: matchedSession?.contextWindow ?? agent.contextWindow,
+      spawn: matchedSession ? agentSpawnFor(sessionSnap, matchedSession) : agent.spawn,
+      parentAgentId: matchedSession ? parentAgentIdFor(sessionSnap, matchedSession) : agent.parentAgentId,
+      blockedOn: matchedSession?.blockedOn ?? null,
+      errorCount: matchedSession?.errorCount ?? agent.errorCount,
     }
   })
 }
 
+const LEAD_STATUS_LABELS: Record<AgentStatus, string> = {
+  'working': 'actively orchestrating',
+  'waiting-on-tool': 'waiting on a tool',
+  'blocked-on-user': 'waiting for you',
+  'idle': 'idle',
+  'errored': 'stopped on an error',
+  'completed': 'recently finished',
+  'finished': 'finished',
+}
+
 /**
  * Build activity events from session snapshot data (lead + subagent sessions).
  * This gives visibility into the lead orchestrator's ongoing activity
@@ -664,22 +707,21 @@ function buildSessionActivityEvents(
 ): ActivityEvent[] {
   const events: ActivityEvent[] = []
 
-  // Lead agent activity from main session
-  if (sessionSnap.mainSession) {
-    const main = sessionSnap.mainSession
-    const statusLabel = main.activity === 'working'
-      ? 'actively orchestrating'
-      : main.activity === 'completed'
-        ? 'recently finished'
-        : 'idle'
+  // Lead agent activity from each main session
+  sessionSnap.mainSessions.forEach((main, i) => {
+    const leadId = leadIdFor(main.sessionId, i)
+    const statusLabel = main.activity === 'blocked-on-user'
+      ? `waiting for you to ${main.blockedOn ?? 'respond'}`
+      : LEAD_STATUS_LABELS[main.activity]
     events.push({
       timestamp: main.lastModified.toISOString(),
-      agentId: 'lead',
+      agentId: leadId,
       sessionId: main.sessionId,
-      type: main.activity === 'working' ? 'agent-spawned' : 'agent-idle',
-      summary: `[lead] Lead is ${statusLabel}`,
+      type: main.activity === 'blocked-on-user' ? 'system' : isActiveStatus(main.activity) ? 'agent-spawned' : 'agent-idle',
+      summary: `[${leadId}] Lead is ${statusLabel}`,
     })
-  }
+    events.push(...errorActivityEvents(main, leadId, main.sessionId))
+  })
 
   // Subagent session activity (only for agents with recent session files)
   for (const sub of sessionSnap.subagents) {
@@ -687,37 +729,48 @@ function buildSessionActivityEvents(
     const matchedAgent = agents.find(a => a.id === agentName || a.id === sub.agentId)
     if (!matchedAgent) continue
 
-    // Build a rich summary with task + current action
-    let summary: string
-    if (sub.activity === 'working') {
-      const taskPart = sub.currentTask ? ` on ${sub.currentTask}` : ''
-      const actionPart = sub.lastAction ? ` — ${sub.lastAction}` : ''
-      summary = `[${agentName}] Working${taskPart}${actionPart}`
-    } else if (sub.activity === 'completed') {
-      const taskPart = sub.currentTask ? `: ${sub.currentTask}` : ''
-      summary = `[${agentName}] Just finished${taskPart}`
-    } else {
-      summary = `[${agentName}] Idle`
-    }
+    // Rich summary with task + current action
+    events.push(subagentActivityEvent(sub, agentName))
+    events.push(...errorActivityEvents(sub, agentName, path.basename(sub.sessionFile, '.jsonl')))
 
-    events.push({
-      timestamp: sub.lastModified.toISOString(),
-      agentId: agentName,
-      sessionId: path.basename(sub.sessionFile, '.jsonl'),
-      type: sub.activity === 'working' ? 'ticket-started' : sub.activity === 'completed' ? 'ticket-completed' : 'agent-idle',
-      summary,
-    })
+    const spawn = agentSpawnFor(sessionSnap, sub)
+    const spawnEvent = spawn && spawnActivityEvent(agentName, path.basename(sub.sessionFile, '.jsonl'), spawn)
+    if (spawnEvent) events.push(spawnEvent)
   }
 
   return events
 }
 
+/**
+ * The orchestrator lead, plus an extra lead for every other main session
+ * running concurrently (e.g. a second terminal or teammate on the same repo).
+ */
+function buildLeadAgents(
+  taktState: TaktStateResult | null,
+  subagents: Agent[],
+  sessionSnap: SessionSnapshot,
+): Agent[] {
+  const primary = buildLeadAgent(taktState, subagents, sessionSnap)
+  const others = sessionSnap.mainSessions.slice(1).map((main, i): Agent => ({
+    ...primary,
+    id: leadIdFor(main.sessionId, i + 1),
+    role: `Orchestrator (session ${main.sessionId.slice(0, 8)})`,
+    status: main.activity,
+    color: assignColor(i + 1),
+    sessionId: main.sessionId,
+    contextWindow: main.contextWindow,
+    blockedOn: main.blockedOn,
+    errorCount: main.errorCount,
+  }))
+  return [primary, ...others]
+}
+
 function buildLeadAgent(
   taktState: TaktStateResult | null,
   subagents: Agent[],
   sessionSnap: SessionSnapshot,
 ): Agent {
-  // Primary: derive lead status from main session JSONL modification time
+  // Primary: the lead status derived from the main session JSONL content
   const mainActivity = sessionSnap.mainSession?.activity
   let status: AgentStatus
 
@@ -727,7 +780,7 @@ function buildLeadAgent(
     // Fallback: derive from Takt state + subagent statuses
     const isExecuting = taktState?.phase === 'executing' ||
       taktState?.status === 'executing'
-    const hasActiveSubagents = subagents.some(a => a.status === 'working')
+    const hasActiveSubagents = subagents.some(a => isActiveStatus(a.status))
     const allDone = taktState?.status === 'milestone-complete' ||
       taktState?.status === 'completed'
 
@@ -746,6 +799,11 @@ function buildLeadAgent(
     ticketsCompleted: 0,
     currentTicket: null,
     sessionId: sessionSnap.mainSession?.sessionId ?? 'main',
+    contextWindow: sessionSnap.mainSession?.contextWindow ?? null,
+    spawn: null,
+    parentAgentId: null,
+    blockedOn: sessionSnap.mainSession?.blockedOn ?? null,
+    errorCount: sessionSnap.mainSession?.errorCount ?? 0,
   }
 }
 
@@ -754,7 +812,7 @@ function buildProjectState(
   taktState: TaktStateResult | null,
   agents: Agent[],
 ): ProjectState {
-  const activeIds = agents.filter(a => a.status === 'working').map(a => a.id)
+  const activeIds = agents.filter(a => isActiveStatus(a.status)).map(a => a.id)
 
   return {
     name: session?.projectName ?? 'Unknown Project',
@@ -801,8 +859,19 @@ function createEmptyState(error: string | null): DashboardState {
       contextWindow: { used: 0, total: 200_000, percentage: 0 },
       model: 'unknown',
       lastUpdated: null,
+      breakdown: [],
     },
     messages: [],
     error,
   }
 }
+
+export const taktAdapterRegistration: AdapterRegistration<ClaudeHomeConfig> = {
+  name: 'takt',
+  description: 'Takt-orchestrated projects: .takt/ registry, state, tickets and comms plus Claude Code sessions',
+  group: 'claude-code',
+  configSchema: ClaudeHomeConfigSchema,
+  // A .takt/ directory is specific to Takt, so it beats every generic session reader
+  detect: projectDir => (existsSync(path.join(projectDir, '.takt')) ? 100 : 0),
+  create: (projectDir, { claudeHome }) => new TaktAdapter(projectDir, claudeHome),
+}
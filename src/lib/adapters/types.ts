@@ -1,7 +1,33 @@
+import type { z } from 'zod'
 import type { DashboardState } from '@/types'
 
 export interface DashboardAdapter {
   readonly name: string
   readState(): Promise<DashboardState>
   getWatchPaths(): readonly string[]
+  /**
+   * For adapters whose state changes without any watched file changing (e.g.
+   * replay): call `listener` whenever `readState` would return something new.
+   * Returns an unsubscribe function.
+   */
+  subscribe?(listener: () => void): () => void
+}
+
+/**
+ * How the registry finds and builds an adapter. `config` is parsed from the
+ * environment with `configSchema` before `detect` or `create` sees it.
+ */
+export interface AdapterRegistration<Config = unknown> {
+  /** Matches the adapter's `name`; also the value for DASHBOARD_ADAPTER. */
+  readonly name: string
+  readonly description: string
+  /**
+   * Adapters reading the same underlying data share a group; only the best
+   * match of each group is used, and matches from different groups are merged.
+   */
+  readonly group: string
+  readonly configSchema: z.ZodType<Config, z.ZodTypeDef, unknown>
+  /** Confidence that this adapter can read the project: 0 for no, higher wins. Synchronous. */
+  detect(projectDir: string, config: Config): number
+  create(projectDir: string, config: Config): DashboardAdapter
 }
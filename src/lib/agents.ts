@@ -0,0 +1,102 @@
+import type { ActivityEvent, Agent, AgentSpawn, AgentStatus } from '@/types'
+
+/**
+ * Agent id for the lead of a main session, by its index in start order. The
+ * earliest started session keeps the plain "lead" id; concurrent sessions get
+ * a session-suffixed one.
+ */
+export function leadIdFor(sessionId: string, index: number): string {
+  return index === 0 ? 'lead' : `lead-${sessionId.slice(0, 8)}`
+}
+
+/** Statuses of an agent that is still mid-task: generating, running a tool, or waiting on the user. */
+export function isActiveStatus(status: AgentStatus): boolean {
+  return status === 'working' || status === 'waiting-on-tool' || status === 'blocked-on-user'
+}
+
+/** Statuses of an agent that is done, whether known from content or inferred from quiet time. */
+export function isDoneStatus(status: AgentStatus): boolean {
+  return status === 'completed' || status === 'finished'
+}
+
+/** Activity event for a lead's Task call, dated when the subagent was spawned. */
+export function spawnActivityEvent(agentId: string, sessionId: string, spawn: AgentSpawn): ActivityEvent | null {
+  if (!spawn.spawnedAt) return null
+  const what = spawn.description ? `: ${spawn.description}` : ''
+  return {
+    timestamp: spawn.spawnedAt,
+    agentId: spawn.parentId,
+    sessionId,
+    type: 'agent-spawned',
+    summary: `[${spawn.parentId}] Spawned ${agentId}${what}`,
+  }
+}
+
+export interface AgentHierarchy {
+  readonly roots: readonly Agent[]
+  /** Parent agent id → the agents it spawned, oldest spawn first. */
+  readonly childrenOf: ReadonlyMap<string, readonly Agent[]>
+}
+
+/** Whether following parents up from an agent leads back to it. */
+function inParentCycle(agent: Agent, byId: ReadonlyMap<string, Agent>): boolean {
+  const seen = new Set<string>()
+  let current: Agent | undefined = agent
+  while (current?.parentAgentId && !seen.has(current.id)) {
+    seen.add(current.id)
+    if (current.parentAgentId === agent.id) return true
+    current = byId.get(current.parentAgentId)
+  }
+  return false
+}
+
+/**
+ * Group agents under the agent that spawned them. Agents whose parent is
+ * unknown or not on the dashboard become roots, as does any agent caught in
+ * a parent cycle.
+ */
+export function groupByParent(agents: readonly Agent[]): AgentHierarchy {
+  const byId = new Map(agents.map(a => [a.id, a]))
+  const childrenOf = new Map<string, Agent[]>()
+  const roots: Agent[] = []
+
+  for (const agent of agents) {
+    const parentId = agent.parentAgentId
+    if (parentId && byId.has(parentId) && !inParentCycle(agent, byId)) {
+      childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), agent])
+    } else {
+      roots.push(agent)
+    }
+  }
+  for (const children of childrenOf.values()) {
+    children.sort((a, b) => (a.spawn?.spawnedAt ?? '').localeCompare(b.spawn?.spawnedAt ?? ''))
+  }
+
+  return { roots, childrenOf }
+}
+
+/** Agents in depth-first spawn order, each with how many levels it sits below its root. */
+export function flattenHierarchy(agents: readonly Agent[]): Array<{ agent: Agent; depth: number }> {
+  const { roots, childrenOf } = groupByParent(agents)
+  const result: Array<{ agent: Agent; depth: number }> = []
+  const visited = new Set<string>()
+
+  const visit = (agent: Agent, depth: number) => {
+    if (visited.has(agent.id)) return
+    visited.add(agent.id)
+    result.push({ agent, depth })
+    for (const child of childrenOf.get(agent.id) ?? []) visit(child, depth + 1)
+  }
+  roots.forEach(root => visit(root, 0))
+  return result
+}
+
+// Suffixed lead ids: "lead-<session hex>" and "lead-opencode[-<session tail>]"
+const SESSION_LEAD_ID = /^lead-(?:[0-9a-f]{8}|opencode(?:-[0-9a-z]{8})?)$/i
+
+export function isLeadAgent(agent: Pick<Agent, 'id'>): boolean {
+  return agent.id === 'lead' ||
+    SESSION_LEAD_ID.test(agent.id) ||
+    agent.id === 'main' ||
+    agent.id === 'orchestrator'
+}
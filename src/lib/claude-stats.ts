@@ -1,9 +1,19 @@
 import fs from 'fs/promises'
 import path from 'path'
 import { z } from 'zod'
-import type { ResourceUsage } from '@/types'
+import type { ContextWindow, ResourceUsage, TokenUsage, UsageBreakdownEntry } from '@/types'
 import { TOKEN_LIMITS, CONTEXT_WINDOW_MAX } from '@/lib/constants'
 import { formatResetTimer, getDailyResetDate, getWeeklyResetDate } from '@/lib/format'
+import { leadIdFor } from '@/lib/agents'
+import {
+  listSessionFiles,
+  contextWindowFromUsage,
+  contextWindowSize,
+  leadIdsOf,
+  readModelSetting,
+  type SessionFileEntry,
+} from '@/lib/session-reader'
+import { readSessionFile, addUsage, countedTokens, EMPTY_USAGE } from '@/lib/session-tail'
 
 const DailyActivitySchema = z.object({
   date: z.string(),
@@ -81,45 +91,187 @@ function findDominantModel(tokensByModel: Record<string, number>): string {
   return maxModel
 }
 
-function estimateContextFromActivity(
-  dailyActivity: Array<{ date: string; messageCount: number }>,
-): number {
+/** The parts of a session file's facts that usage needs. */
+interface FileUsage {
+  readonly file: SessionFileEntry
+  readonly lastModified: Date
+  readonly startedAt: string | null
+  readonly usageByDate: Readonly<Record<string, TokenUsage>>
+  readonly lastUsage: TokenUsage | null
+  readonly model: string | null
+  readonly agentName: string | null
+  readonly agentId: string | null
+}
+
+interface CachedUsage {
+  readonly size: number
+  readonly mtimeMs: number
+  readonly usage: FileUsage | null
+}
+
+// Session files are re-parsed for usage only when their size or mtime changes
+const usageCache = new Map<string, CachedUsage>()
+
+interface SessionUsageSummary {
+  readonly daily: number
+  readonly weekly: number
+  readonly model: string | null
+  /** Context of the main session shown as the plain "lead". */
+  readonly leadContext: ContextWindow | null
+  readonly breakdown: UsageBreakdownEntry[]
+}
+
+/**
+ * Usage facts of one session file, or null if it is unreadable or untouched
+ * for a week (it cannot contain usage inside the window). Files are read
+ * once rather than tailed, so no cursor is kept for files nobody watches.
+ */
+async function readFileUsage(file: SessionFileEntry, weekAgo: number): Promise<FileUsage | null> {
+  const stat = await fs.stat(file.filePath).catch(() => null)
+  if (!stat || stat.mtimeMs < weekAgo) {
+    usageCache.delete(file.filePath)
+    return null
+  }
+
+  const cached = usageCache.get(file.filePath)
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) return cached.usage
+
+  const tail = await readSessionFile(file.filePath)
+  const usage = tail && {
+    file,
+    lastModified: tail.lastModified,
+    startedAt: tail.facts.firstTimestamp,
+    usageByDate: tail.facts.usageByDate,
+    lastUsage: tail.facts.lastUsage,
+    model: tail.facts.model,
+    agentName: tail.facts.agentName,
+    agentId: tail.facts.agentId,
+  }
+  usageCache.set(file.filePath, { size: stat.size, mtimeMs: stat.mtimeMs, usage })
+  return usage
+}
+
+export function resetUsageCache(): void {
+  usageCache.clear()
+}
+
+/**
+ * Sum assistant `usage` blocks from every session file of the project that was
+ * written to in the last week. Main sessions are attributed to their lead's
+ * agent id, subagent files to the agent name from their prompt.
+ */
+async function readSessionUsage(claudeHome: string, projectDir: string): Promise<SessionUsageSummary> {
+  const files = await listSessionFiles(claudeHome, projectDir)
+  const modelSetting = await readModelSetting(claudeHome, projectDir)
   const today = getTodayDateString()
-  const todayActivity = dailyActivity.find(a => a.date === today)
-  if (!todayActivity) return 0
+  const weekDates = getRecentDates(7)
+  const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000
+
+  const fileUsages: FileUsage[] = []
+  for (const file of files) {
+    const usage = await readFileUsage(file, weekAgo)
+    if (usage) fileUsages.push(usage)
+  }
+  const leadIds = leadIdsOf(fileUsages
+    .filter(u => !u.file.isSubagent)
+    .map(u => ({ sessionId: u.file.sessionId, lastModified: u.lastModified, startedAt: u.startedAt })))
 
-  // Rough estimate: ~500 tokens per message on average
-  const estimated = todayActivity.messageCount * 500
-  return Math.min(estimated, CONTEXT_WINDOW_MAX)
+  let daily = 0
+  let weekly = 0
+  let model: string | null = null
+  let latestModified = 0
+  let leadContext: ContextWindow | null = null
+  const breakdown: UsageBreakdownEntry[] = []
+
+  for (const fileUsage of fileUsages) {
+    const { file } = fileUsage
+    let fileDaily = 0
+    let fileWeekly = 0
+    let tokens = EMPTY_USAGE
+    for (const [date, usage] of Object.entries(fileUsage.usageByDate)) {
+      tokens = addUsage(tokens, usage)
+      if (weekDates.has(date)) fileWeekly += countedTokens(usage)
+      if (date === today) fileDaily += countedTokens(usage)
+    }
+    if (!file.isSubagent && leadIds.get(file.sessionId) === leadIdFor(file.sessionId, 0)) {
+      leadContext = contextWindowFromUsage(fileUsage.lastUsage, contextWindowSize(fileUsage.model, modelSetting))
+    }
+    if (fileWeekly === 0) continue
+
+    daily += fileDaily
+    weekly += fileWeekly
+    if (fileUsage.model && fileUsage.lastModified.getTime() > latestModified) {
+      latestModified = fileUsage.lastModified.getTime()
+      model = fileUsage.model
+    }
+
+    breakdown.push({
+      agentId: file.isSubagent
+        ? fileUsage.agentName ?? fileUsage.agentId ?? file.sessionId
+        // Sessions no longer running rank after the live leads, so they keep a suffixed id
+        : leadIds.get(file.sessionId) ?? leadIdFor(file.sessionId, leadIds.size),
+      sessionId: file.sessionId,
+      daily: fileDaily,
+      weekly: fileWeekly,
+      tokens,
+    })
+  }
+
+  breakdown.sort((a, b) => b.weekly - a.weekly)
+  return { daily, weekly, model, leadContext, breakdown }
+}
+
+async function readStatsCache(statsPath: string): Promise<z.infer<typeof StatsCacheSchema> | null> {
+  try {
+    const raw = await fs.readFile(statsPath, 'utf-8')
+    return StatsCacheSchema.parse(JSON.parse(raw))
+  } catch {
+    return null
+  }
 }
 
-export async function readClaudeStats(claudeHome: string): Promise<ResourceUsage> {
+/**
+ * Token usage for a project. Daily/weekly totals come from the `usage` blocks
+ * in the project's session JSONL files; stats-cache.json (which Claude Code
+ * computes lazily and may lag by a day) is only used when no session has usage.
+ * Session files are parsed once and cached by size and mtime, independent of
+ * the tail cursors readSessionSnapshot keeps.
+ */
+export async function readClaudeStats(claudeHome: string, projectDir: string): Promise<ResourceUsage> {
   const statsPath = path.join(claudeHome, 'stats-cache.json')
 
   try {
-    const raw = await fs.readFile(statsPath, 'utf-8')
-    const parsed = StatsCacheSchema.parse(JSON.parse(raw))
+    const [sessionUsage, parsed] = await Promise.all([
+      readSessionUsage(claudeHome, projectDir),
+      readStatsCache(statsPath),
+    ])
 
-    const tokenEntries = parsed.dailyModelTokens ?? []
-    const dailyActivity = parsed.dailyActivity ?? []
+    const tokenEntries = parsed?.dailyModelTokens ?? []
 
-    const today = getTodayDateString()
-    const todayDates = new Set([today])
-    const weekDates = getRecentDates(7)
+    let dailyUsed: number
+    let weeklyUsed: number
+    let model: string
 
-    let dailyUsed = sumTokensForDates(tokenEntries, todayDates)
+    if (sessionUsage.breakdown.length > 0) {
+      dailyUsed = sessionUsage.daily
+      weeklyUsed = sessionUsage.weekly
+      model = sessionUsage.model ?? detectModel(tokenEntries)
+    } else {
+      if (!parsed) throw new Error('No usage data')
 
-    // If no data for today, use the most recent date's data
-    // (stats-cache.json is computed by Claude Code and may lag behind)
-    const lastComputedDate = parsed.lastComputedDate
-    if (dailyUsed === 0 && lastComputedDate && lastComputedDate !== today) {
-      dailyUsed = sumTokensForDates(tokenEntries, new Set([lastComputedDate]))
-    }
+      const today = getTodayDateString()
+      dailyUsed = sumTokensForDates(tokenEntries, new Set([today]))
 
-    const weeklyUsed = sumTokensForDates(tokenEntries, weekDates)
+      // If no data for today, use the most recent date's data
+      // (stats-cache.json is computed by Claude Code and may lag behind)
+      const lastComputedDate = parsed.lastComputedDate
+      if (dailyUsed === 0 && lastComputedDate && lastComputedDate !== today) {
+        dailyUsed = sumTokensForDates(tokenEntries, new Set([lastComputedDate]))
+      }
 
-    const model = detectModel(tokenEntries)
-    const contextUsed = estimateContextFromActivity(dailyActivity)
+      weeklyUsed = sumTokensForDates(tokenEntries, getRecentDates(7))
+      model = detectModel(tokenEntries)
+    }
 
     const dailyReset = getDailyResetDate()
     const weeklyReset = getWeeklyResetDate()
@@ -135,13 +287,10 @@ export async function readClaudeStats(claudeHome: string): Promise<ResourceUsage
         limit: TOKEN_LIMITS.weekly,
         resetIn: formatResetTimer(weeklyReset),
       },
-      contextWindow: {
-        used: contextUsed,
-        total: CONTEXT_WINDOW_MAX,
-        percentage: Math.round((contextUsed / CONTEXT_WINDOW_MAX) * 100),
-      },
+      contextWindow: sessionUsage.leadContext ?? { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
       model,
       lastUpdated: new Date().toISOString(),
+      breakdown: sessionUsage.breakdown,
     }
   } catch {
     return {
@@ -150,6 +299,7 @@ export async function readClaudeStats(claudeHome: string): Promise<ResourceUsage
       contextWindow: { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
       model: 'unknown',
       lastUpdated: null,
+      breakdown: [],
     }
   }
 }
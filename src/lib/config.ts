@@ -0,0 +1,90 @@
+/**
+ * Server-side configuration read from the environment (see README "Configuration").
+ */
+import path from 'path'
+
+/** A monitored project: URL-safe id plus the directory it lives in. */
+export interface ProjectConfig {
+  readonly id: string
+  readonly dir: string
+}
+
+/** Project directory to monitor. */
+export function getProjectDir(): string {
+  return process.env.TAKT_PROJECT_DIR ?? process.cwd()
+}
+
+/** Lowercase letters, digits, "_" and "-" only, so ids fit in URLs and recording file names. */
+function toProjectId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'project'
+}
+
+function projectIdFor(dir: string): string {
+  return toProjectId(path.basename(dir))
+}
+
+/**
+ * Projects to monitor, from DASHBOARD_PROJECTS: comma-separated directories,
+ * each optionally prefixed with "<id>=". Ids default to the directory name;
+ * explicit ones are normalized the same way.
+ * Without it, the single TAKT_PROJECT_DIR project.
+ */
+export function getProjects(): ProjectConfig[] {
+  const entries = (process.env.DASHBOARD_PROJECTS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  if (entries.length === 0) {
+    const dir = getProjectDir()
+    return [{ id: projectIdFor(dir), dir }]
+  }
+
+  const projects: ProjectConfig[] = []
+  for (const entry of entries) {
+    const separator = entry.indexOf('=')
+    const dir = separator >= 0 ? entry.slice(separator + 1).trim() : entry
+    const base = separator >= 0 ? toProjectId(entry.slice(0, separator).trim()) : projectIdFor(dir)
+    // Two directories with the same name get "-2", "-3" suffixes
+    let id = base
+    for (let n = 2; projects.some(p => p.id === id); n++) id = `${base}-${n}`
+    projects.push({ id, dir })
+  }
+  return projects
+}
+
+/** The project with this id, or the first configured project when no id is given. */
+export function findProject(id: string | null): ProjectConfig | null {
+  const projects = getProjects()
+  return id === null ? projects[0] : projects.find(p => p.id === id) ?? null
+}
+
+/** The project named by a request's ?project=<id>, the first project without one, or null for an unknown id. */
+export function projectFromRequest(request: Request): ProjectConfig | null {
+  return findProject(new URL(request.url).searchParams.get('project'))
+}
+
+/** Claude home directory holding projects/ and stats-cache.json. */
+export function getClaudeHome(): string {
+  return process.env.CLAUDE_HOME ?? `${process.env.HOME}/.claude`
+}
+
+/** OpenCode data directory holding storage/ (default: $XDG_DATA_HOME/opencode). */
+export function getOpenCodeHome(): string {
+  if (process.env.OPENCODE_HOME) return process.env.OPENCODE_HOME
+  const dataHome = process.env.XDG_DATA_HOME ?? `${process.env.HOME}/.local/share`
+  return `${dataHome}/opencode`
+}
+
+/** Codex CLI home directory holding sessions/ (default: ~/.codex). */
+export function getCodexHome(): string {
+  return process.env.CODEX_HOME ?? `${process.env.HOME}/.codex`
+}
+
+/** Directory that FileWatcher records every emitted state to, or null when recording is off. */
+export function getRecordDir(): string | null {
+  return process.env.DASHBOARD_RECORD_DIR || null
+}
+
+export function useMockData(): boolean {
+  return process.env.USE_MOCK_DATA === 'true'
+}
@@ -20,6 +20,9 @@ export const TOKEN_LIMITS = {
 
 export const CONTEXT_WINDOW_MAX = 200_000
 
+/** Window of models running with the 1M-token context beta. */
+export const CONTEXT_WINDOW_EXTENDED = 1_000_000
+
 export const USAGE_THRESHOLDS = {
   warning: 0.8,
   danger: 0.95,
@@ -33,5 +36,38 @@ export const MAX_ACTIVITY_EVENTS = 500
 
 export const STALE_DATA_THRESHOLD_MS = 60_000
 
+/** Two agents' latest edits to a file this close together count as an edit conflict. */
+export const EDIT_CONFLICT_WINDOW_MS = 10 * 60 * 1000
+
 /** How often the watcher re-evaluates state even without file changes (for time-based status transitions). */
 export const PERIODIC_REEVAL_MS = 15_000
+
+/** Longest text kept per transcript turn; large tool results are truncated beyond this. */
+export const TRANSCRIPT_MAX_TEXT = 20_000
+
+/** Longest spawn prompt or final result kept per Task call in the spawn tree. */
+export const SPAWN_MAX_TEXT = 4_000
+
+/** How long a status pushed by a Claude Code hook overrides the one derived from session files. */
+export const HOOK_STATUS_TTL_MS = 2 * 60 * 1000
+
+/** Hook-derived activity events kept in memory for the activity log. */
+export const HOOK_EVENT_HISTORY = 100
+
+/** A protocol agent still reported as active after this long without an `updatedAt` bump is shown as completed. */
+export const PROTOCOL_STALE_AGENT_MS = 10 * 60 * 1000
+
+/** Invalid protocol files or lines reported per read, as system events in the activity log. */
+export const PROTOCOL_MAX_PROBLEMS = 20
+
+/** Playback speeds offered when replaying a recorded run. */
+export const REPLAY_SPEEDS = [1, 10, 60] as const
+
+/** Every this many frames a recording stores the full state instead of a diff, so seeking stays cheap. */
+export const RECORDING_KEYFRAME_INTERVAL = 100
+
+/** Most recent commits read from the project's git log for ticket and agent correlation. */
+export const GIT_LOG_MAX_COMMITS = 200
+
+/** A commit this long after an agent's last activity still counts as inside its session window. */
+export const COMMIT_SESSION_SLACK_MS = 2 * 60 * 1000
@@ -0,0 +1,94 @@
+/**
+ * Cross-agent file index built from the Read / Edit / Write calls in each
+ * active session, plus edit-conflict detection between agents working at
+ * the same time.
+ */
+import path from 'path'
+import type { ActivityEvent, FileActivity, FileTouch } from '@/types'
+import {
+  readSessionSnapshot,
+  type AgentSession,
+  type MainSession,
+  type SessionSnapshot,
+} from '@/lib/session-reader'
+import { isActiveStatus, leadIdFor } from '@/lib/agents'
+import { EDIT_CONFLICT_WINDOW_MS } from '@/lib/constants'
+
+function displayPath(filePath: string, projectDir: string): string {
+  const relative = path.relative(projectDir, filePath)
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath
+}
+
+/**
+ * Touches of currently active agents whose latest edit or write to the file
+ * falls within the conflict window of another such agent's. Edits hours apart
+ * are taking turns, not a concurrent edit.
+ */
+function conflictingEditors(touches: readonly FileTouch[]): FileTouch[] {
+  const editors = touches.filter(t => t.edits + t.writes > 0 && t.lastEditedAt && isActiveStatus(t.agentStatus))
+  const editedAt = (t: FileTouch) => Date.parse(t.lastEditedAt ?? '')
+  return editors.filter(t => editors.some(other =>
+    other.agentId !== t.agentId && Math.abs(editedAt(other) - editedAt(t)) <= EDIT_CONFLICT_WINDOW_MS,
+  ))
+}
+
+/**
+ * Index every file touched by the snapshot's leads and subagents.
+ * Conflicts first, then files touched by the most agents.
+ */
+export function collectFileActivity(snapshot: SessionSnapshot, projectDir: string): FileActivity[] {
+  const byPath = new Map<string, FileTouch[]>()
+
+  const add = (agentId: string, sessionId: string, session: AgentSession | MainSession) => {
+    for (const [filePath, counts] of Object.entries(session.files)) {
+      const key = displayPath(filePath, projectDir)
+      const touches = byPath.get(key) ?? []
+      touches.push({ agentId, sessionId, agentStatus: session.activity, ...counts })
+      byPath.set(key, touches)
+    }
+  }
+
+  snapshot.mainSessions.forEach((main, i) => add(leadIdFor(main.sessionId, i), main.sessionId, main))
+  for (const sub of snapshot.subagents) {
+    add(sub.agentName ?? sub.agentId, path.basename(sub.sessionFile, '.jsonl'), sub)
+  }
+
+  const files = [...byPath.entries()].map(([filePath, touches]): FileActivity => ({
+    path: filePath,
+    touches: [...touches].sort((a, b) => (b.lastTouchedAt ?? '').localeCompare(a.lastTouchedAt ?? '')),
+    conflict: conflictingEditors(touches).length > 0,
+  }))
+
+  return files.sort((a, b) =>
+    Number(b.conflict) - Number(a.conflict) ||
+    b.touches.length - a.touches.length ||
+    a.path.localeCompare(b.path),
+  )
+}
+
+/** One warning event per file that concurrently working agents are both editing. */
+export function editConflictEvents(files: readonly FileActivity[]): ActivityEvent[] {
+  return files.filter(f => f.conflict).map(file => {
+    const editors = conflictingEditors(file.touches)
+    const latest = editors.reduce<string | null>(
+      (max, t) => (t.lastEditedAt && (!max || t.lastEditedAt > max) ? t.lastEditedAt : max),
+      null,
+    )
+    return {
+      timestamp: latest ?? new Date().toISOString(),
+      agentId: null,
+      sessionId: null,
+      type: 'file-conflict',
+      summary: `Edit conflict: ${editors.map(t => t.agentId).join(' and ')} are both editing ${file.path}`,
+    }
+  })
+}
+
+/**
+ * File index for the project's active sessions. Safe to call while the watcher
+ * reads the same files: tails of one file are queued, so no edit counts twice.
+ */
+export async function readFileActivity(claudeHome: string, projectDir: string): Promise<FileActivity[]> {
+  const snapshot = await readSessionSnapshot(claudeHome, projectDir)
+  return collectFileActivity(snapshot, projectDir)
+}
@@ -51,6 +51,15 @@ export function formatTimestamp(isoString: string): string {
   return `${monthDay} ${time}`
 }
 
+export function formatDuration(ms: number): string {
+  if (ms < 1_000) return `${ms}ms`
+  const seconds = Math.round(ms / 1_000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
 export function truncateSessionId(sessionId: string, maxLength = 20): string {
   if (sessionId.length <= maxLength) return sessionId
   return `${sessionId.slice(0, maxLength)}...`
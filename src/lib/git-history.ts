@@ -0,0 +1,244 @@
+/**
+ * Correlates the project's local git log with the dashboard: commits are
+ * matched to tickets by the ticket ids in their messages, and to agents by an
+ * `Agent:` trailer, the author name, or the agent's session time window.
+ */
+import { execFile } from 'child_process'
+import { readFileSync, statSync } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { promisify } from 'util'
+import type { ActivityEvent, Agent, CommitAgentMatch, DashboardState, GitCommit, Ticket } from '@/types'
+import { COMMIT_SESSION_SLACK_MS, GIT_LOG_MAX_COMMITS, MAX_ACTIVITY_EVENTS } from '@/lib/constants'
+import { isActiveStatus } from '@/lib/agents'
+
+const execFileAsync = promisify(execFile)
+
+// Unit and record separators keep multi-line bodies intact
+const FIELD = '\x1f'
+const RECORD = '\x1e'
+const LOG_FORMAT = ['%H', '%aI', '%an', '%ae', '%B'].join('%x1f') + '%x1e'
+
+/** Trailers naming the agent that made a commit, most specific first. */
+const AGENT_TRAILERS = ['agent', 'takt-agent', 'co-authored-by']
+
+/** One commit as read from `git log`, before correlation. */
+export interface GitLogEntry {
+  readonly sha: string
+  readonly timestamp: string
+  readonly author: string
+  readonly email: string
+  readonly subject: string
+  /** Trailer values by lower-cased key, from the message's last paragraph. */
+  readonly trailers: Readonly<Record<string, readonly string[]>>
+  readonly message: string
+}
+
+/** The time span an agent was working, for attributing commits without a trailer. */
+export interface AgentWindow {
+  readonly agentId: string
+  readonly start: number
+  readonly end: number
+}
+
+function parseTrailers(message: string): Record<string, string[]> {
+  const paragraphs = message.trim().split(/\n\s*\n/)
+  if (paragraphs.length < 2) return {}
+  const trailers: Record<string, string[]> = {}
+  for (const line of paragraphs[paragraphs.length - 1].split('\n')) {
+    const match = line.match(/^([A-Za-z][A-Za-z0-9-]*):\s*(.+)$/)
+    if (!match) continue
+    const key = match[1].toLowerCase()
+    trailers[key] = [...(trailers[key] ?? []), match[2].trim()]
+  }
+  return trailers
+}
+
+/** Parse `git log` output written with LOG_FORMAT. */
+export function parseGitLog(raw: string): GitLogEntry[] {
+  return raw.split(RECORD).flatMap(record => {
+    const fields = record.replace(/^\n/, '').split(FIELD)
+    if (fields.length < 5 || !fields[0]) return []
+    const [sha, timestamp, author, email, message] = fields
+    return [{
+      sha,
+      timestamp: new Date(timestamp).toISOString(),
+      author,
+      email,
+      subject: message.split('\n')[0].trim(),
+      trailers: parseTrailers(message),
+      message,
+    }]
+  })
+}
+
+/**
+ * The git directory of a repository rooted at `projectDir`, or null if there
+ * is none. In worktrees and submodules `.git` is a file naming the real
+ * directory ("gitdir: ../.git/worktrees/feature"). Synchronous so adapter
+ * detection can use it.
+ */
+export function resolveGitDir(projectDir: string): string | null {
+  const dotGit = path.join(projectDir, '.git')
+  try {
+    if (statSync(dotGit).isDirectory()) return dotGit
+    const gitDir = readFileSync(dotGit, 'utf-8').match(/^gitdir:\s*(.+?)\s*$/m)?.[1]
+    return gitDir ? path.resolve(projectDir, gitDir) : null
+  } catch {
+    return null
+  }
+}
+
+/** The HEAD reflog, appended on every commit, amend, reset and checkout. */
+export function reflogPath(projectDir: string): string | null {
+  const gitDir = resolveGitDir(projectDir)
+  return gitDir ? path.join(gitDir, 'logs', 'HEAD') : null
+}
+
+// Cache per project, keyed on the reflog so the log is only re-read after commits or checkouts
+const logCache = new Map<string, { readonly key: string; readonly entries: GitLogEntry[] }>()
+
+/** The project's latest commits, newest first; empty when it isn't a git repository. */
+export async function readGitLog(projectDir: string): Promise<GitLogEntry[]> {
+  const reflogFile = reflogPath(projectDir)
+  const reflog = reflogFile ? await fs.stat(reflogFile).catch(() => null) : null
+  const key = reflog ? `${reflog.size}:${reflog.mtimeMs}` : null
+  const cached = logCache.get(projectDir)
+  if (key && cached?.key === key) return cached.entries
+
+  try {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['log', `--max-count=${GIT_LOG_MAX_COMMITS}`, `--format=${LOG_FORMAT}`],
+      { cwd: projectDir, maxBuffer: 16 * 1024 * 1024, timeout: 10_000 },
+    )
+    const entries = parseGitLog(stdout)
+    if (key) logCache.set(projectDir, { key, entries })
+    return entries
+  } catch {
+    return []
+  }
+}
+
+export function resetGitLogCache(): void {
+  logCache.clear()
+}
+
+/** Tickets may be namespaced by CompositeAdapter ("takt:T01") or Agent Teams ("team/T01"). */
+function bareTicketId(id: string): string {
+  return id.slice(Math.max(id.lastIndexOf(':'), id.lastIndexOf('/')) + 1)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Ids of the tickets a commit message mentions, as whole words ("T01" does not match "M2-T01"). */
+export function ticketIdsIn(message: string, tickets: readonly Ticket[]): string[] {
+  return tickets
+    .filter(ticket => {
+      const id = escapeRegExp(bareTicketId(ticket.id))
+      return new RegExp(`(?<![A-Za-z0-9-])${id}(?![A-Za-z0-9])`, 'i').test(message)
+    })
+    .map(ticket => ticket.id)
+}
+
+function agentNamed(name: string, agents: readonly Agent[]): Agent | null {
+  // "Co-authored-by: takt-data-engineer <bot@example.com>" names the agent before the address
+  const normalized = name.replace(/<[^>]*>/, '').trim().toLowerCase()
+  if (!normalized) return null
+  return agents.find(a => a.id.toLowerCase() === normalized || a.role.toLowerCase() === normalized) ?? null
+}
+
+/**
+ * Each agent's working span: its Task call's start and end when it has one,
+ * otherwise the span of its activity events. Active agents run until now.
+ */
+export function agentWindows(state: DashboardState, now: number = Date.now()): AgentWindow[] {
+  return state.agents.flatMap(agent => {
+    const times = state.activity
+      .filter(event => event.agentId === agent.id)
+      .map(event => Date.parse(event.timestamp))
+    if (agent.spawn?.spawnedAt) times.push(Date.parse(agent.spawn.spawnedAt))
+    if (agent.spawn?.completedAt) times.push(Date.parse(agent.spawn.completedAt))
+    const valid = times.filter(t => !Number.isNaN(t))
+    if (valid.length === 0) return []
+    const start = agent.spawn?.spawnedAt ? Date.parse(agent.spawn.spawnedAt) : Math.min(...valid)
+    const end = isActiveStatus(agent.status) ? now : Math.max(...valid)
+    return [{ agentId: agent.id, start, end }]
+  })
+}
+
+function matchAgent(
+  entry: GitLogEntry,
+  ticketIds: readonly string[],
+  state: DashboardState,
+  windows: readonly AgentWindow[],
+): { agentId: string; agentMatch: CommitAgentMatch } | null {
+  for (const trailer of AGENT_TRAILERS) {
+    for (const value of entry.trailers[trailer] ?? []) {
+      const agent = agentNamed(value, state.agents)
+      if (agent) return { agentId: agent.id, agentMatch: 'trailer' }
+    }
+  }
+
+  const author = agentNamed(entry.author, state.agents) ?? agentNamed(entry.email.split('@')[0], state.agents)
+  if (author) return { agentId: author.id, agentMatch: 'author' }
+
+  const time = Date.parse(entry.timestamp)
+  const containing = windows.filter(w => time >= w.start && time <= w.end + COMMIT_SESSION_SLACK_MS)
+  if (containing.length === 0) return null
+  // The ticket's assignee if it was working then, otherwise the most specific (shortest) session
+  const assignees = new Set(state.tickets.filter(t => ticketIds.includes(t.id)).map(t => t.agentId))
+  const window = containing.find(w => assignees.has(w.agentId))
+    ?? [...containing].sort((a, b) => (a.end - a.start) - (b.end - b.start))[0]
+  return { agentId: window.agentId, agentMatch: 'session' }
+}
+
+/** Match each log entry to the tickets it mentions and the agent that most likely made it. */
+export function correlateCommits(
+  entries: readonly GitLogEntry[],
+  state: DashboardState,
+  windows: readonly AgentWindow[] = agentWindows(state),
+): GitCommit[] {
+  return entries.map(entry => {
+    const ticketIds = ticketIdsIn(entry.message, state.tickets)
+    const agent = matchAgent(entry, ticketIds, state, windows)
+    return {
+      sha: entry.sha,
+      timestamp: entry.timestamp,
+      author: entry.author,
+      subject: entry.subject,
+      ticketIds,
+      agentId: agent?.agentId ?? null,
+      agentMatch: agent?.agentMatch ?? null,
+    }
+  })
+}
+
+export function commitActivityEvent(commit: GitCommit): ActivityEvent {
+  const who = commit.agentId ? `[${commit.agentId}] ` : ''
+  const tickets = commit.ticketIds.length > 0 ? ` (${commit.ticketIds.join(', ')})` : ''
+  return {
+    timestamp: commit.timestamp,
+    agentId: commit.agentId,
+    sessionId: null,
+    type: 'commit',
+    summary: `${who}Committed ${commit.sha.slice(0, 7)}: ${commit.subject}${tickets}`,
+  }
+}
+
+/** Attach commits to the tickets they mention and add them to the activity log. */
+export function applyGitCommits(state: DashboardState, commits: readonly GitCommit[]): DashboardState {
+  if (commits.length === 0) return state
+  const activity = [...state.activity, ...commits.map(commitActivityEvent)]
+  activity.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  return {
+    ...state,
+    tickets: state.tickets.map(ticket => ({
+      ...ticket,
+      commits: commits.filter(commit => commit.ticketIds.includes(ticket.id)),
+    })),
+    activity: activity.slice(-MAX_ACTIVITY_EVENTS),
+  }
+}
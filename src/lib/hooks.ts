@@ -0,0 +1,216 @@
+/**
+ * Push ingestion for Claude Code hooks. The hook script POSTs each hook's
+ * JSON input to /api/hooks; the latest hook per session overrides the
+ * file-derived status for a short while, so the dashboard reacts before the
+ * JSONL has been written and re-read.
+ */
+import { EventEmitter } from 'events'
+import path from 'path'
+import { z } from 'zod'
+import type { ActivityEvent, Agent, AgentStatus, DashboardState } from '@/types'
+import { HOOK_EVENT_HISTORY, HOOK_STATUS_TTL_MS } from '@/lib/constants'
+import { isActiveStatus } from '@/lib/agents'
+import type { ProjectConfig } from '@/lib/config'
+
+export const HookPayloadSchema = z.object({
+  hook_event_name: z.enum(['PreToolUse', 'PostToolUse', 'Notification', 'Stop', 'SubagentStop']),
+  session_id: z.string().min(1),
+  transcript_path: z.string().optional(),
+  cwd: z.string().optional(),
+  tool_name: z.string().optional(),
+  tool_input: z.record(z.string(), z.unknown()).optional(),
+  message: z.string().optional(),
+  // Set when the hook fired inside a subagent (newer Claude Code versions)
+  agent_id: z.string().optional(),
+}).passthrough()
+
+export type HookPayload = z.infer<typeof HookPayloadSchema>
+
+interface StatusOverride {
+  readonly status: AgentStatus
+  readonly blockedOn: string | null
+  readonly receivedAt: number
+}
+
+// Tools that always wait for the human to answer
+const INTERACTIVE_TOOLS = new Set(['AskUserQuestion', 'ExitPlanMode'])
+// Notification sent once a finished turn has sat unanswered; the agent is done, not blocked
+const IDLE_NOTIFICATION = /waiting for your input/i
+const PERMISSION_NOTIFICATION = /permission/i
+
+/** The Agent.sessionId a hook belongs to: the subagent's file when known, else the main session. */
+function sessionKey(payload: HookPayload): string {
+  return payload.agent_id ? `agent-${payload.agent_id}` : payload.session_id
+}
+
+function toolLabel(payload: HookPayload): string {
+  const input = payload.tool_input ?? {}
+  const detail = typeof input.command === 'string' ? input.command
+    : typeof input.file_path === 'string' ? input.file_path
+    : null
+  return detail ? `${payload.tool_name}: ${detail.split('\n')[0].slice(0, 80)}` : payload.tool_name ?? 'a tool'
+}
+
+/**
+ * Status implied by a hook. `pendingTool` is the label of the session's latest
+ * PreToolUse, which a permission Notification refers to.
+ */
+function statusFor(payload: HookPayload, pendingTool: string | null): Omit<StatusOverride, 'receivedAt'> | null {
+  switch (payload.hook_event_name) {
+    case 'PreToolUse':
+      if (payload.tool_name && INTERACTIVE_TOOLS.has(payload.tool_name)) {
+        return {
+          status: 'blocked-on-user',
+          blockedOn: payload.tool_name === 'ExitPlanMode' ? 'approve the plan' : 'answer a question',
+        }
+      }
+      return { status: 'waiting-on-tool', blockedOn: null }
+    case 'PostToolUse':
+      return { status: 'working', blockedOn: null }
+    case 'Notification':
+      if (payload.message && IDLE_NOTIFICATION.test(payload.message)) return { status: 'completed', blockedOn: null }
+      if (pendingTool && payload.message && PERMISSION_NOTIFICATION.test(payload.message)) {
+        return { status: 'blocked-on-user', blockedOn: `approve ${pendingTool}` }
+      }
+      return { status: 'blocked-on-user', blockedOn: payload.message ?? 'respond' }
+    case 'Stop':
+      return { status: 'completed', blockedOn: null }
+    case 'SubagentStop':
+      return payload.agent_id ? { status: 'finished', blockedOn: null } : null
+  }
+}
+
+/** Activity event for hooks worth a log line; tool calls already show up from the session files. */
+function activityFor(payload: HookPayload, timestamp: string): ActivityEvent | null {
+  const sessionId = sessionKey(payload)
+  switch (payload.hook_event_name) {
+    case 'Notification':
+      return {
+        timestamp,
+        agentId: null,
+        sessionId,
+        type: 'system',
+        summary: `Claude Code: ${payload.message ?? 'needs your attention'}`,
+      }
+    case 'Stop':
+      return { timestamp, agentId: null, sessionId, type: 'agent-idle', summary: 'Turn ended' }
+    case 'SubagentStop':
+      return { timestamp, agentId: null, sessionId, type: 'ticket-completed', summary: 'Subagent finished' }
+    default:
+      return null
+  }
+}
+
+/** A hook that ends a session or subagent, after which it has no tool call pending. */
+function isSessionEnd(payload: HookPayload): boolean {
+  return payload.hook_event_name === 'Stop' || (payload.hook_event_name === 'SubagentStop' && Boolean(payload.agent_id))
+}
+
+/** Merge two oldest-first event lists, keeping each list's own order. */
+function mergeByTime(a: readonly ActivityEvent[], b: readonly ActivityEvent[]): ActivityEvent[] {
+  const merged: ActivityEvent[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (j >= b.length || (i < a.length && a[i].timestamp <= b[j].timestamp)) merged.push(a[i++])
+    else merged.push(b[j++])
+  }
+  return merged
+}
+
+/**
+ * In-memory record of recent hooks. Emits `hook` on every ingested payload
+ * so the watcher can push an updated state right away.
+ */
+export class HookStore extends EventEmitter {
+  private readonly overrides = new Map<string, StatusOverride>()
+  /** Session key → the tool call last announced by PreToolUse and not yet finished. */
+  private readonly pendingTools = new Map<string, { readonly label: string; readonly receivedAt: number }>()
+  /** Oldest first, like the adapters' activity. */
+  private events: ActivityEvent[] = []
+
+  ingest(payload: HookPayload, now = Date.now()): void {
+    this.prune(now)
+    const key = sessionKey(payload)
+    if (payload.hook_event_name === 'PreToolUse') this.pendingTools.set(key, { label: toolLabel(payload), receivedAt: now })
+    if (payload.hook_event_name === 'PostToolUse' || isSessionEnd(payload)) this.pendingTools.delete(key)
+
+    const override = statusFor(payload, this.pendingTools.get(key)?.label ?? null)
+    if (override) this.overrides.set(key, { ...override, receivedAt: now })
+
+    const event = activityFor(payload, new Date(now).toISOString())
+    if (event) this.events = [...this.events, event].slice(-HOOK_EVENT_HISTORY)
+
+    this.emit('hook', payload)
+  }
+
+  /** Forget statuses and tool calls older than the override window. */
+  private prune(now: number): void {
+    for (const [key, override] of this.overrides) {
+      if (now - override.receivedAt > HOOK_STATUS_TTL_MS) this.overrides.delete(key)
+    }
+    for (const [key, tool] of this.pendingTools) {
+      if (now - tool.receivedAt > HOOK_STATUS_TTL_MS) this.pendingTools.delete(key)
+    }
+  }
+
+  /**
+   * Overlay recent hook statuses on a state read from the session files and
+   * add hook activity events, attributed to the agent owning each session.
+   */
+  applyTo(state: DashboardState, now = Date.now()): DashboardState {
+    this.prune(now)
+    if (this.overrides.size === 0 && this.events.length === 0) return state
+
+    const agents = state.agents.map((agent): Agent => {
+      const override = agent.sessionId ? this.overrides.get(agent.sessionId) : undefined
+      if (!override) return agent
+      return { ...agent, status: override.status, blockedOn: override.blockedOn }
+    })
+
+    const ownerOf = new Map(agents.filter(a => a.sessionId).map(a => [a.sessionId as string, a.id]))
+    const hookEvents = this.events.map(event => {
+      const agentId = event.sessionId ? ownerOf.get(event.sessionId) ?? null : null
+      return agentId ? { ...event, agentId, summary: `[${agentId}] ${event.summary}` } : event
+    })
+
+    return {
+      ...state,
+      agents,
+      activity: mergeByTime(state.activity, hookEvents),
+      project: {
+        ...state.project,
+        activeAgents: agents.filter(a => isActiveStatus(a.status)).map(a => a.id),
+      },
+    }
+  }
+}
+
+function isWithin(cwd: string, projectDir: string): boolean {
+  const relative = path.relative(projectDir, cwd)
+  return !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+/**
+ * The monitored project a hook came from: the innermost project directory
+ * containing its cwd. Without a cwd only a single-project dashboard can tell.
+ */
+export function projectForHook(payload: HookPayload, projects: readonly ProjectConfig[]): ProjectConfig | null {
+  const cwd = payload.cwd
+  if (!cwd) return projects.length === 1 ? projects[0] : null
+  return projects
+    .filter(project => isWithin(cwd, project.dir))
+    .sort((a, b) => b.dir.length - a.dir.length)[0] ?? null
+}
+
+// One store per project, so hooks only reach that project's watcher
+const hookStores = new Map<string, HookStore>()
+
+export function getHookStore(projectId: string): HookStore {
+  let store = hookStores.get(projectId)
+  if (!store) {
+    store = new HookStore()
+    hookStores.set(projectId, store)
+  }
+  return store
+}
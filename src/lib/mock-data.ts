@@ -12,6 +12,11 @@ export const MOCK_STATE: DashboardState = {
       ticketsCompleted: 0,
       currentTicket: null,
       sessionId: 'main',
+      contextWindow: { used: 43_000, total: 200_000, percentage: 22 },
+      spawn: null,
+      parentAgentId: null,
+      blockedOn: null,
+      errorCount: 0,
     },
     {
       id: 'takt-data-engineer',
@@ -23,17 +28,37 @@ export const MOCK_STATE: DashboardState = {
       ticketsCompleted: 2,
       currentTicket: 'T007',
       sessionId: 'a4172b2c-5814-48f0-b1a2-9e3f4d5c6a7b',
+      contextWindow: { used: 118_000, total: 200_000, percentage: 59 },
+      spawn: {
+        parentId: 'lead',
+        toolUseId: 'toolu_01LoaderSpawn',
+        spawnedAt: '2026-02-12T17:31:40.000Z',
+        turnId: 'msg_01LeadTurn14',
+        subagentType: 'general-purpose',
+        description: 'Implement L2-ARCTIC loader',
+        instructions: 'You are **takt-data-engineer**, a dataset loading agent.\n## Ticket T007: L2-ARCTIC Loader\nParse the speaker folders into Utterance records.',
+        result: null,
+        completedAt: null,
+      },
+      parentAgentId: 'lead',
+      blockedOn: null,
+      errorCount: 0,
     },
     {
       id: 'takt-eval-engineer',
       role: 'Evaluation pipeline',
       modelTier: 'opus',
-      status: 'idle',
+      status: 'blocked-on-user',
       color: 'red',
       ticketsAssigned: 5,
       ticketsCompleted: 3,
       currentTicket: null,
       sessionId: 'a56155f2-6467-4554-b1f6-0b285ee3eea6',
+      contextWindow: { used: 64_000, total: 200_000, percentage: 32 },
+      spawn: null,
+      parentAgentId: null,
+      blockedOn: 'approve Bash: uv run pytest tests/eval -x',
+      errorCount: 0,
     },
     {
       id: 'takt-test-engineer',
@@ -45,6 +70,21 @@ export const MOCK_STATE: DashboardState = {
       ticketsCompleted: 4,
       currentTicket: 'T015',
       sessionId: 'bf5cc789-cffa-4f62-8685-7dbbb40f56da',
+      contextWindow: { used: 171_000, total: 200_000, percentage: 86 },
+      spawn: {
+        parentId: 'takt-data-engineer',
+        toolUseId: 'toolu_01LoaderTests',
+        spawnedAt: '2026-02-12T17:40:02.000Z',
+        turnId: 'msg_01LoaderTurn09',
+        subagentType: 'general-purpose',
+        description: 'Integration tests for the loaders',
+        instructions: 'You are **takt-test-engineer**, a testing agent.\n## Ticket T015: Integration Tests\nCover the L2-ARCTIC loader end to end.',
+        result: null,
+        completedAt: null,
+      },
+      parentAgentId: 'takt-data-engineer',
+      blockedOn: null,
+      errorCount: 0,
     },
     {
       id: 'takt-ml-scientist',
@@ -56,6 +96,21 @@ export const MOCK_STATE: DashboardState = {
       ticketsCompleted: 3,
       currentTicket: null,
       sessionId: 'fb3350fb-1fc2-4403-b2a1-c9d8e7f6a5b4',
+      contextWindow: { used: 92_000, total: 200_000, percentage: 46 },
+      spawn: {
+        parentId: 'lead',
+        toolUseId: 'toolu_01SurveySpawn',
+        spawnedAt: '2026-02-12T15:02:11.000Z',
+        turnId: 'msg_01LeadTurn06',
+        subagentType: 'general-purpose',
+        description: 'Survey SOTA architectures',
+        instructions: 'You are **takt-ml-scientist**, an ML research agent.\nSurvey current pronunciation assessment architectures and benchmarks.',
+        result: 'Surveyed 9 architectures. Recommended a wav2vec2 backbone with a GOP head; benchmark table written to docs/survey.md.',
+        completedAt: '2026-02-12T16:20:45.000Z',
+      },
+      parentAgentId: 'lead',
+      blockedOn: null,
+      errorCount: 0,
     },
     {
       id: 'takt-speech-scientist',
@@ -67,6 +122,11 @@ export const MOCK_STATE: DashboardState = {
       ticketsCompleted: 2,
       currentTicket: null,
       sessionId: 'feb08f4c-1a31-4655-9c8d-2e3f4a5b6c7d',
+      contextWindow: { used: 37_000, total: 200_000, percentage: 19 },
+      spawn: null,
+      parentAgentId: null,
+      blockedOn: null,
+      errorCount: 0,
     },
     {
       id: 'takt-phonetician',
@@ -78,26 +138,31 @@ export const MOCK_STATE: DashboardState = {
       ticketsCompleted: 1,
       currentTicket: null,
       sessionId: null,
+      contextWindow: null,
+      spawn: null,
+      parentAgentId: null,
+      blockedOn: null,
+      errorCount: 0,
     },
   ],
   tickets: [
-    { id: 'T001', title: 'Shared Data Models', agentId: 'takt-data-engineer', milestone: 'Foundation', status: 'completed', priority: 'critical', dependencies: [] },
-    { id: 'T002', title: 'Eval Config', agentId: 'takt-eval-engineer', milestone: 'Foundation', status: 'completed', priority: 'high', dependencies: [] },
-    { id: 'T003', title: 'YAML Configs', agentId: 'takt-eval-engineer', milestone: 'Foundation', status: 'completed', priority: 'medium', dependencies: ['T001'] },
-    { id: 'T007', title: 'L2-ARCTIC Loader', agentId: 'takt-data-engineer', milestone: 'Data Loaders', status: 'in-progress', priority: 'critical', dependencies: ['T001'] },
-    { id: 'T008', title: 'SpeechOcean Loader', agentId: 'takt-data-engineer', milestone: 'Data Loaders', status: 'pending', priority: 'high', dependencies: ['T001'] },
-    { id: 'T015', title: 'Integration Tests', agentId: 'takt-test-engineer', milestone: 'Metrics Engine', status: 'in-progress', priority: 'high', dependencies: ['T007'] },
-    { id: 'T020', title: 'Inference Runner', agentId: 'takt-eval-engineer', milestone: 'Inference', status: 'pending', priority: 'critical', dependencies: ['T007', 'T008'] },
+    { id: 'T001', title: 'Shared Data Models', agentId: 'takt-data-engineer', milestone: 'Foundation', status: 'completed', priority: 'critical', dependencies: [], commits: [], reviews: [] },
+    { id: 'T002', title: 'Eval Config', agentId: 'takt-eval-engineer', milestone: 'Foundation', status: 'completed', priority: 'high', dependencies: [], commits: [], reviews: [] },
+    { id: 'T003', title: 'YAML Configs', agentId: 'takt-eval-engineer', milestone: 'Foundation', status: 'completed', priority: 'medium', dependencies: ['T001'], commits: [], reviews: [] },
+    { id: 'T007', title: 'L2-ARCTIC Loader', agentId: 'takt-data-engineer', milestone: 'Data Loaders', status: 'in-progress', priority: 'critical', dependencies: ['T001'], commits: [], reviews: [] },
+    { id: 'T008', title: 'SpeechOcean Loader', agentId: 'takt-data-engineer', milestone: 'Data Loaders', status: 'pending', priority: 'high', dependencies: ['T001'], commits: [], reviews: [] },
+    { id: 'T015', title: 'Integration Tests', agentId: 'takt-test-engineer', milestone: 'Metrics Engine', status: 'in-progress', priority: 'high', dependencies: ['T007'], commits: [], reviews: [] },
+    { id: 'T020', title: 'Inference Runner', agentId: 'takt-eval-engineer', milestone: 'Inference', status: 'pending', priority: 'critical', dependencies: ['T007', 'T008'], commits: [], reviews: [] },
   ],
   activity: [
-    { timestamp: '2026-02-12T17:32:09.000Z', agentId: 'takt-data-engineer', sessionId: 'a4172b2c-5814-48f0-b1a2-9e3f4d5c6a7b', type: 'ticket-started', summary: '[takt-data-engineer] Started T007: L2-ARCTIC Loader' },
-    { timestamp: '2026-02-12T17:30:45.000Z', agentId: 'takt-test-engineer', sessionId: 'bf5cc789-cffa-4f62-8685-7dbbb40f56da', type: 'ticket-started', summary: '[takt-test-engineer] Started T015: Integration Tests' },
-    { timestamp: '2026-02-12T17:28:12.000Z', agentId: 'takt-eval-engineer', sessionId: 'a56155f2-6467-4554-b1f6-0b285ee3eea6', type: 'ticket-completed', summary: '[takt-eval-engineer] Completed T003: YAML Configs' },
-    { timestamp: '2026-02-12T17:24:57.000Z', agentId: 'takt-eval-engineer', sessionId: 'a56155f2-6467-4554-b1f6-0b285ee3eea6', type: 'agent-idle', summary: '[takt-eval-engineer] Waiting for dependencies' },
-    { timestamp: '2026-02-12T17:22:39.000Z', agentId: 'takt-ml-scientist', sessionId: 'fb3350fb-1fc2-4403-b2a1-c9d8e7f6a5b4', type: 'ticket-completed', summary: '[takt-ml-scientist] Completed all assigned tickets' },
-    { timestamp: '2026-02-12T17:20:00.000Z', agentId: null, sessionId: null, type: 'milestone-completed', summary: 'Milestone M001 (Foundation) completed' },
-    { timestamp: '2026-02-12T17:15:33.000Z', agentId: 'takt-data-engineer', sessionId: 'a4172b2c-5814-48f0-b1a2-9e3f4d5c6a7b', type: 'ticket-completed', summary: '[takt-data-engineer] Completed T001: Shared Data Models' },
     { timestamp: '2026-02-12T17:10:00.000Z', agentId: null, sessionId: null, type: 'system', summary: 'Takt session started: pronunciation-eval' },
+    { timestamp: '2026-02-12T17:15:33.000Z', agentId: 'takt-data-engineer', sessionId: 'a4172b2c-5814-48f0-b1a2-9e3f4d5c6a7b', type: 'ticket-completed', summary: '[takt-data-engineer] Completed T001: Shared Data Models' },
+    { timestamp: '2026-02-12T17:20:00.000Z', agentId: null, sessionId: null, type: 'milestone-completed', summary: 'Milestone M001 (Foundation) completed' },
+    { timestamp: '2026-02-12T17:22:39.000Z', agentId: 'takt-ml-scientist', sessionId: 'fb3350fb-1fc2-4403-b2a1-c9d8e7f6a5b4', type: 'ticket-completed', summary: '[takt-ml-scientist] Completed all assigned tickets' },
+    { timestamp: '2026-02-12T17:24:57.000Z', agentId: 'takt-eval-engineer', sessionId: 'a56155f2-6467-4554-b1f6-0b285ee3eea6', type: 'agent-idle', summary: '[takt-eval-engineer] Waiting for dependencies' },
+    { timestamp: '2026-02-12T17:28:12.000Z', agentId: 'takt-eval-engineer', sessionId: 'a56155f2-6467-4554-b1f6-0b285ee3eea6', type: 'ticket-completed', summary: '[takt-eval-engineer] Completed T003: YAML Configs' },
+    { timestamp: '2026-02-12T17:30:45.000Z', agentId: 'takt-test-engineer', sessionId: 'bf5cc789-cffa-4f62-8685-7dbbb40f56da', type: 'ticket-started', summary: '[takt-test-engineer] Started T015: Integration Tests' },
+    { timestamp: '2026-02-12T17:32:09.000Z', agentId: 'takt-data-engineer', sessionId: 'a4172b2c-5814-48f0-b1a2-9e3f4d5c6a7b', type: 'ticket-started', summary: '[takt-data-engineer] Started T007: L2-ARCTIC Loader' },
   ],
   project: {
     name: 'pronunciation-eval',
@@ -122,6 +187,11 @@ export const MOCK_STATE: DashboardState = {
     contextWindow: { used: 43_000, total: 200_000, percentage: 22 },
     model: 'claude-opus-4-5',
     lastUpdated: '2026-02-12T17:41:38.000Z',
+    breakdown: [
+      { agentId: 'lead', sessionId: 'main', daily: 212_000, weekly: 212_000, tokens: { input: 9_000, output: 41_000, cacheCreation: 162_000, cacheRead: 1_840_000 } },
+      { agentId: 'takt-data-engineer', sessionId: 'a4172b2c-5814-48f0-b1a2-9e3f4d5c6a7b', daily: 148_000, weekly: 148_000, tokens: { input: 6_000, output: 27_000, cacheCreation: 115_000, cacheRead: 910_000 } },
+      { agentId: 'takt-test-engineer', sessionId: 'bf5cc789-cffa-4f62-8685-7dbbb40f56da', daily: 112_000, weekly: 112_000, tokens: { input: 4_000, output: 19_000, cacheCreation: 89_000, cacheRead: 620_000 } },
+    ],
   },
   messages: [
     { timestamp: '2026-02-12T17:25:00.000Z', from: 'takt-data-engineer', to: 'takt-eval-engineer', ticketId: 'T001', content: 'Data models ready for review', urgency: 'normal' },
@@ -0,0 +1,49 @@
+/**
+ * Overview of every configured project, read through each project's shared
+ * file watcher so the landing page and the per-project dashboards agree.
+ */
+import type { DashboardState, ProjectOverview } from '@/types'
+import { getProjects, useMockData, type ProjectConfig } from '@/lib/config'
+import { createAdapter } from '@/lib/adapters/registry'
+import { getFileWatcher } from '@/lib/watcher'
+import { MOCK_STATE } from '@/lib/mock-data'
+
+export function summarizeProject(project: ProjectConfig, state: DashboardState): ProjectOverview {
+  return {
+    id: project.id,
+    dir: project.dir,
+    name: state.project.name,
+    phase: state.project.phase,
+    status: state.project.status,
+    currentMilestone: state.project.currentMilestone,
+    ticketsSummary: state.project.ticketsSummary,
+    workingAgents: state.agents.filter(a => a.status === 'working').length,
+    totalAgents: state.agents.length,
+    error: state.error,
+  }
+}
+
+export async function readProjectOverviews(): Promise<ProjectOverview[]> {
+  return Promise.all(getProjects().map(async project => {
+    if (useMockData()) return summarizeProject(project, MOCK_STATE)
+    try {
+      const watcher = getFileWatcher(project.id, () => createAdapter(project.dir))
+      await watcher.start()
+      return summarizeProject(project, await watcher.getLatestState())
+    } catch (error) {
+      // A misconfigured adapter only takes down its own card
+      return {
+        id: project.id,
+        dir: project.dir,
+        name: project.id,
+        phase: '0',
+        status: 'disconnected',
+        currentMilestone: null,
+        ticketsSummary: { total: 0, completed: 0, inProgress: 0, pending: 0, blocked: 0, failed: 0 },
+        workingAgents: 0,
+        totalAgents: 0,
+        error: error instanceof Error ? error.message : 'Failed to create adapter',
+      }
+    }
+  }))
+}
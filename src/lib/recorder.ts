@@ -0,0 +1,152 @@
+/**
+ * Run recordings: every DashboardState a FileWatcher emits, appended to a JSONL
+ * run file. The first frame and every RECORDING_KEYFRAME_INTERVAL-th frame hold
+ * the full state; the rest hold only the top-level fields that changed, with
+ * activity and messages stored as events dropped from the front and appended.
+ */
+import fs from 'fs/promises'
+import path from 'path'
+import { z } from 'zod'
+import type { ActivityEvent, DashboardState, Message } from '@/types'
+import { RECORDING_KEYFRAME_INTERVAL } from '@/lib/constants'
+
+/** How a list changed: `drop` items removed from the front, then `items` appended. */
+export interface ListDelta<T> {
+  readonly drop: number
+  readonly items: readonly T[]
+}
+
+export interface RecordedFrame {
+  /** When the state was emitted. */
+  readonly t: string
+  /** Full state, on keyframes. */
+  readonly state?: DashboardState
+  /** Replaced top-level fields, on diff frames. */
+  readonly patch?: Partial<DashboardState>
+  readonly appended?: {
+    readonly activity?: ListDelta<ActivityEvent>
+    readonly messages?: ListDelta<Message>
+  }
+}
+
+const RecordedFrameSchema = z.object({
+  t: z.string(),
+  state: z.custom<DashboardState>(value => typeof value === 'object' && value !== null).optional(),
+  patch: z.custom<Partial<DashboardState>>(value => typeof value === 'object' && value !== null).optional(),
+  appended: z.object({
+    activity: z.object({ drop: z.number(), items: z.array(z.custom<ActivityEvent>()) }).optional(),
+    messages: z.object({ drop: z.number(), items: z.array(z.custom<Message>()) }).optional(),
+  }).optional(),
+}).refine(frame => frame.state !== undefined || frame.patch !== undefined || frame.appended !== undefined)
+
+type ListField = 'activity' | 'messages'
+const LIST_FIELDS: readonly ListField[] = ['activity', 'messages']
+const REPLACED_FIELDS = ['agents', 'tickets', 'project', 'resources', 'error'] as const
+
+/**
+ * Smallest drop-then-append change turning `prev` into `next`. Falls back to
+ * dropping everything when `next` doesn't continue a suffix of `prev`.
+ */
+export function diffList<T>(prev: readonly T[], next: readonly T[]): ListDelta<T> {
+  const prevKeys = prev.map(item => JSON.stringify(item))
+  const nextKeys = next.map(item => JSON.stringify(item))
+  for (let drop = 0; drop < prevKeys.length; drop++) {
+    const kept = prevKeys.length - drop
+    if (kept > nextKeys.length) continue
+    if (prevKeys.slice(drop).every((key, i) => key === nextKeys[i])) {
+      return { drop, items: next.slice(kept) }
+    }
+  }
+  return { drop: prev.length, items: next }
+}
+
+/** The frame turning `prev` into `next`, or null when nothing changed. */
+export function diffStates(prev: DashboardState, next: DashboardState, t: string): RecordedFrame | null {
+  const patch: Record<string, unknown> = {}
+  for (const field of REPLACED_FIELDS) {
+    if (JSON.stringify(prev[field]) !== JSON.stringify(next[field])) patch[field] = next[field]
+  }
+
+  const appended: Partial<Record<ListField, ListDelta<unknown>>> = {}
+  for (const field of LIST_FIELDS) {
+    const delta = diffList<unknown>(prev[field], next[field])
+    if (delta.drop > 0 || delta.items.length > 0) appended[field] = delta
+  }
+
+  const hasPatch = Object.keys(patch).length > 0
+  const hasAppended = Object.keys(appended).length > 0
+  if (!hasPatch && !hasAppended) return null
+  return {
+    t,
+    ...(hasPatch && { patch: patch as Partial<DashboardState> }),
+    ...(hasAppended && { appended: appended as RecordedFrame['appended'] }),
+  }
+}
+
+/** Apply a frame on top of the previous state; keyframes replace it outright. */
+export function applyFrame(prev: DashboardState | null, frame: RecordedFrame): DashboardState {
+  if (frame.state) return frame.state
+  if (!prev) throw new Error(`Recording starts with a diff frame at ${frame.t}`)
+
+  const applyDelta = <T>(list: readonly T[], delta: ListDelta<T> | undefined): readonly T[] =>
+    delta ? [...list.slice(delta.drop), ...delta.items] : list
+
+  return {
+    ...prev,
+    ...frame.patch,
+    activity: applyDelta(prev.activity, frame.appended?.activity),
+    messages: applyDelta(prev.messages, frame.appended?.messages),
+  }
+}
+
+/** Parse a run file, skipping blank, malformed and truncated lines (e.g. from a crash mid-write). */
+export function parseRecording(raw: string): RecordedFrame[] {
+  const frames: RecordedFrame[] = []
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const parsed = RecordedFrameSchema.safeParse(JSON.parse(line))
+      if (parsed.success) frames.push(parsed.data as RecordedFrame)
+    } catch {
+      // skip malformed lines
+    }
+  }
+  return frames
+}
+
+/** File name for a new recording of a project, sortable by start time. */
+export function recordingFileName(projectId: string, startedAt: Date = new Date()): string {
+  return `${projectId}-${startedAt.toISOString().replace(/[:.]/g, '-')}.jsonl`
+}
+
+/** Appends emitted states to one run file, in order. */
+export class RunRecorder {
+  readonly filePath: string
+  private previous: DashboardState | null = null
+  private framesSinceKeyframe = 0
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  /** Queue a state for writing; resolves once it (and every earlier one) is on disk. */
+  record(state: DashboardState, at: Date = new Date()): Promise<void> {
+    const t = at.toISOString()
+    const previous = this.framesSinceKeyframe < RECORDING_KEYFRAME_INTERVAL ? this.previous : null
+    const diff = previous !== null
+    const frame = previous ? diffStates(previous, state, t) : { t, state }
+    if (!frame) return this.writes
+
+    this.previous = state
+    this.framesSinceKeyframe = diff ? this.framesSinceKeyframe + 1 : 1
+    const line = `${JSON.stringify(frame)}\n`
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        await fs.appendFile(this.filePath, line)
+      })
+    return this.writes
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Index of every main session recorded for a project, and read-only
+ * dashboard state for any one of them, so earlier runs stay browsable
+ * after a new main session starts.
+ */
+import fs from 'fs/promises'
+import type { DashboardState, ResourceUsage, SessionSummary, UsageBreakdownEntry } from '@/types'
+import {
+  listSessionFiles,
+  readSessionSnapshotAt,
+  contextWindowFromUsage,
+  contextWindowSize,
+  readModelSetting,
+  type SessionFileEntry,
+} from '@/lib/session-reader'
+import { readSessionFile, addUsage, countedTokens, EMPTY_USAGE, type TailResult } from '@/lib/session-tail'
+import { buildSessionState } from '@/lib/adapters/claude-code'
+import { CONTEXT_WINDOW_MAX, TOKEN_LIMITS } from '@/lib/constants'
+
+const FIRST_PROMPT_MAX = 200
+
+interface TailedFile {
+  readonly file: SessionFileEntry
+  readonly tail: TailResult
+}
+
+/** What the session index needs from one JSONL file. */
+interface FileSummary {
+  readonly file: SessionFileEntry
+  readonly firstTimestamp: string | null
+  readonly lastTimestamp: string | null
+  readonly agentId: string | null
+  readonly spawnPrompt: string | null
+  readonly tokens: number
+}
+
+interface CachedSummary {
+  readonly size: number
+  readonly mtimeMs: number
+  readonly summary: FileSummary | null
+}
+
+// Session files are re-parsed for the index only when their size or mtime changes
+const summaryCache = new Map<string, CachedSummary>()
+
+/** Past sessions are read once per request rather than tailed, so they are not kept in memory. */
+async function readFiles(files: readonly SessionFileEntry[]): Promise<TailedFile[]> {
+  const tailed: TailedFile[] = []
+  for (const file of files) {
+    const tail = await readSessionFile(file.filePath)
+    if (tail) tailed.push({ file, tail })
+  }
+  return tailed
+}
+
+function totalTokens(tail: TailResult): number {
+  return Object.values(tail.facts.usageByDate).reduce((sum, usage) => sum + countedTokens(usage), 0)
+}
+
+async function readFileSummary(file: SessionFileEntry): Promise<FileSummary | null> {
+  const stat = await fs.stat(file.filePath).catch(() => null)
+  if (!stat) {
+    summaryCache.delete(file.filePath)
+    return null
+  }
+
+  const cached = summaryCache.get(file.filePath)
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) return cached.summary
+
+  const tail = await readSessionFile(file.filePath)
+  const summary = tail && {
+    file,
+    firstTimestamp: tail.facts.firstTimestamp,
+    lastTimestamp: tail.facts.lastTimestamp,
+    agentId: tail.facts.agentId,
+    spawnPrompt: tail.facts.spawnPrompt,
+    tokens: totalTokens(tail),
+  }
+  summaryCache.set(file.filePath, { size: stat.size, mtimeMs: stat.mtimeMs, summary })
+  return summary
+}
+
+export function resetSessionHistoryCache(): void {
+  summaryCache.clear()
+}
+
+function summarize(sessionId: string, files: readonly FileSummary[]): SessionSummary | null {
+  const main = files.find(f => !f.file.isSubagent)
+  if (!main) return null
+
+  const firsts = files.map(f => f.firstTimestamp).filter((t): t is string => t !== null).sort()
+  const lasts = files.map(f => f.lastTimestamp).filter((t): t is string => t !== null).sort()
+  const startedAt = firsts[0] ?? null
+  const endedAt = lasts[lasts.length - 1] ?? null
+  const subagentIds = new Set(
+    files.filter(f => f.file.isSubagent).map(f => f.agentId ?? f.file.sessionId),
+  )
+  const prompt = main.spawnPrompt?.replace(/\s+/g, ' ').trim() || null
+
+  return {
+    sessionId,
+    startedAt,
+    endedAt,
+    durationMs: startedAt && endedAt ? Date.parse(endedAt) - Date.parse(startedAt) : null,
+    subagentCount: subagentIds.size,
+    tokens: files.reduce((sum, f) => sum + f.tokens, 0),
+    firstPrompt: prompt && prompt.length > FIRST_PROMPT_MAX ? `${prompt.slice(0, FIRST_PROMPT_MAX)}…` : prompt,
+  }
+}
+
+/**
+ * Summaries of every main session of the project, most recently started first.
+ */
+export async function listSessionHistory(claudeHome: string, projectDir: string): Promise<SessionSummary[]> {
+  const files = await listSessionFiles(claudeHome, projectDir)
+  const byMain = new Map<string, SessionFileEntry[]>()
+  for (const file of files) {
+    byMain.set(file.mainSessionId, [...(byMain.get(file.mainSessionId) ?? []), file])
+  }
+
+  const summaries: SessionSummary[] = []
+  for (const [sessionId, sessionFiles] of byMain) {
+    const fileSummaries: FileSummary[] = []
+    for (const file of sessionFiles) {
+      const fileSummary = await readFileSummary(file)
+      if (fileSummary) fileSummaries.push(fileSummary)
+    }
+    const summary = summarize(sessionId, fileSummaries)
+    if (summary) summaries.push(summary)
+  }
+
+  return summaries.sort((a, b) => (b.startedAt ?? '').localeCompare(a.startedAt ?? ''))
+}
+
+/**
+ * Token usage of a single run. Daily covers the run's last day and weekly the
+ * whole run, measured against the usual limits; the breakdown is per file.
+ */
+function runResources(tailed: readonly TailedFile[], modelSetting: string | null): ResourceUsage {
+  const main = tailed.find(t => !t.file.isSubagent)
+  const lastDay = tailed
+    .map(t => t.tail.facts.lastTimestamp?.slice(0, 10) ?? '')
+    .sort()
+    .pop() ?? ''
+
+  let daily = 0
+  let weekly = 0
+  const breakdown: UsageBreakdownEntry[] = []
+  for (const { file, tail } of tailed) {
+    let fileDaily = 0
+    let tokens = EMPTY_USAGE
+    for (const [date, usage] of Object.entries(tail.facts.usageByDate)) {
+      tokens = addUsage(tokens, usage)
+      if (date === lastDay) fileDaily += countedTokens(usage)
+    }
+    const fileTotal = totalTokens(tail)
+    daily += fileDaily
+    weekly += fileTotal
+    if (fileTotal === 0) continue
+    breakdown.push({
+      agentId: file.isSubagent ? tail.facts.agentName ?? tail.facts.agentId ?? file.sessionId : 'lead',
+      sessionId: file.sessionId,
+      daily: fileDaily,
+      weekly: fileTotal,
+      tokens,
+    })
+  }
+
+  return {
+    daily: { used: daily, limit: TOKEN_LIMITS.daily, resetIn: 'N/A' },
+    weekly: { used: weekly, limit: TOKEN_LIMITS.weekly, resetIn: 'N/A' },
+    contextWindow: contextWindowFromUsage(
+      main?.tail.facts.lastUsage ?? null,
+      contextWindowSize(main?.tail.facts.model ?? null, modelSetting),
+    ) ?? { used: 0, total: CONTEXT_WINDOW_MAX, percentage: 0 },
+    model: main?.tail.facts.model ?? 'unknown',
+    lastUpdated: main?.tail.lastModified.toISOString() ?? null,
+    breakdown: breakdown.sort((a, b) => b.weekly - a.weekly),
+  }
+}
+
+/**
+ * Dashboard state for one main session as it stood when it was last written.
+ * Returns null when the project has no main session with that id.
+ */
+export async function readHistoryState(
+  claudeHome: string,
+  projectDir: string,
+  sessionId: string,
+): Promise<DashboardState | null> {
+  const snapshot = await readSessionSnapshotAt(claudeHome, projectDir, sessionId)
+  if (!snapshot) return null
+
+  const files = (await listSessionFiles(claudeHome, projectDir)).filter(f => f.mainSessionId === sessionId)
+  const resources = runResources(await readFiles(files), await readModelSetting(claudeHome, projectDir))
+  return buildSessionState(snapshot, resources, projectDir, { history: true })
+}
@@ -10,17 +10,48 @@
  */
 import fs from 'fs/promises'
 import path from 'path'
-import { open } from 'fs/promises'
+import type { ActivityEvent, ActivityEventType, AgentSpawn, AgentStatus, ContextWindow, TokenUsage } from '@/types'
+import { tailSessionFile, readSessionFile, extractAgentName, extractTask, type FileTouchCounts, type SessionError, type SessionFacts, type TailResult, type TaskSpawn } from '@/lib/session-tail'
+import { CONTEXT_WINDOW_MAX, CONTEXT_WINDOW_EXTENDED } from '@/lib/constants'
+import { leadIdFor } from '@/lib/agents'
 
 // Thresholds for status derivation from file modification time
 const ACTIVE_THRESHOLD_MS = 2 * 60 * 1000   // 2 minutes → working
 const DONE_THRESHOLD_MS = 5 * 60 * 1000     // 5 minutes → done (celebration)
 // Beyond DONE_THRESHOLD_MS → idle
 
-export type SessionActivity = 'working' | 'completed' | 'idle'
+// Content-derived states give way to idle once the file has been quiet this long
+// (a pending tool call or error that old usually means the process was killed)
+const STALLED_THRESHOLD_MS = 30 * 60 * 1000
+const FINISHED_THRESHOLD_MS = 60 * 60 * 1000
+// Someone may step away from a permission prompt for a while; keep flagging it
+const BLOCKED_THRESHOLD_MS = 2 * 60 * 60 * 1000
+
+// Tools that always wait for the human to answer
+const INTERACTIVE_TOOLS = new Set(['AskUserQuestion', 'ExitPlanMode'])
+// Tools Claude Code asks permission for by default
+const PERMISSION_TOOLS = new Set(['Bash', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'WebFetch', 'WebSearch'])
+// A permission-gated call with nothing written after it for this long is most likely an open prompt
+const PERMISSION_PROMPT_MS = 20 * 1000
+// Approved Bash commands can run silently for up to their 10-minute timeout; only a call
+// quiet for longer must still be waiting for approval. Hook Notifications flag it sooner.
+const BASH_PROMPT_MS = 10 * 60 * 1000
+
+// Model alias suffix Claude Code uses for the 1M-token context ("sonnet[1m]")
+const EXTENDED_CONTEXT_SUFFIX = /\[1m\]$/i
+
+// Subagent files Claude Code rewrites after auto-compacting the agent's context
+const COMPACT_FILE_PREFIX = 'agent-acompact-'
+
+// Main sessions written to within this window count as running concurrently
+const CONCURRENT_SESSION_WINDOW_MS = 30 * 60 * 1000
+
+export type SessionActivity = AgentStatus
 
 export interface AgentSession {
   readonly agentId: string
+  /** The main session whose subagents directory holds this file. */
+  readonly mainSessionId: string
   /** The agent name from the prompt (e.g. "takt-eval-engineer"), distinct from agentId hash. */
   readonly agentName: string | null
   readonly sessionFile: string
@@ -32,184 +63,206 @@ export interface AgentSession {
   readonly currentTask: string | null
   /** Most recent tool call or action (e.g. "Edit src/data/pipeline.py"). */
   readonly lastAction: string | null
+  readonly messageCount: number
+  readonly toolUseCount: number
+  readonly contextWindow: ContextWindow | null
+  /** True for an auto-compacted session file (its identity may have been recovered). */
+  readonly compacted: boolean
+  /** The Task call that started this subagent, if it could be linked. */
+  readonly spawn: TaskSpawn | null
+  /** agentId of the subagent whose Task call started this one; null when the lead spawned it (or unknown). */
+  readonly parentAgentId: string | null
+  /** Name of the tool the agent is waiting on, when its latest call has no result yet. */
+  readonly waitingOn: string | null
+  readonly lastError: string | null
+  /** Failed tool calls, API errors and interruptions over the whole session. */
+  readonly errorCount: number
+  readonly recentErrors: readonly SessionError[]
+  /** What the agent needs from the human, while blocked-on-user. */
+  readonly blockedOn: string | null
+  /** Files this session read, edited or wrote, by absolute path. */
+  readonly files: Readonly<Record<string, FileTouchCounts>>
 }
 
 export interface MainSession {
   readonly sessionId: string
   readonly sessionFile: string
   readonly lastModified: Date
+  /** Timestamp of the session's first record. */
+  readonly startedAt: string | null
   readonly activity: SessionActivity
+  readonly contextWindow: ContextWindow | null
+  /** What the lead needs from the human, while blocked-on-user. */
+  readonly blockedOn: string | null
+  readonly errorCount: number
+  readonly recentErrors: readonly SessionError[]
+  readonly files: Readonly<Record<string, FileTouchCounts>>
+  /** Subagents spawned by this session, newest first. */
+  readonly subagents: readonly AgentSession[]
 }
 
 export interface SessionSnapshot {
+  /** The earliest started of the active main sessions, shown as the "lead". */
   readonly mainSession: MainSession | null
+  /** Every main session active within the concurrency window, earliest started first (includes mainSession). */
+  readonly mainSessions: readonly MainSession[]
+  /** Subagents of all main sessions, newest first. */
   readonly subagents: readonly AgentSession[]
 }
 
-function deriveActivity(lastModified: Date): SessionActivity {
-  const elapsed = Date.now() - lastModified.getTime()
+/**
+ * Derive status from the session content first, falling back to how
+ * recently the file was written:
+ * - the parent already received the subagent's Task result → finished
+ * - the latest reply was an API/system error → errored
+ * - the file ends on a question to the user, or on a permission-gated tool
+ *   call with nothing written for a while (an open prompt) → blocked-on-user
+ * - a tool call has no result yet (e.g. a long Bash run) → waiting-on-tool
+ * - a subagent's latest turn ended → finished; a lead's → waiting on the user,
+ *   so it never counts as working
+ *
+ * `asOf` replaces the current time when replaying a past session.
+ */
+export function deriveActivity(
+  facts: SessionFacts | null,
+  lastModified: Date,
+  { subagent = false, returned = false, asOf }: { subagent?: boolean; returned?: boolean; asOf?: Date } = {},
+): SessionActivity {
+  const elapsed = (asOf?.getTime() ?? Date.now()) - lastModified.getTime()
+
+  if (returned) return elapsed < FINISHED_THRESHOLD_MS ? 'finished' : 'idle'
+  if (facts?.lastError) return elapsed < STALLED_THRESHOLD_MS ? 'errored' : 'idle'
+  if (facts && isAwaitingUser(facts, elapsed)) {
+    return elapsed < BLOCKED_THRESHOLD_MS ? 'blocked-on-user' : 'idle'
+  }
+  if (facts && Object.keys(facts.pendingTools).length > 0) {
+    return elapsed < STALLED_THRESHOLD_MS ? 'waiting-on-tool' : 'idle'
+  }
+  if (facts?.turnEnded) {
+    if (subagent) return elapsed < FINISHED_THRESHOLD_MS ? 'finished' : 'idle'
+    return elapsed < DONE_THRESHOLD_MS ? 'completed' : 'idle'
+  }
+
   if (elapsed < ACTIVE_THRESHOLD_MS) return 'working'
   if (elapsed < DONE_THRESHOLD_MS) return 'completed'
   return 'idle'
 }
 
 /**
- * Read the first few lines from a JSONL file to extract metadata.
- * Reads only the first 8KB to stay fast on large files.
+ * The JSONL has no record for permission prompts, so infer one: the call is
+ * the last thing in the file and either always needs an answer or is a
+ * permission-gated tool that has produced no result or progress output.
+ * A silent, approved Bash call looks the same until its timeout has passed.
  */
-async function readFirstMessage(filePath: string): Promise<{
-  agentId: string | null
-  agentName: string | null
-  sessionId: string | null
-  model: string | null
-  role: string | null
-  currentTask: string | null
-}> {
-  const result = { agentId: null as string | null, agentName: null as string | null, sessionId: null as string | null, model: null as string | null, role: null as string | null, currentTask: null as string | null }
-
-  try {
-    // Read only the first 8KB of the file
-    const fh = await open(filePath, 'r')
-    const buf = Buffer.alloc(8192)
-    const { bytesRead } = await fh.read(buf, 0, 8192, 0)
-    await fh.close()
-
-    const chunk = buf.toString('utf-8', 0, bytesRead)
-    const lines = chunk.split('\n').slice(0, 5)
-
-    for (const line of lines) {
-      if (!line.trim()) continue
-      try {
-        const msg = JSON.parse(line)
-        if (msg.agentId && !result.agentId) {
-          result.agentId = msg.agentId
-        }
-        if (msg.sessionId && !result.sessionId) {
-          result.sessionId = msg.sessionId
-        }
-        if (msg.message?.model && !result.model) {
-          result.model = msg.message.model
-        }
-        if (msg.message?.role === 'user' && !result.role) {
-          const content = msg.message.content
-          const text = typeof content === 'string'
-            ? content
-            : Array.isArray(content) && content[0]?.text
-              ? content[0].text
-              : ''
-          // Match "You are takt-data-engineer, ..." or "You are **takt-data-engineer**, ..."
-          const nameMatch = text.match(/You are \*{0,2}([\w-]+)\*{0,2},\s*(?:an?\s+)?(.+?)(?:\s+agent|\s+for|\s+specializ)/i)
-          if (nameMatch) {
-            if (!result.agentName) result.agentName = nameMatch[1]
-            result.role = nameMatch[2]
-          }
-          // Extract ticket/task: "## Ticket M4-T02: Wire Dataset Loaders..."
-          if (!result.currentTask) {
-            const ticketMatch = text.match(/##\s+Ticket\s+(M\d+-T\d+):\s*(.+)/i)
-            if (ticketMatch) {
-              result.currentTask = `${ticketMatch[1]}: ${ticketMatch[2].trim()}`
-            } else {
-              // Generic task description from Task tool prompt
-              const taskMatch = text.match(/(?:^|\n)(?:##\s+)?(?:Task|Goal|Description)[:\s]+(.{10,120})/i)
-              if (taskMatch) {
-                result.currentTask = taskMatch[1].trim().split('\n')[0]
-              }
-            }
-          }
-        }
-      } catch {
-        // skip malformed lines
-      }
-    }
-  } catch {
-    // file unreadable
-  }
+function isAwaitingUser(facts: SessionFacts, elapsed: number): boolean {
+  const tool = facts.trailingToolUse
+  if (!tool) return false
+  if (INTERACTIVE_TOOLS.has(tool)) return true
+  if (!PERMISSION_TOOLS.has(tool)) return false
+  return elapsed >= (tool === 'Bash' ? BASH_PROMPT_MS : PERMISSION_PROMPT_MS)
+}
+
+/** Describe what a blocked agent is waiting for, e.g. "approve Bash: pytest tests/". */
+function blockedOnFor(facts: SessionFacts, activity: SessionActivity): string | null {
+  if (activity !== 'blocked-on-user') return null
+  const tool = facts.trailingToolUse ?? 'a tool'
+  if (INTERACTIVE_TOOLS.has(tool)) return tool === 'ExitPlanMode' ? 'approve the plan' : 'answer a question'
+  return `approve ${facts.lastAction ?? tool}`
+}
+
+/** The tool an agent is blocked on: its most recent call still awaiting a result. */
+function pendingToolName(facts: SessionFacts): string | null {
+  const names = Object.values(facts.pendingTools)
+  return names.length > 0 ? names[names.length - 1] : null
+}
 
-  return result
+export function getProjectSessionDir(claudeHome: string, projectDir: string): string {
+  const encoded = projectDir.replace(/\//g, '-')
+  return path.join(claudeHome, 'projects', encoded)
 }
 
 /**
- * Read the tail of a JSONL file to find the most recent tool call.
- * Returns a short description like "Edit src/data/pipeline.py" or "Bash: pytest tests/".
+ * Locate the JSONL file for a session id shown on an Agent.
+ * Main sessions are `<session-id>.jsonl`; subagents are `agent-<hash>.jsonl`
+ * under any main session's subagents directory.
  */
-async function readLastAction(filePath: string): Promise<string | null> {
-  try {
-    const fh = await open(filePath, 'r')
-    const stat = await fh.stat()
-    const tailSize = Math.min(16384, stat.size)
-    const buf = Buffer.alloc(tailSize)
-    const { bytesRead } = await fh.read(buf, 0, tailSize, Math.max(0, stat.size - tailSize))
-    await fh.close()
-
-    const chunk = buf.toString('utf-8', 0, bytesRead)
-    const lines = chunk.split('\n')
-
-    // Walk backwards to find the most recent tool_use
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const line = lines[i].trim()
-      if (!line) continue
-      try {
-        const msg = JSON.parse(line)
-        const content = msg.message?.content
-        if (!Array.isArray(content)) continue
-
-        for (const block of content) {
-          if (block?.type !== 'tool_use') continue
-          const tool = block.name ?? 'unknown'
-          const inp = block.input ?? {}
-
-          if (inp.file_path) {
-            const short = inp.file_path.split('/').slice(-2).join('/')
-            return `${tool} ${short}`
-          }
-          if (inp.command) {
-            const cmd = (inp.command as string).slice(0, 80).split('\n')[0]
-            return `Bash: ${cmd}`
-          }
-          if (inp.pattern) {
-            return `${tool}: ${inp.pattern}`
-          }
-          if (inp.query) {
-            return `${tool}: ${inp.query}`
-          }
-          return tool
-        }
-
-        // Also check for text summaries from the assistant
-        if (msg.message?.role === 'assistant') {
-          for (const block of content) {
-            if (block?.type === 'text' && block.text?.length > 10) {
-              const firstLine = block.text.trim().split('\n')[0].slice(0, 100)
-              if (firstLine) return firstLine
-            }
-          }
-        }
-      } catch {
-        // skip malformed lines
-      }
+export async function findSessionFile(
+  claudeHome: string,
+  projectDir: string,
+  sessionId: string,
+): Promise<{ filePath: string; isSubagent: boolean } | null> {
+  // Session ids are file basenames — reject anything that could escape the directory
+  if (!/^[\w-]+$/.test(sessionId)) return null
+
+  const sessionsDir = getProjectSessionDir(claudeHome, projectDir)
+  const mainPath = path.join(sessionsDir, `${sessionId}.jsonl`)
+  if (await fs.stat(mainPath).catch(() => null)) {
+    return { filePath: mainPath, isSubagent: false }
+  }
+
+  const entries = await fs.readdir(sessionsDir).catch(() => [] as string[])
+  for (const entry of entries) {
+    if (entry.endsWith('.jsonl')) continue
+    const subPath = path.join(sessionsDir, entry, 'subagents', `${sessionId}.jsonl`)
+    if (await fs.stat(subPath).catch(() => null)) {
+      return { filePath: subPath, isSubagent: true }
     }
-  } catch {
-    // file unreadable
   }
+
   return null
 }
 
-function getProjectSessionDir(claudeHome: string, projectDir: string): string {
-  const encoded = projectDir.replace(/\//g, '-')
-  return path.join(claudeHome, 'projects', encoded)
+export interface SessionFileEntry {
+  readonly filePath: string
+  /** File basename, the id shown on an Agent. */
+  readonly sessionId: string
+  readonly mainSessionId: string
+  readonly isSubagent: boolean
+}
+
+/**
+ * List every main and subagent session JSONL file for a project.
+ */
+export async function listSessionFiles(claudeHome: string, projectDir: string): Promise<SessionFileEntry[]> {
+  const sessionsDir = getProjectSessionDir(claudeHome, projectDir)
+  const entries = await fs.readdir(sessionsDir).catch(() => [] as string[])
+  const results: SessionFileEntry[] = []
+
+  for (const entry of entries) {
+    if (entry.endsWith('.jsonl')) {
+      const sessionId = entry.replace('.jsonl', '')
+      results.push({ filePath: path.join(sessionsDir, entry), sessionId, mainSessionId: sessionId, isSubagent: false })
+      continue
+    }
+    const subagentsDir = path.join(sessionsDir, entry, 'subagents')
+    const files = await fs.readdir(subagentsDir).catch(() => [] as string[])
+    for (const file of files) {
+      if (!file.endsWith('.jsonl')) continue
+      results.push({
+        filePath: path.join(subagentsDir, file),
+        sessionId: file.replace('.jsonl', ''),
+        mainSessionId: entry,
+        isSubagent: true,
+      })
+    }
+  }
+
+  return results
 }
 
 /**
- * Find the most recently modified main session JSONL for this project.
+ * Find the main session JSONLs for this project that are running concurrently:
+ * the most recently modified one plus any other written to within the window.
+ * Several people or terminals can run Claude Code against the same repo.
  */
-async function findActiveMainSession(sessionsDir: string): Promise<{
+async function findActiveMainSessions(sessionsDir: string): Promise<Array<{
   sessionId: string
   filePath: string
   lastModified: Date
-} | null> {
+}>> {
   const entries = await fs.readdir(sessionsDir).catch(() => [] as string[])
 
-  let best: { sessionId: string; filePath: string; lastModified: Date } | null = null
+  const found: Array<{ sessionId: string; filePath: string; lastModified: Date }> = []
 
   for (const entry of entries) {
     if (!entry.endsWith('.jsonl')) continue
@@ -217,73 +270,406 @@ async function findActiveMainSession(sessionsDir: string): Promise<{
     const stat = await fs.stat(filePath).catch(() => null)
     if (!stat) continue
 
-    if (!best || stat.mtime > best.lastModified) {
-      best = {
-        sessionId: entry.replace('.jsonl', ''),
-        filePath,
-        lastModified: stat.mtime,
-      }
+    found.push({
+      sessionId: entry.replace('.jsonl', ''),
+      filePath,
+      lastModified: stat.mtime,
+    })
+  }
+
+  return concurrentSessions(found)
+}
+
+/** The most recently modified session plus any other written to within the window, newest first. */
+function concurrentSessions<T extends { lastModified: Date }>(sessions: readonly T[]): T[] {
+  const cutoff = Date.now() - CONCURRENT_SESSION_WINDOW_MS
+  return [...sessions]
+    .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime())
+    .filter((s, i) => i === 0 || s.lastModified.getTime() >= cutoff)
+}
+
+/**
+ * The model Claude Code is configured to run for a project: ANTHROPIC_MODEL,
+ * then the project's local and shared settings, then the user settings.
+ */
+export async function readModelSetting(
+  claudeHome: string,
+  projectDir: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<string | null> {
+  if (env.ANTHROPIC_MODEL) return env.ANTHROPIC_MODEL
+  const settingsFiles = [
+    path.join(projectDir, '.claude', 'settings.local.json'),
+    path.join(projectDir, '.claude', 'settings.json'),
+    path.join(claudeHome, 'settings.json'),
+  ]
+  for (const file of settingsFiles) {
+    try {
+      const model = JSON.parse(await fs.readFile(file, 'utf-8'))?.model
+      if (typeof model === 'string' && model) return model
+    } catch {
+      // missing or malformed settings file
     }
   }
+  return null
+}
 
-  return best
+/**
+ * Window size for a session's model. The JSONL records the plain API model id,
+ * so the 1M-token context shows up either as a "[1m]" model id or as a "[1m]"
+ * model setting ("sonnet[1m]", "claude-opus-4-1[1m]") naming the same model.
+ */
+export function contextWindowSize(model: string | null, modelSetting: string | null = null): number {
+  if (model && EXTENDED_CONTEXT_SUFFIX.test(model)) return CONTEXT_WINDOW_EXTENDED
+  if (!modelSetting || !EXTENDED_CONTEXT_SUFFIX.test(modelSetting)) return CONTEXT_WINDOW_MAX
+  const configured = modelSetting.replace(EXTENDED_CONTEXT_SUFFIX, '').toLowerCase()
+  return !model || model.toLowerCase().includes(configured) ? CONTEXT_WINDOW_EXTENDED : CONTEXT_WINDOW_MAX
 }
 
 /**
- * Read all subagent sessions from the active main session's subagents directory.
+ * Context size after the latest assistant turn: everything sent as input,
+ * whether fresh, written to cache or read from cache, out of `total`.
  */
-async function readSubagentSessions(sessionsDir: string, mainSessionId: string): Promise<AgentSession[]> {
+export function contextWindowFromUsage(usage: TokenUsage | null, total = CONTEXT_WINDOW_MAX): ContextWindow | null {
+  if (!usage) return null
+  const used = usage.input + usage.cacheCreation + usage.cacheRead
+  return {
+    used,
+    total,
+    percentage: Math.round((used / total) * 100),
+  }
+}
+
+interface SubagentIdentity {
+  readonly agentId: string
+  readonly agentName: string | null
+  readonly role: string | null
+  readonly currentTask: string | null
+}
+
+/**
+ * Compacted files start from a summary instead of the spawn prompt, so the
+ * "You are X" line is gone. Re-link them to the agent they continue, trying
+ * in order: a sibling file with the same agentId, the parent session's Task
+ * call that spawned this agentId, then names and tickets in the summary text.
+ */
+export function recoverIdentity(
+  facts: SessionFacts,
+  fallbackId: string,
+  siblings: readonly SubagentIdentity[],
+  spawns: readonly TaskSpawn[],
+): SubagentIdentity {
+  const agentId = facts.agentId ?? fallbackId
+  const own: SubagentIdentity = {
+    agentId,
+    agentName: facts.agentName,
+    role: facts.role,
+    currentTask: facts.currentTask,
+  }
+  if (facts.agentName) return own
+
+  const sibling = siblings.find(s => s.agentName && s.agentId === agentId)
+  if (sibling) return { ...sibling, currentTask: own.currentTask ?? sibling.currentTask }
+
+  const spawn = spawns.find(s => s.agentId === agentId && s.agentName)
+  if (spawn) return { ...own, agentName: spawn.agentName, currentTask: own.currentTask ?? spawn.task }
+
+  const summary = facts.compactSummary
+  if (!summary) return own
+
+  const summaryTask = own.currentTask ?? extractTask(summary)
+  const named = extractAgentName(summary)
+  if (named) {
+    const match = siblings.find(s => s.agentName === named)
+    return match
+      ? { ...match, currentTask: summaryTask ?? match.currentTask }
+      : { ...own, agentName: named, currentTask: summaryTask }
+  }
+
+  // Fall back to the first known agent the summary mentions by name
+  const known = [
+    ...siblings,
+    ...spawns.map(s => ({ agentId: s.agentId ?? '', agentName: s.agentName, role: null, currentTask: s.task })),
+  ]
+  const mentioned = known.find(s => s.agentName && summary.includes(s.agentName))
+  if (mentioned) {
+    return { ...mentioned, agentId: mentioned.agentId || agentId, currentTask: summaryTask ?? mentioned.currentTask }
+  }
+
+  return { ...own, currentTask: summaryTask }
+}
+
+/**
+ * Find the Task call that started a subagent: by the agentId its result
+ * reported, by the exact prompt (while still running, before any result),
+ * or by the latest spawn for the same agent name (compacted files).
+ */
+function findSpawn(
+  spawns: readonly TaskSpawn[],
+  facts: SessionFacts,
+  identity: SubagentIdentity,
+): TaskSpawn | null {
+  return spawns.find(s => s.agentId !== null && (s.agentId === identity.agentId || s.agentId === facts.agentId))
+    ?? (facts.spawnPrompt ? spawns.find(s => s.prompt === facts.spawnPrompt) : undefined)
+    ?? (identity.agentName ? [...spawns].reverse().find(s => s.agentName === identity.agentName) : undefined)
+    ?? null
+}
+
+interface SessionReadOptions {
+  readonly modelSetting: string | null
+  /** Derive statuses as of this time instead of now. */
+  readonly asOf?: Date
+  /** Tails live files with a kept cursor; past sessions are parsed once instead. */
+  readonly readFile: (filePath: string) => Promise<TailResult | null>
+}
+
+/**
+ * Read all subagent sessions from a main session's subagents directory.
+ * Spawns from the main session help identify compacted subagent files.
+ * Claude Code writes helpers spawned by a subagent into the same directory,
+ * so Task calls made by subagents are matched too and their caller becomes
+ * the helper's parent.
+ */
+async function readSubagentSessions(
+  sessionsDir: string,
+  mainSessionId: string,
+  spawns: readonly TaskSpawn[],
+  { modelSetting, asOf, readFile }: SessionReadOptions,
+): Promise<AgentSession[]> {
   const subagentsDir = path.join(sessionsDir, mainSessionId, 'subagents')
   const files = await fs.readdir(subagentsDir).catch(() => [] as string[])
 
-  const results: AgentSession[] = []
-  // Process files newest first so we get the latest session for each agentId
-  const fileStats: Array<{ file: string; mtime: Date }> = []
-
+  // Tail every file (a single stat when unchanged), then process newest first
+  // so we keep the latest session for each agentId
+  const tails: Array<{ filePath: string; file: string; tail: TailResult }> = []
   for (const file of files) {
     if (!file.endsWith('.jsonl')) continue
     const filePath = path.join(subagentsDir, file)
-    const stat = await fs.stat(filePath).catch(() => null)
-    if (!stat) continue
-    fileStats.push({ file, mtime: stat.mtime })
+    const tail = await readFile(filePath)
+    if (tail) tails.push({ filePath, file, tail })
   }
 
-  // Sort newest first
-  fileStats.sort((a, b) => b.mtime.getTime() - a.mtime.getTime())
+  tails.sort((a, b) => b.tail.lastModified.getTime() - a.tail.lastModified.getTime())
+
+  // Identities from files that still have their spawn prompt
+  const siblings: SubagentIdentity[] = tails
+    .filter(({ tail }) => tail.facts.agentName)
+    .map(({ file, tail }) => ({
+      agentId: tail.facts.agentId ?? file.replace('.jsonl', ''),
+      agentName: tail.facts.agentName,
+      role: tail.facts.role,
+      currentTask: tail.facts.currentTask,
+    }))
+
+  // Task calls made by subagents, keyed to the file that made them
+  const spawnOwners = new Map<TaskSpawn, string>()
+  for (const { file, tail } of tails) {
+    for (const spawn of tail.facts.taskSpawns) spawnOwners.set(spawn, file)
+  }
+  const allSpawns = [...spawns, ...spawnOwners.keys()]
+  const identified = tails.map(t => ({
+    ...t,
+    identity: recoverIdentity(t.tail.facts, t.file.replace('.jsonl', ''), siblings, allSpawns),
+  }))
+  const identities = new Map(identified.map(({ file, identity }) => [file, identity]))
 
+  const results: AgentSession[] = []
   const seenAgents = new Set<string>()
 
-  for (const { file, mtime } of fileStats) {
-    const filePath = path.join(subagentsDir, file)
-    const meta = await readFirstMessage(filePath)
-    const agentId = meta.agentId ?? file.replace('.jsonl', '')
-
-    // Only keep the most recent session per agent
-    if (seenAgents.has(agentId)) continue
-    seenAgents.add(agentId)
+  for (const { filePath, file, tail, identity } of identified) {
+    const { facts, lastModified } = tail
+    const compacted = file.startsWith(COMPACT_FILE_PREFIX) || facts.compactSummary !== null
+    const spawn = findSpawn(allSpawns, facts, identity)
+    const ownerFile = spawn ? spawnOwners.get(spawn) : undefined
+    const parentAgentId = ownerFile ? identities.get(ownerFile)?.agentId ?? null : null
+    const activity = deriveActivity(facts, lastModified, {
+      subagent: true,
+      returned: spawn !== null && spawn.result !== null,
+      asOf,
+    })
 
-    const activity = deriveActivity(mtime)
-    // Only read last action for recently active sessions (avoid I/O on stale files)
-    const lastAction = activity !== 'idle'
-      ? await readLastAction(filePath)
-      : null
+    // Only keep the most recent session per agent, so a compacted file replaces its original
+    if (seenAgents.has(identity.agentId)) continue
+    seenAgents.add(identity.agentId)
 
     results.push({
-      agentId,
-      agentName: meta.agentName,
+      agentId: identity.agentId,
+      mainSessionId,
+      agentName: identity.agentName,
       sessionFile: filePath,
-      lastModified: mtime,
+      lastModified,
       activity,
-      model: meta.model,
-      role: meta.role,
-      currentTask: meta.currentTask,
-      lastAction,
+      model: facts.model,
+      role: identity.role,
+      currentTask: identity.currentTask,
+      lastAction: facts.lastAction,
+      messageCount: facts.messageCount,
+      toolUseCount: facts.toolUseCount,
+      contextWindow: contextWindowFromUsage(facts.lastUsage, contextWindowSize(facts.model, modelSetting)),
+      compacted,
+      spawn,
+      parentAgentId: parentAgentId === identity.agentId ? null : parentAgentId,
+      waitingOn: pendingToolName(facts),
+      lastError: facts.lastError,
+      errorCount: facts.errorCount,
+      recentErrors: facts.recentErrors,
+      blockedOn: blockedOnFor(facts, activity),
+      files: facts.fileTouches,
     })
   }
 
   return results
 }
 
+/**
+ * Read one main session file along with its subagents.
+ * Statuses are derived as of `asOf` (default now).
+ */
+async function readMainSession(
+  sessionsDir: string,
+  main: { sessionId: string; filePath: string; lastModified: Date },
+  options: SessionReadOptions,
+): Promise<MainSession> {
+  const { modelSetting, asOf, readFile } = options
+  const mainTail = await readFile(main.filePath)
+  const subagents = await readSubagentSessions(sessionsDir, main.sessionId, mainTail?.facts.taskSpawns ?? [], options)
+  const activity = deriveActivity(mainTail?.facts ?? null, main.lastModified, { asOf })
+
+  return {
+    sessionId: main.sessionId,
+    sessionFile: main.filePath,
+    lastModified: main.lastModified,
+    startedAt: mainTail?.facts.firstTimestamp ?? null,
+    activity,
+    contextWindow: contextWindowFromUsage(
+      mainTail?.facts.lastUsage ?? null,
+      contextWindowSize(mainTail?.facts.model ?? null, modelSetting),
+    ),
+    blockedOn: mainTail ? blockedOnFor(mainTail.facts, activity) : null,
+    errorCount: mainTail?.facts.errorCount ?? 0,
+    recentErrors: mainTail?.facts.recentErrors ?? [],
+    files: mainTail?.facts.fileTouches ?? {},
+    subagents,
+  }
+}
+
+/**
+ * Agent id of whoever spawned a subagent: the subagent that made its Task
+ * call, or otherwise the lead of its main session.
+ */
+export function parentAgentIdFor(snapshot: SessionSnapshot, sub: AgentSession): string {
+  const parent = sub.parentAgentId
+    ? snapshot.subagents.find(s => s.mainSessionId === sub.mainSessionId && s.agentId === sub.parentAgentId)
+    : undefined
+  if (parent) return parent.agentName ?? parent.agentId
+
+  const mainIndex = snapshot.mainSessions.findIndex(m => m.sessionId === sub.mainSessionId)
+  return leadIdFor(sub.mainSessionId, Math.max(mainIndex, 0))
+}
+
+/**
+ * A subagent's spawn record as shown on its Agent, attributed to the lead
+ * or subagent that made the Task call.
+ */
+export function agentSpawnFor(snapshot: SessionSnapshot, sub: AgentSession): AgentSpawn | null {
+  if (!sub.spawn) return null
+  return {
+    parentId: parentAgentIdFor(snapshot, sub),
+    toolUseId: sub.spawn.toolUseId,
+    spawnedAt: sub.spawn.timestamp,
+    turnId: sub.spawn.turnId,
+    subagentType: sub.spawn.subagentType,
+    description: sub.spawn.description,
+    instructions: sub.spawn.prompt,
+    result: sub.spawn.result,
+    completedAt: sub.spawn.completedAt,
+  }
+}
+
+const STATUS_EVENT_TYPE: Record<SessionActivity, ActivityEventType> = {
+  'working': 'ticket-started',
+  'waiting-on-tool': 'ticket-started',
+  'blocked-on-user': 'system',
+  'idle': 'agent-idle',
+  'errored': 'ticket-failed',
+  'completed': 'ticket-completed',
+  'finished': 'ticket-completed',
+}
+
+/** Activity event describing a subagent's current status, task and latest action. */
+export function subagentActivityEvent(sub: AgentSession, displayId: string): ActivityEvent {
+  let summary: string
+  if (sub.activity === 'working') {
+    const taskPart = sub.currentTask ? ` on ${sub.currentTask}` : ''
+    const actionPart = sub.lastAction ? ` — ${sub.lastAction}` : ''
+    summary = `[${displayId}] Working${taskPart}${actionPart}`
+  } else if (sub.activity === 'waiting-on-tool') {
+    const actionPart = sub.lastAction ? ` — ${sub.lastAction}` : ''
+    summary = `[${displayId}] Waiting on ${sub.waitingOn ?? 'a tool'}${actionPart}`
+  } else if (sub.activity === 'blocked-on-user') {
+    summary = `[${displayId}] Blocked — needs you to ${sub.blockedOn ?? 'respond'}`
+  } else if (sub.activity === 'errored') {
+    summary = `[${displayId}] Errored: ${(sub.lastError ?? 'unknown error').split('\n')[0].slice(0, 120)}`
+  } else if (sub.activity === 'finished') {
+    const taskPart = sub.currentTask ? `: ${sub.currentTask}` : ''
+    summary = `[${displayId}] Finished${taskPart}`
+  } else if (sub.activity === 'completed') {
+    const taskPart = sub.currentTask ? `: ${sub.currentTask}` : ''
+    summary = `[${displayId}] Just finished${taskPart}`
+  } else {
+    summary = `[${displayId}] Idle`
+  }
+
+  return {
+    timestamp: sub.lastModified.toISOString(),
+    agentId: displayId,
+    sessionId: path.basename(sub.sessionFile, '.jsonl'),
+    type: STATUS_EVENT_TYPE[sub.activity],
+    summary,
+  }
+}
+
+/** One agent-error event per recent tool failure, API error or interruption in a session. */
+export function errorActivityEvents(
+  session: AgentSession | MainSession,
+  displayId: string,
+  sessionId: string,
+): ActivityEvent[] {
+  return session.recentErrors.map(error => {
+    const what = error.kind === 'tool' ? `${error.toolName ?? 'Tool call'} failed`
+      : error.kind === 'api' ? 'API error'
+      : 'Interrupted'
+    return {
+      timestamp: error.timestamp ?? session.lastModified.toISOString(),
+      agentId: displayId,
+      sessionId,
+      type: 'agent-error',
+      summary: `[${displayId}] ${what}: ${error.message.slice(0, 120)}`,
+    }
+  })
+}
+
+type LeadCandidate = Pick<MainSession, 'sessionId' | 'lastModified' | 'startedAt'>
+
+/**
+ * Order main sessions by when they started. Writes to one session move it
+ * ahead of the others by mtime, so its start is what keeps lead ids stable
+ * between reads.
+ */
+function byStartTime(a: LeadCandidate, b: LeadCandidate): number {
+  const startOf = (main: LeadCandidate) => main.startedAt ?? main.lastModified.toISOString()
+  return startOf(a).localeCompare(startOf(b)) || a.sessionId.localeCompare(b.sessionId)
+}
+
+/**
+ * Lead agent id of every main session running concurrently, as
+ * readSessionSnapshot assigns them, for callers that read the files themselves.
+ */
+export function leadIdsOf(mains: readonly LeadCandidate[]): Map<string, string> {
+  const running = concurrentSessions(mains).sort(byStartTime)
+  return new Map(running.map((main, i) => [main.sessionId, leadIdFor(main.sessionId, i)]))
+}
+
 /**
  * Get a full snapshot of session activity for a project.
  */
@@ -292,21 +678,49 @@ export async function readSessionSnapshot(
   projectDir: string,
 ): Promise<SessionSnapshot> {
   const sessionsDir = getProjectSessionDir(claudeHome, projectDir)
-  const main = await findActiveMainSession(sessionsDir)
+  const mains = await findActiveMainSessions(sessionsDir)
 
-  if (!main) {
-    return { mainSession: null, subagents: [] }
-  }
+  const modelSetting = await readModelSetting(claudeHome, projectDir)
 
-  const subagents = await readSubagentSessions(sessionsDir, main.sessionId)
+  const options = { modelSetting, readFile: tailSessionFile }
+  const mainSessions = (await Promise.all(mains.map(main => readMainSession(sessionsDir, main, options))))
+    .sort(byStartTime)
+  const subagents = mainSessions
+    .flatMap(main => main.subagents)
+    .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime())
 
   return {
-    mainSession: {
-      sessionId: main.sessionId,
-      sessionFile: main.filePath,
-      lastModified: main.lastModified,
-      activity: deriveActivity(main.lastModified),
-    },
+    mainSession: mainSessions[0] ?? null,
+    mainSessions,
     subagents,
   }
 }
+
+/**
+ * Snapshot of a single main session, past or present, with statuses as they
+ * stood when its file was last written. Returns null for unknown session ids.
+ */
+export async function readSessionSnapshotAt(
+  claudeHome: string,
+  projectDir: string,
+  sessionId: string,
+): Promise<SessionSnapshot | null> {
+  if (!/^[\w-]+$/.test(sessionId)) return null
+
+  const sessionsDir = getProjectSessionDir(claudeHome, projectDir)
+  const filePath = path.join(sessionsDir, `${sessionId}.jsonl`)
+  const stat = await fs.stat(filePath).catch(() => null)
+  if (!stat) return null
+
+  const modelSetting = await readModelSetting(claudeHome, projectDir)
+  const main = await readMainSession(
+    sessionsDir,
+    { sessionId, filePath, lastModified: stat.mtime },
+    { modelSetting, asOf: stat.mtime, readFile: readSessionFile },
+  )
+  return {
+    mainSession: main,
+    mainSessions: [main],
+    subagents: main.subagents,
+  }
+}
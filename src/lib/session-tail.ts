@@ -0,0 +1,682 @@
+/**
+ * Incremental tailing of session JSONL files.
+ *
+ * Each file gets a persistent cursor (size, mtime, byte offset) plus the facts
+ * derived from everything read so far. On each call only bytes appended since
+ * the last read are parsed and folded into the existing facts, so re-reading a
+ * project with dozens of long subagent files costs one stat per unchanged file.
+ */
+import fs from 'fs/promises'
+import { open } from 'fs/promises'
+import type { FileTouchKind, TokenUsage } from '@/types'
+import { SPAWN_MAX_TEXT } from '@/lib/constants'
+
+// Initial read size; doubled when a single line is longer than the chunk
+const TAIL_CHUNK_BYTES = 1024 * 1024
+const NEWLINE = 0x0a
+
+// Tool names Claude Code has used for spawning a subagent
+const SPAWN_TOOLS = new Set(['Task', 'Agent'])
+// Errors kept per session for activity events; older ones only count
+const ERROR_HISTORY = 20
+const INTERRUPTED_PREFIX = '[Request interrupted'
+
+// First user message of a session that was auto-compacted into a fresh file
+const COMPACT_SUMMARY_PREFIX = 'This session is being continued from a previous conversation'
+
+// Tools whose file_path (or notebook_path) input names the file they touch
+const FILE_TOOL_KINDS: Record<string, FileTouchKind> = {
+  Read: 'read',
+  Edit: 'edit',
+  MultiEdit: 'edit',
+  NotebookEdit: 'edit',
+  Write: 'write',
+}
+
+export type SessionErrorKind = 'tool' | 'api' | 'interrupted'
+
+/** A failed tool call, API error (overloaded, rate limit, …) or interrupted turn. */
+export interface SessionError {
+  readonly timestamp: string | null
+  readonly kind: SessionErrorKind
+  /** The tool that failed, for tool errors. */
+  readonly toolName: string | null
+  /** First line of the error text. */
+  readonly message: string
+}
+
+/** Per-file counts of one session's Read / Edit / Write calls. */
+export interface FileTouchCounts {
+  readonly reads: number
+  readonly edits: number
+  readonly writes: number
+  readonly lastTouchedAt: string | null
+  readonly lastEditedAt: string | null
+}
+
+/** A subagent spawned through the Task tool, as seen from the parent session. */
+export interface TaskSpawn {
+  readonly toolUseId: string
+  readonly timestamp: string | null
+  /** Message id of the parent's assistant turn that made the call. */
+  readonly turnId: string | null
+  readonly subagentType: string | null
+  readonly description: string | null
+  /** The prompt the subagent was started with, truncated. */
+  readonly prompt: string
+  /** Agent name from the spawn prompt's "You are X" line. */
+  readonly agentName: string | null
+  readonly task: string | null
+  /** Filled in from the tool result once the subagent has finished. */
+  readonly agentId: string | null
+  readonly result: string | null
+  readonly completedAt: string | null
+}
+
+export interface SessionFacts {
+  readonly agentId: string | null
+  /** The agent name from the prompt (e.g. "takt-eval-engineer"), distinct from agentId hash. */
+  readonly agentName: string | null
+  readonly sessionId: string | null
+  readonly model: string | null
+  readonly role: string | null
+  /** The ticket or task being worked on (e.g. "M4-T02: Wire Dataset Loaders"). */
+  readonly currentTask: string | null
+  /** Most recent tool call or action (e.g. "Edit src/data/pipeline.py"). */
+  readonly lastAction: string | null
+  /** User + assistant records seen so far. */
+  readonly messageCount: number
+  readonly toolUseCount: number
+  /** Assistant token usage bucketed by UTC date (YYYY-MM-DD). */
+  readonly usageByDate: Readonly<Record<string, TokenUsage>>
+  /** Usage of the latest assistant turn — its input side is the current context size. */
+  readonly lastUsage: TokenUsage | null
+  /** Timestamps of the first and latest records. */
+  readonly firstTimestamp: string | null
+  readonly lastTimestamp: string | null
+  /** First user message, i.e. the prompt a subagent was spawned with (truncated). */
+  readonly spawnPrompt: string | null
+  /** The summary a compacted session starts with, in place of the original prompt. */
+  readonly compactSummary: string | null
+  /** Subagents this session spawned through the Task tool, in call order. */
+  readonly taskSpawns: readonly TaskSpawn[]
+  /** Absolute file path → how often this session read, edited or wrote it. */
+  readonly fileTouches: Readonly<Record<string, FileTouchCounts>>
+  /** tool_use id → tool name for calls that have no tool_result yet. */
+  readonly pendingTools: Readonly<Record<string, string>>
+  /**
+   * Tool name when the file's very last record is a tool_use: nothing (no
+   * result, no progress output) has been written since the call was made.
+   */
+  readonly trailingToolUse: string | null
+  /** The latest assistant message ended its turn and nothing has been sent since. */
+  readonly turnEnded: boolean
+  /** The latest API or system error, cleared once the agent produces a normal reply. */
+  readonly lastError: string | null
+  /** All errors seen so far in the session. */
+  readonly errorCount: number
+  /** The most recent errors, oldest first (capped). */
+  readonly recentErrors: readonly SessionError[]
+}
+
+interface CountedUsage {
+  readonly messageId: string | null
+  readonly date: string
+  readonly usage: TokenUsage
+}
+
+type MutableFacts = { -readonly [K in keyof SessionFacts]: SessionFacts[K] } & {
+  promptParsed: boolean
+  usageByDate: Record<string, TokenUsage>
+  /** Usage last added, so repeated records of the same message replace it instead of double counting. */
+  lastCounted: CountedUsage | null
+  taskSpawns: TaskSpawn[]
+  pendingTools: Record<string, string>
+  fileTouches: Record<string, FileTouchCounts>
+  recentErrors: SessionError[]
+}
+
+interface FileCursor {
+  readonly size: number
+  readonly mtimeMs: number
+  /** Bytes consumed, always just past the last complete line. */
+  readonly offset: number
+  readonly facts: MutableFacts
+}
+
+export interface TailResult {
+  readonly facts: SessionFacts
+  readonly lastModified: Date
+}
+
+/** A parsed JSONL line or nested object. Fields vary by record type and are checked at use. */
+type SessionRecord = Record<string, unknown>
+
+const cursors = new Map<string, FileCursor>()
+// In-flight tail per file: calls for the same file run one after another so
+// appended lines are never folded into the shared facts twice
+const pendingTails = new Map<string, Promise<TailResult | null>>()
+
+function asRecord(value: unknown): SessionRecord | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as SessionRecord : null
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+/** The object blocks of a message's content; string content has none. */
+function blocksOf(content: unknown): SessionRecord[] {
+  if (!Array.isArray(content)) return []
+  return content.map(asRecord).filter((block): block is SessionRecord => block !== null)
+}
+
+function createFacts(): MutableFacts {
+  return {
+    agentId: null,
+    agentName: null,
+    sessionId: null,
+    model: null,
+    role: null,
+    currentTask: null,
+    lastAction: null,
+    messageCount: 0,
+    toolUseCount: 0,
+    usageByDate: {},
+    lastUsage: null,
+    firstTimestamp: null,
+    lastTimestamp: null,
+    spawnPrompt: null,
+    compactSummary: null,
+    taskSpawns: [],
+    pendingTools: {},
+    fileTouches: {},
+    trailingToolUse: null,
+    turnEnded: false,
+    lastError: null,
+    errorCount: 0,
+    recentErrors: [],
+    promptParsed: false,
+    lastCounted: null,
+  }
+}
+
+/**
+ * Match "You are takt-data-engineer, ..." or "You are **takt-data-engineer**, ...".
+ * Group 1 is the agent name, group 2 the role description.
+ */
+function matchAgentPrompt(text: string): RegExpMatchArray | null {
+  return text.match(/You are \*{0,2}([\w-]+)\*{0,2},\s*(?:an?\s+)?(.+?)(?:\s+agent|\s+for|\s+specializ)/i)
+}
+
+/** Extract the agent name from a subagent prompt, or null if the prompt has no "You are X" line. */
+export function extractAgentName(text: string): string | null {
+  return matchAgentPrompt(text)?.[1] ?? null
+}
+
+/** Extract the ticket or generic task description from a prompt. */
+export function extractTask(text: string): string | null {
+  // "## Ticket M4-T02: Wire Dataset Loaders..."
+  const ticketMatch = text.match(/##\s+Ticket\s+(M\d+-T\d+):\s*(.+)/i)
+  if (ticketMatch) {
+    return `${ticketMatch[1]}: ${ticketMatch[2].trim()}`
+  }
+  // Generic task description from Task tool prompt
+  const taskMatch = text.match(/(?:^|\n)(?:##\s+)?(?:Task|Goal|Description)[:\s]+(.{10,120})/i)
+  if (taskMatch) {
+    return taskMatch[1].trim().split('\n')[0]
+  }
+  return null
+}
+
+/**
+ * Describe a record as a short action like "Edit src/data/pipeline.py" or "Bash: pytest tests/".
+ * Returns null for records that carry no action (e.g. tool results).
+ */
+function describeAction(message: SessionRecord): string | null {
+  const blocks = blocksOf(message.content)
+
+  for (const block of blocks) {
+    if (block.type !== 'tool_use') continue
+    const tool = asString(block.name) ?? 'unknown'
+    const inp = asRecord(block.input) ?? {}
+
+    const filePath = asString(inp.file_path)
+    if (filePath) {
+      const short = filePath.split('/').slice(-2).join('/')
+      return `${tool} ${short}`
+    }
+    const command = asString(inp.command)
+    if (command) {
+      const cmd = command.slice(0, 80).split('\n')[0]
+      return `Bash: ${cmd}`
+    }
+    const pattern = asString(inp.pattern)
+    if (pattern) {
+      return `${tool}: ${pattern}`
+    }
+    const query = asString(inp.query)
+    if (query) {
+      return `${tool}: ${query}`
+    }
+    return tool
+  }
+
+  // Also use text summaries from the assistant
+  if (message.role === 'assistant') {
+    for (const block of blocks) {
+      const text = asString(block.text)
+      if (block.type === 'text' && text && text.length > 10) {
+        const firstLine = text.trim().split('\n')[0].slice(0, 100)
+        if (firstLine) return firstLine
+      }
+    }
+  }
+
+  return null
+}
+
+export const EMPTY_USAGE: TokenUsage = { input: 0, output: 0, cacheCreation: 0, cacheRead: 0 }
+
+export function addUsage(a: TokenUsage, b: TokenUsage, sign = 1): TokenUsage {
+  return {
+    input: a.input + sign * b.input,
+    output: a.output + sign * b.output,
+    cacheCreation: a.cacheCreation + sign * b.cacheCreation,
+    cacheRead: a.cacheRead + sign * b.cacheRead,
+  }
+}
+
+/**
+ * Tokens that count towards usage limits. Cache reads are excluded: they are
+ * billed at a fraction of input cost and would otherwise dwarf everything else.
+ */
+export function countedTokens(usage: TokenUsage): number {
+  return usage.input + usage.output + usage.cacheCreation
+}
+
+function tokenCount(value: unknown): number {
+  return typeof value === 'number' ? value : 0
+}
+
+function parseUsage(raw: SessionRecord): TokenUsage {
+  return {
+    input: tokenCount(raw.input_tokens),
+    output: tokenCount(raw.output_tokens),
+    cacheCreation: tokenCount(raw.cache_creation_input_tokens),
+    cacheRead: tokenCount(raw.cache_read_input_tokens),
+  }
+}
+
+/**
+ * Claude Code writes one record per content block of an assistant message,
+ * each repeating the message's usage (the last one is final). Count each
+ * message id once, keeping the latest usage seen for it.
+ */
+function applyUsage(facts: MutableFacts, msg: SessionRecord, message: SessionRecord): void {
+  const rawUsage = asRecord(message.usage)
+  const timestamp = asString(msg.timestamp)
+  if (!rawUsage || !timestamp) return
+
+  const usage = parseUsage(rawUsage)
+  const date = timestamp.slice(0, 10)
+  const messageId = asString(message.id) ?? asString(msg.uuid)
+
+  const prev = facts.lastCounted
+  if (prev && messageId && prev.messageId === messageId) {
+    facts.usageByDate[prev.date] = addUsage(facts.usageByDate[prev.date] ?? EMPTY_USAGE, prev.usage, -1)
+  }
+  facts.usageByDate[date] = addUsage(facts.usageByDate[date] ?? EMPTY_USAGE, usage)
+  facts.lastCounted = { messageId, date, usage }
+  facts.lastUsage = usage
+}
+
+function truncateSpawnText(text: string): string {
+  return text.length <= SPAWN_MAX_TEXT ? text : `${text.slice(0, SPAWN_MAX_TEXT)}…`
+}
+
+function resultText(content: unknown): string {
+  if (typeof content === 'string') return content
+  return blocksOf(content)
+    .filter(b => b.type === 'text' && typeof b.text === 'string')
+    .map(b => b.text as string)
+    .join('\n')
+}
+
+/**
+ * Record Task tool calls, then fill in the subagent's agentId and final
+ * answer when the tool result comes back (it carries `toolUseResult.agentId`).
+ */
+function applySpawns(facts: MutableFacts, msg: SessionRecord, message: SessionRecord, content: SessionRecord[]): void {
+  for (const block of content) {
+    const name = asString(block.name)
+    const id = asString(block.id)
+    if (block.type === 'tool_use' && name && SPAWN_TOOLS.has(name) && id) {
+      const input = asRecord(block.input)
+      const prompt = asString(input?.prompt) ?? ''
+      facts.taskSpawns.push({
+        toolUseId: id,
+        timestamp: asString(msg.timestamp),
+        turnId: asString(message.id) ?? asString(msg.uuid),
+        subagentType: asString(input?.subagent_type),
+        description: asString(input?.description),
+        prompt: truncateSpawnText(prompt),
+        agentName: prompt ? extractAgentName(prompt) : null,
+        task: prompt ? extractTask(prompt) : null,
+        agentId: null,
+        result: null,
+        completedAt: null,
+      })
+    } else if (block.type === 'tool_result') {
+      const i = facts.taskSpawns.findIndex(s => s.toolUseId === block.tool_use_id)
+      if (i === -1) continue
+      const agentId = asString(asRecord(msg.toolUseResult)?.agentId)
+      facts.taskSpawns[i] = {
+        ...facts.taskSpawns[i],
+        agentId: agentId ?? facts.taskSpawns[i].agentId,
+        result: truncateSpawnText(resultText(block.content)),
+        completedAt: asString(msg.timestamp),
+      }
+    }
+  }
+}
+
+function recordError(facts: MutableFacts, msg: SessionRecord, kind: SessionErrorKind, text: string, toolName: string | null = null): void {
+  facts.errorCount += 1
+  facts.recentErrors.push({
+    timestamp: asString(msg.timestamp),
+    kind,
+    toolName,
+    message: text.trim().split('\n')[0].slice(0, 200) || 'Unknown error',
+  })
+  if (facts.recentErrors.length > ERROR_HISTORY) facts.recentErrors.shift()
+}
+
+/**
+ * Record failed tool results, API error replies and interrupted turns.
+ * Runs before the tool result clears its pending call, so the tool name is known.
+ */
+function applyErrors(facts: MutableFacts, msg: SessionRecord, role: string, content: unknown): void {
+  if (role === 'assistant') {
+    if (msg.isApiErrorMessage) recordError(facts, msg, 'api', resultText(content) || 'API error')
+    return
+  }
+
+  if (typeof content === 'string') {
+    if (content.startsWith(INTERRUPTED_PREFIX)) recordError(facts, msg, 'interrupted', content)
+    return
+  }
+
+  for (const block of blocksOf(content)) {
+    const text = asString(block.text)
+    const toolUseId = asString(block.tool_use_id)
+    if (block.type === 'text' && text?.startsWith(INTERRUPTED_PREFIX)) {
+      recordError(facts, msg, 'interrupted', text)
+    } else if (block.type === 'tool_result' && block.is_error) {
+      const text = resultText(block.content)
+      const toolName = toolUseId ? facts.pendingTools[toolUseId] ?? null : null
+      if (text.startsWith(INTERRUPTED_PREFIX)) {
+        recordError(facts, msg, 'interrupted', text, toolName)
+      } else {
+        recordError(facts, msg, 'tool', text, toolName)
+      }
+    }
+  }
+}
+
+/**
+ * Track where the conversation stands: tool calls still awaiting a result,
+ * whether the latest assistant turn ended, and whether it failed.
+ */
+function applyTurnState(facts: MutableFacts, msg: SessionRecord, message: SessionRecord, role: string): void {
+  const content = message.content
+  for (const block of blocksOf(content)) {
+    const id = asString(block.id)
+    const toolUseId = asString(block.tool_use_id)
+    if (block.type === 'tool_use' && id) {
+      facts.pendingTools[id] = asString(block.name) ?? 'unknown'
+      facts.trailingToolUse = asString(block.name) ?? 'unknown'
+    } else if (block.type === 'tool_result' && toolUseId) {
+      delete facts.pendingTools[toolUseId]
+    }
+  }
+
+  if (role === 'assistant') {
+    if (msg.isApiErrorMessage) {
+      facts.lastError = resultText(content) || 'API error'
+      facts.turnEnded = false
+      return
+    }
+    const stopReason = message.stop_reason
+    facts.turnEnded = stopReason === 'end_turn' || stopReason === 'stop_sequence'
+    facts.lastError = null
+  } else if (!msg.isMeta) {
+    facts.turnEnded = false
+  }
+}
+
+/** Count every file a tool call reads, edits or writes. */
+function applyFileTouches(facts: MutableFacts, msg: SessionRecord, content: SessionRecord[]): void {
+  const timestamp = asString(msg.timestamp)
+  for (const block of content) {
+    const name = asString(block.name)
+    if (block.type !== 'tool_use' || !name) continue
+    const kind = FILE_TOOL_KINDS[name]
+    const input = asRecord(block.input)
+    const filePath = input?.file_path ?? input?.notebook_path
+    if (!kind || typeof filePath !== 'string') continue
+
+    const prev = facts.fileTouches[filePath] ?? { reads: 0, edits: 0, writes: 0, lastTouchedAt: null, lastEditedAt: null }
+    facts.fileTouches[filePath] = {
+      reads: prev.reads + (kind === 'read' ? 1 : 0),
+      edits: prev.edits + (kind === 'edit' ? 1 : 0),
+      writes: prev.writes + (kind === 'write' ? 1 : 0),
+      lastTouchedAt: timestamp ?? prev.lastTouchedAt,
+      lastEditedAt: kind === 'read' ? prev.lastEditedAt : timestamp ?? prev.lastEditedAt,
+    }
+  }
+}
+
+/** Fold one parsed JSONL record into the running facts. */
+function applyRecord(facts: MutableFacts, msg: SessionRecord): void {
+  const message = asRecord(msg.message)
+  const timestamp = asString(msg.timestamp)
+  const agentId = asString(msg.agentId)
+  const sessionId = asString(msg.sessionId)
+  const model = asString(message?.model)
+  if (agentId && !facts.agentId) facts.agentId = agentId
+  if (sessionId && !facts.sessionId) facts.sessionId = sessionId
+  if (model) facts.model = model
+  if (timestamp) {
+    facts.firstTimestamp = facts.firstTimestamp ?? timestamp
+    facts.lastTimestamp = timestamp
+  }
+  // Any later record (result, progress output, bookkeeping) means the call is no longer the tail
+  facts.trailingToolUse = null
+
+  const systemError = asString(msg.content)
+  if (msg.type === 'system' && msg.level === 'error' && systemError !== null) {
+    facts.lastError = systemError
+    recordError(facts, msg, 'api', systemError)
+    return
+  }
+
+  const role = message?.role
+  if (!message || (role !== 'user' && role !== 'assistant')) return
+  facts.messageCount += 1
+
+  if (role === 'assistant') applyUsage(facts, msg, message)
+
+  const content = message.content
+  const blocks = blocksOf(content)
+  if (!msg.isMeta) applyErrors(facts, msg, role, content)
+  applyTurnState(facts, msg, message, role)
+  facts.toolUseCount += blocks.filter(b => b.type === 'tool_use').length
+  applySpawns(facts, msg, message, blocks)
+  if (role === 'assistant') applyFileTouches(facts, msg, blocks)
+
+  // The first user message is the prompt the agent was spawned with
+  if (role === 'user' && !msg.isMeta && !facts.promptParsed) {
+    const text = typeof content === 'string' ? content : asString(blocks[0]?.text) ?? ''
+    if (text) {
+      facts.promptParsed = true
+      facts.spawnPrompt = truncateSpawnText(text)
+      if (msg.isCompactSummary || text.startsWith(COMPACT_SUMMARY_PREFIX)) {
+        facts.compactSummary = text
+      }
+      const nameMatch = matchAgentPrompt(text)
+      if (nameMatch) {
+        facts.agentName = nameMatch[1]
+        facts.role = nameMatch[2]
+      }
+      facts.currentTask = extractTask(text)
+    }
+  }
+
+  const action = describeAction(message)
+  if (action) facts.lastAction = action
+}
+
+function applyLines(facts: MutableFacts, chunk: string): void {
+  for (const line of chunk.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const record = asRecord(JSON.parse(line))
+      if (record) applyRecord(facts, record)
+    } catch {
+      // skip malformed lines
+    }
+  }
+}
+
+/**
+ * Read the complete lines between `from` and `size`, handing them to `onLines`
+ * in chunks, and return the offset after the last one. A partially written
+ * trailing line is left for the next call.
+ */
+export async function readCompleteLines(
+  filePath: string,
+  from: number,
+  size: number,
+  onLines: (chunk: string) => void,
+): Promise<number> {
+  const fh = await open(filePath, 'r')
+  let offset = from
+  let chunkSize = TAIL_CHUNK_BYTES
+
+  try {
+    while (offset < size) {
+      const length = Math.min(chunkSize, size - offset)
+      const buf = Buffer.alloc(length)
+      const { bytesRead } = await fh.read(buf, 0, length, offset)
+      if (bytesRead === 0) break
+
+      const lastNewline = buf.lastIndexOf(NEWLINE, bytesRead - 1)
+      if (lastNewline === -1) {
+        // No complete line yet: either the writer is mid-line or the line is longer than the chunk
+        if (offset + bytesRead >= size) break
+        chunkSize *= 2
+        continue
+      }
+
+      onLines(buf.toString('utf-8', 0, lastNewline))
+      offset += lastNewline + 1
+    }
+  } finally {
+    await fh.close()
+  }
+
+  return offset
+}
+
+/** Parse the lines appended since the cursor's offset into `facts`. */
+function readAppended(filePath: string, from: number, size: number, facts: MutableFacts): Promise<number> {
+  return readCompleteLines(filePath, from, size, chunk => applyLines(facts, chunk))
+}
+
+async function tailOnce(filePath: string): Promise<TailResult | null> {
+  const stat = await fs.stat(filePath).catch(() => null)
+  if (!stat) {
+    cursors.delete(filePath)
+    return null
+  }
+
+  let cursor = cursors.get(filePath)
+  if (cursor && cursor.size === stat.size && cursor.mtimeMs === stat.mtimeMs) {
+    return { facts: cursor.facts, lastModified: stat.mtime }
+  }
+
+  if (!cursor || stat.size < cursor.offset) {
+    cursor = { size: 0, mtimeMs: 0, offset: 0, facts: createFacts() }
+  }
+
+  try {
+    const offset = await readAppended(filePath, cursor.offset, stat.size, cursor.facts)
+    cursor = { size: stat.size, mtimeMs: stat.mtimeMs, offset, facts: cursor.facts }
+    cursors.set(filePath, cursor)
+  } catch {
+    // Facts may be half-updated; force a full re-parse next time
+    cursors.delete(filePath)
+    return null
+  }
+
+  return { facts: cursor.facts, lastModified: stat.mtime }
+}
+
+/**
+ * Read a session file incrementally and return its derived facts.
+ * Unchanged files return cached facts without any reads; truncated or
+ * rewritten files are re-parsed from the start. Returns null if unreadable.
+ * Concurrent calls for the same file are queued behind each other.
+ */
+export function tailSessionFile(filePath: string): Promise<TailResult | null> {
+  return queuePerFile(pendingTails, filePath, () => tailOnce(filePath))
+}
+
+/**
+ * Run `read` once the previous read of the same file in `pending` has
+ * settled, so two incremental reads never apply the same bytes twice.
+ */
+export function queuePerFile<T>(
+  pending: Map<string, Promise<T>>,
+  filePath: string,
+  read: () => Promise<T>,
+): Promise<T> {
+  const previous = pending.get(filePath)
+  const next = previous ? previous.catch(() => null).then(read) : read()
+  pending.set(filePath, next)
+
+  const settle = () => {
+    if (pending.get(filePath) === next) pending.delete(filePath)
+  }
+  next.then(settle, settle)
+  return next
+}
+
+/**
+ * Parse a whole session file without keeping a cursor, for one-off reads of
+ * past sessions that would otherwise stay cached. A file that is being tailed
+ * and has not changed since reuses the tailed facts. Returns null if unreadable.
+ */
+export async function readSessionFile(filePath: string): Promise<TailResult | null> {
+  const stat = await fs.stat(filePath).catch(() => null)
+  if (!stat) return null
+
+  const cursor = cursors.get(filePath)
+  if (cursor && cursor.size === stat.size && cursor.mtimeMs === stat.mtimeMs) {
+    return { facts: cursor.facts, lastModified: stat.mtime }
+  }
+
+  const facts = createFacts()
+  try {
+    await readAppended(filePath, 0, stat.size, facts)
+  } catch {
+    return null
+  }
+  return { facts, lastModified: stat.mtime }
+}
+
+/** Drop all cursors so every file is re-parsed from the start. */
+export function resetSessionCursors(): void {
+  cursors.clear()
+}
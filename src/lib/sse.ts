@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import type { DashboardState } from '@/types'
+import { withProject } from '@/lib/use-projects'
 
 const AUTO_REFRESH_MS = 30_000
 
@@ -11,7 +12,8 @@ interface SSEHookResult {
   readonly error: string | null
 }
 
-export function useDashboardSSE(): SSEHookResult {
+/** Live state of one project over SSE; null projectId streams the default project. */
+export function useDashboardSSE(projectId: string | null = null): SSEHookResult {
   const [state, setState] = useState<DashboardState | null>(null)
   const [isConnected, setIsConnected] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -24,7 +26,7 @@ export function useDashboardSSE(): SSEHookResult {
       eventSourceRef.current.close()
     }
 
-    const es = new EventSource('/api/events')
+    const es = new EventSource(withProject('/api/events', projectId))
     eventSourceRef.current = es
 
     es.onopen = () => {
@@ -47,7 +49,7 @@ export function useDashboardSSE(): SSEHookResult {
       setIsConnected(false)
       setError('Connection lost. Reconnecting...')
     }
-  }, [])
+  }, [projectId])
 
   // Auto-refresh: if no activity for 30 seconds, force reconnect to get fresh state
   useEffect(() => {
@@ -66,6 +68,8 @@ export function useDashboardSSE(): SSEHookResult {
   }, [connect])
 
   useEffect(() => {
+    // A different project's stream: don't show the previous project meanwhile
+    setState(null)
     connect()
 
     return () => {
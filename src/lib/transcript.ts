@@ -0,0 +1,202 @@
+/**
+ * Parses a full Claude Code session JSONL file into ordered transcript turns.
+ * Unlike session-reader (which only peeks at the head and tail), this reads the
+ * whole file and is meant for on-demand inspection of a single session.
+ */
+import fs from 'fs/promises'
+import type { BashCommand, SessionTranscript, TranscriptTurn } from '@/types'
+import { findSessionFile } from '@/lib/session-reader'
+import { extractAgentName } from '@/lib/session-tail'
+import { TRANSCRIPT_MAX_TEXT } from '@/lib/constants'
+
+const INTERRUPTED_PREFIX = '[Request interrupted'
+
+function truncate(text: string): string {
+  if (text.length <= TRANSCRIPT_MAX_TEXT) return text
+  return `${text.slice(0, TRANSCRIPT_MAX_TEXT)}\n… (${text.length - TRANSCRIPT_MAX_TEXT} more characters)`
+}
+
+/** Flatten message or tool_result content (string or block array) into plain text. */
+export function contentText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  return content
+    .filter(block => block?.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text as string)
+    .join('\n')
+}
+
+/**
+ * Convert raw JSONL text into transcript turns, oldest first.
+ * Thinking blocks, meta messages and bookkeeping records are skipped.
+ */
+export function parseTranscriptTurns(raw: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = []
+  // tool_use id → tool name, so results can be labelled with the tool that produced them
+  const toolNames = new Map<string, string>()
+
+  const push = (turn: Omit<TranscriptTurn, 'toolName' | 'toolUseId' | 'toolInput'> & Partial<TranscriptTurn>) => {
+    turns.push({
+      toolName: null,
+      toolUseId: null,
+      toolInput: null,
+      ...turn,
+      text: truncate(turn.text),
+    })
+  }
+
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue
+    let msg
+    try {
+      msg = JSON.parse(line)
+    } catch {
+      continue
+    }
+
+    const timestamp: string | null = msg.timestamp ?? null
+
+    if (msg.type === 'system' && msg.level === 'error' && typeof msg.content === 'string') {
+      push({ timestamp, kind: 'error', text: msg.content })
+      continue
+    }
+
+    const message = msg.message
+    if (!message || msg.isMeta) continue
+    const content = message.content
+
+    if (message.role === 'assistant') {
+      if (msg.isApiErrorMessage) {
+        push({ timestamp, kind: 'error', text: contentText(content) || 'API error' })
+        continue
+      }
+      if (!Array.isArray(content)) continue
+      for (const block of content) {
+        if (block?.type === 'text' && block.text?.trim()) {
+          push({ timestamp, kind: 'assistant', text: block.text })
+        } else if (block?.type === 'tool_use') {
+          const name = block.name ?? 'unknown'
+          if (block.id) toolNames.set(block.id, name)
+          push({
+            timestamp,
+            kind: 'tool-use',
+            text: name,
+            toolName: name,
+            toolUseId: block.id ?? null,
+            toolInput: block.input ?? null,
+          })
+        }
+      }
+      continue
+    }
+
+    if (message.role !== 'user') continue
+
+    if (typeof content === 'string') {
+      const kind = content.startsWith(INTERRUPTED_PREFIX) ? 'error' : 'user'
+      push({ timestamp, kind, text: content })
+      continue
+    }
+    if (!Array.isArray(content)) continue
+
+    for (const block of content) {
+      if (block?.type === 'text' && block.text?.trim()) {
+        const kind = block.text.startsWith(INTERRUPTED_PREFIX) ? 'error' : 'user'
+        push({ timestamp, kind, text: block.text })
+      } else if (block?.type === 'tool_result') {
+        const toolUseId: string | null = block.tool_use_id ?? null
+        push({
+          timestamp,
+          kind: block.is_error ? 'error' : 'tool-result',
+          text: contentText(block.content),
+          toolName: toolUseId ? toolNames.get(toolUseId) ?? null : null,
+          toolUseId,
+        })
+      }
+    }
+  }
+
+  return turns
+}
+
+function parseExitCode(output: string, isError: boolean): number | null {
+  const match = output.match(/^Exit code (\d+)/m)
+  if (match) return Number(match[1])
+  return isError ? null : 0
+}
+
+/**
+ * Pair each Bash tool call with its result: command, timing, output and
+ * whether it failed. Commands without a result yet are still running.
+ */
+export function extractBashCommands(turns: readonly TranscriptTurn[]): BashCommand[] {
+  const results = new Map<string, TranscriptTurn>()
+  for (const turn of turns) {
+    if ((turn.kind === 'tool-result' || turn.kind === 'error') && turn.toolUseId) {
+      results.set(turn.toolUseId, turn)
+    }
+  }
+
+  return turns
+    .filter(turn => turn.kind === 'tool-use' && turn.toolName === 'Bash')
+    .map(turn => {
+      const input = turn.toolInput ?? {}
+      const result = turn.toolUseId ? results.get(turn.toolUseId) : undefined
+      const isError = result?.kind === 'error'
+      const startedAt = turn.timestamp
+      const endedAt = result?.timestamp ?? null
+      return {
+        toolUseId: turn.toolUseId,
+        command: typeof input.command === 'string' ? input.command : '',
+        description: typeof input.description === 'string' ? input.description : null,
+        startedAt,
+        endedAt,
+        durationMs: startedAt && endedAt ? Date.parse(endedAt) - Date.parse(startedAt) : null,
+        output: result ? result.text : null,
+        isError,
+        exitCode: result ? parseExitCode(result.text, isError) : null,
+      }
+    })
+}
+
+/**
+ * Read and parse the transcript for a main or subagent session id.
+ * Returns null when no session file with that id exists for the project.
+ */
+export async function readTranscript(
+  claudeHome: string,
+  projectDir: string,
+  sessionId: string,
+): Promise<SessionTranscript | null> {
+  const located = await findSessionFile(claudeHome, projectDir, sessionId)
+  if (!located) return null
+
+  const raw = await fs.readFile(located.filePath, 'utf-8')
+
+  let agentId: string | null = null
+  let model: string | null = null
+  for (const line of raw.split('\n')) {
+    if (agentId && model) break
+    if (!line.trim()) continue
+    try {
+      const msg = JSON.parse(line)
+      agentId = agentId ?? msg.agentId ?? null
+      model = model ?? msg.message?.model ?? null
+    } catch {
+      // skip malformed lines
+    }
+  }
+
+  const turns = parseTranscriptTurns(raw)
+  const firstPrompt = turns.find(t => t.kind === 'user')
+
+  return {
+    sessionId,
+    agentId,
+    agentName: firstPrompt ? extractAgentName(firstPrompt.text) : null,
+    isSubagent: located.isSubagent,
+    model,
+    turns,
+    commands: extractBashCommands(turns),
+  }
+}
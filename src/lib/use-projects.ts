@@ -0,0 +1,65 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import type { ProjectOverview } from '@/types'
+import { PERIODIC_REEVAL_MS } from '@/lib/constants'
+
+/** Append ?project=<id> to an app or API path; the default project needs none. */
+export function withProject(href: string, projectId: string | null): string {
+  if (!projectId) return href
+  const separator = href.includes('?') ? '&' : '?'
+  return `${href}${separator}project=${encodeURIComponent(projectId)}`
+}
+
+/** The project selected by the page's ?project= parameter, or null for the default one. */
+export function useProjectId(): string | null {
+  return useSearchParams().get('project')
+}
+
+/** Link builder that keeps the current page's project selection. */
+export function useProjectHref(): (href: string) => string {
+  const projectId = useProjectId()
+  return useCallback((href: string) => withProject(href, projectId), [projectId])
+}
+
+interface ProjectsResult {
+  readonly projects: readonly ProjectOverview[] | null
+  readonly error: string | null
+}
+
+/** Every configured project's overview, refreshed at the status re-evaluation interval. */
+export function useProjectOverviews(): ProjectsResult {
+  const [projects, setProjects] = useState<ProjectOverview[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = () => {
+      fetch('/api/projects')
+        .then(async res => {
+          const body = await res.json()
+          if (cancelled) return
+          if (!res.ok) {
+            setError(body.error ?? `Failed to load projects (${res.status})`)
+          } else {
+            setError(null)
+            setProjects(body.projects as ProjectOverview[])
+          }
+        })
+        .catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load projects')
+        })
+    }
+
+    load()
+    const timer = setInterval(load, PERIODIC_REEVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [])
+
+  return { projects, error }
+}
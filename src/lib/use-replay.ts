@@ -0,0 +1,66 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { ReplayStatus } from '@/types'
+import type { ReplayCommand } from '@/lib/adapters/replay'
+import { withProject } from '@/lib/use-projects'
+
+/** How often the playback position is refreshed while a recording is replaying. */
+const REPLAY_POLL_MS = 1_000
+
+interface ReplayResult {
+  /** Null while loading, and when the project is not replaying a recording. */
+  readonly status: ReplayStatus | null
+  readonly send: (command: ReplayCommand) => void
+}
+
+/** Playback status of the project's replay, with a way to play, pause, seek and change speed. */
+export function useReplay(projectId: string | null): ReplayResult {
+  const [status, setStatus] = useState<ReplayStatus | null>(null)
+  const url = withProject('/api/replay', projectId)
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setInterval> | null = null
+
+    const load = () => {
+      fetch(url)
+        .then(async res => {
+          if (cancelled) return
+          if (!res.ok) {
+            // Not a replay (404) or broken config: nothing to control, stop asking
+            setStatus(null)
+            if (timer) clearInterval(timer)
+            return
+          }
+          setStatus(await res.json() as ReplayStatus)
+        })
+        .catch(() => {
+          // Keep the last known position; the next poll retries
+        })
+    }
+
+    load()
+    timer = setInterval(load, REPLAY_POLL_MS)
+    return () => {
+      cancelled = true
+      if (timer) clearInterval(timer)
+    }
+  }, [url])
+
+  const send = useCallback((command: ReplayCommand) => {
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(command),
+    })
+      .then(async res => {
+        if (res.ok) setStatus(await res.json() as ReplayStatus)
+      })
+      .catch(() => {
+        // The next poll shows whether the command took effect
+      })
+  }, [url])
+
+  return { status, send }
+}
@@ -1,8 +1,13 @@
 import { EventEmitter } from 'events'
+import path from 'path'
 import { watch, type FSWatcher } from 'chokidar'
 import type { DashboardAdapter } from '@/lib/adapters/types'
 import type { DashboardState } from '@/types'
 import { WATCHER_DEBOUNCE_MS, PERIODIC_REEVAL_MS } from '@/lib/constants'
+import { ReplayAdapter } from '@/lib/adapters/replay'
+import { getHookStore, type HookStore } from '@/lib/hooks'
+import { RunRecorder, recordingFileName } from '@/lib/recorder'
+import { getRecordDir } from '@/lib/config'
 
 export class FileWatcher extends EventEmitter {
   private watcher: FSWatcher | null = null
@@ -10,14 +15,27 @@ export class FileWatcher extends EventEmitter {
   private debounceTimer: ReturnType<typeof setTimeout> | null = null
   private reevalTimer: ReturnType<typeof setInterval> | null = null
   private started = false
+  private unsubscribe: (() => void) | null = null
+  private recorder: RunRecorder | null = null
+  /** Latest state read from the adapter, before hook overrides. */
   private lastState: DashboardState | null = null
+  /** Latest state emitted to clients. */
+  private lastEmitted: DashboardState | null = null
+  private readonly hooks: HookStore | null
+  private readonly onHook = () => {
+    // Push the hook's status right away, then re-read the files it touched
+    if (this.lastState) this.publish(this.withHooks(this.lastState))
+    this.scheduleUpdate()
+  }
 
-  constructor(adapter: DashboardAdapter) {
+  /** `hooks` is the store of hooks sent from this project's directory, or null to show the adapter's state as is. */
+  constructor(adapter: DashboardAdapter, hooks: HookStore | null) {
     super()
     // SSE clients reconnect frequently (30s auto-refresh), each adding a listener.
     // Allow enough headroom for concurrent connections + reconnect overlap.
     this.setMaxListeners(50)
     this.adapter = adapter
+    this.hooks = hooks
   }
 
   async start(): Promise<void> {
@@ -42,6 +60,9 @@ export class FileWatcher extends EventEmitter {
       this.emit('error', error)
     })
 
+    this.hooks?.on('hook', this.onHook)
+    this.unsubscribe = this.adapter.subscribe?.(() => this.scheduleUpdate()) ?? null
+
     // Periodic re-evaluation for time-based status transitions (e.g., Done → Idle).
     // Agent status depends on elapsed time since last file modification, so we
     // need to re-read state periodically even when no files change.
@@ -51,9 +72,47 @@ export class FileWatcher extends EventEmitter {
   }
 
   async getInitialState(): Promise<DashboardState> {
+    const state = await this.readState()
+    this.lastEmitted = state
+    this.recordState(state)
+    return state
+  }
+
+  /** Append every state sent to clients from now on to a run file. */
+  recordTo(recorder: RunRecorder): void {
+    this.recorder = recorder
+  }
+
+  /** The adapter this watcher reads, e.g. for replay controls. */
+  getAdapter(): DashboardAdapter {
+    return this.adapter
+  }
+
+  /** The state last sent to clients, reading it first if nothing has been sent yet. */
+  async getLatestState(): Promise<DashboardState> {
+    return this.lastEmitted ?? this.getInitialState()
+  }
+
+  /** Read from the adapter and overlay statuses pushed by hooks. */
+  private async readState(): Promise<DashboardState> {
     const state = await this.adapter.readState()
     this.lastState = state
-    return state
+    return this.withHooks(state)
+  }
+
+  private withHooks(state: DashboardState): DashboardState {
+    return this.hooks ? this.hooks.applyTo(state) : state
+  }
+
+  private publish(state: DashboardState): void {
+    this.lastEmitted = state
+    this.recordState(state)
+    this.emit('update', state)
+  }
+
+  private recordState(state: DashboardState): void {
+    // Recording is best-effort: a full disk must not take the live dashboard down
+    this.recorder?.record(state).catch(() => undefined)
   }
 
   private scheduleUpdate(): void {
@@ -63,9 +122,7 @@ export class FileWatcher extends EventEmitter {
 
     this.debounceTimer = setTimeout(async () => {
       try {
-        const state = await this.adapter.readState()
-        this.lastState = state
-        this.emit('update', state)
+        this.publish(await this.readState())
       } catch (error) {
         this.emit('error', error)
       }
@@ -78,10 +135,9 @@ export class FileWatcher extends EventEmitter {
    */
   private async reevaluate(): Promise<void> {
     try {
-      const state = await this.adapter.readState()
+      const state = await this.readState()
       if (this.hasStatusChanged(state)) {
-        this.lastState = state
-        this.emit('update', state)
+        this.publish(state)
       }
     } catch {
       // Ignore periodic re-eval errors to avoid spamming
@@ -89,9 +145,9 @@ export class FileWatcher extends EventEmitter {
   }
 
   private hasStatusChanged(newState: DashboardState): boolean {
-    if (!this.lastState) return true
+    if (!this.lastEmitted) return true
 
-    const oldAgents = this.lastState.agents
+    const oldAgents = this.lastEmitted.agents
     const newAgents = newState.agents
 
     if (oldAgents.length !== newAgents.length) return true
@@ -111,6 +167,9 @@ export class FileWatcher extends EventEmitter {
     if (this.reevalTimer) {
       clearInterval(this.reevalTimer)
     }
+    this.hooks?.off('hook', this.onHook)
+    this.unsubscribe?.()
+    this.unsubscribe = null
     if (this.watcher) {
       await this.watcher.close()
       this.watcher = null
@@ -119,12 +178,20 @@ export class FileWatcher extends EventEmitter {
   }
 }
 
-// Singleton instance
-let watcherInstance: FileWatcher | null = null
-
-export function getFileWatcher(adapter: DashboardAdapter): FileWatcher {
-  if (!watcherInstance) {
-    watcherInstance = new FileWatcher(adapter)
+// One watcher per project, shared by every client of that project
+const watchers = new Map<string, FileWatcher>()
+
+/** The project's watcher, creating it with the adapter the first time the project is requested. */
+export function getFileWatcher(projectId: string, createAdapter: () => DashboardAdapter): FileWatcher {
+  let watcher = watchers.get(projectId)
+  if (!watcher) {
+    const adapter = createAdapter()
+    // A replay shows recorded frames only: no live hooks on top, and no recording of the playback
+    const replay = adapter instanceof ReplayAdapter
+    watcher = new FileWatcher(adapter, replay ? null : getHookStore(projectId))
+    const recordDir = getRecordDir()
+    if (recordDir && !replay) watcher.recordTo(new RunRecorder(path.join(recordDir, recordingFileName(projectId))))
+    watchers.set(projectId, watcher)
   }
-  return watcherInstance
+  return watcher
 }
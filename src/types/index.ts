@@ -1,4 +1,15 @@
-export type AgentStatus = 'working' | 'idle' | 'completed'
+/**
+ * `completed` is the time-based "just went quiet" fallback; `finished` means
+ * the session content shows the agent is done (turn ended or result returned).
+ */
+export type AgentStatus =
+  | 'working'
+  | 'waiting-on-tool'
+  | 'blocked-on-user'
+  | 'idle'
+  | 'errored'
+  | 'completed'
+  | 'finished'
 
 export type AgentColor = 'blue' | 'red' | 'green' | 'yellow' | 'purple' | 'cyan'
 
@@ -14,6 +25,32 @@ export interface Agent {
   readonly ticketsCompleted: number
   readonly currentTicket: string | null
   readonly sessionId: string | null
+  /** Context usage from the agent's latest assistant turn, if it has a session file. */
+  readonly contextWindow: ContextWindow | null
+  /** The lead's Task call that started this agent, for subagents linked to one. */
+  readonly spawn: AgentSpawn | null
+  /** The agent that spawned this one (a lead or another subagent); null for leads and unlinked agents. */
+  readonly parentAgentId: string | null
+  /** What the agent needs from the human (e.g. "Bash: rm -rf build"), while blocked-on-user. */
+  readonly blockedOn: string | null
+  /** Failed tool calls, API errors and interrupted turns in the agent's current session. */
+  readonly errorCount: number
+}
+
+/** How a subagent was started: the lead's Task tool call and what it returned. */
+export interface AgentSpawn {
+  /** Agent id of the lead whose session made the call. */
+  readonly parentId: string
+  readonly toolUseId: string
+  readonly spawnedAt: string | null
+  /** Message id of the lead turn that made the call. */
+  readonly turnId: string | null
+  readonly subagentType: string | null
+  readonly description: string | null
+  readonly instructions: string
+  /** The subagent's final answer, once it has finished. */
+  readonly result: string | null
+  readonly completedAt: string | null
 }
 
 export type TicketStatus = 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed'
@@ -28,6 +65,48 @@ export interface Ticket {
   readonly status: TicketStatus
   readonly priority: TicketPriority
   readonly dependencies: readonly string[]
+  /** Commits in the project's git history that mention this ticket's id, newest first. */
+  readonly commits: readonly GitCommit[]
+  /** Reviews of this ticket, oldest first; the last one is its current review status. */
+  readonly reviews: readonly Review[]
+}
+
+export type ReviewVerdict = 'approved' | 'changes-requested' | 'rejected' | 'commented'
+
+export type ReviewFindingSeverity = 'blocker' | 'major' | 'minor' | 'nit'
+
+export interface ReviewFinding {
+  readonly severity: ReviewFindingSeverity
+  readonly file: string | null
+  readonly line: number | null
+  readonly message: string
+}
+
+/** A reviewer's verdict on a ticket, e.g. from a Takt review file. */
+export interface Review {
+  /** Source file name without extension, unique per project. */
+  readonly id: string
+  readonly ticketId: string
+  readonly reviewer: string | null
+  readonly verdict: ReviewVerdict
+  readonly submittedAt: string
+  readonly summary: string | null
+  readonly findings: readonly ReviewFinding[]
+}
+
+/** How a commit was attributed to an agent. */
+export type CommitAgentMatch = 'trailer' | 'author' | 'session'
+
+/** A commit from the project's local git log, correlated with tickets and agents. */
+export interface GitCommit {
+  readonly sha: string
+  readonly timestamp: string
+  readonly author: string
+  readonly subject: string
+  /** Ticket ids mentioned in the commit message. */
+  readonly ticketIds: readonly string[]
+  readonly agentId: string | null
+  readonly agentMatch: CommitAgentMatch | null
 }
 
 export type ActivityEventType =
@@ -40,6 +119,9 @@ export type ActivityEventType =
   | 'milestone-completed'
   | 'message-sent'
   | 'review-submitted'
+  | 'file-conflict'
+  | 'agent-error'
+  | 'commit'
   | 'system'
 
 export interface ActivityEvent {
@@ -76,18 +158,59 @@ export interface UsagePeriod {
   readonly resetIn: string
 }
 
+export type FileTouchKind = 'read' | 'edit' | 'write'
+
+/** How often one agent read, edited or wrote one file during its current session. */
+export interface FileTouch {
+  readonly agentId: string
+  readonly sessionId: string
+  readonly agentStatus: AgentStatus
+  readonly reads: number
+  readonly edits: number
+  readonly writes: number
+  readonly lastTouchedAt: string | null
+  readonly lastEditedAt: string | null
+}
+
+/** Every agent that touched a file, and whether concurrently working agents are editing it. */
+export interface FileActivity {
+  /** Relative to the project directory when inside it, absolute otherwise. */
+  readonly path: string
+  readonly touches: readonly FileTouch[]
+  readonly conflict: boolean
+}
+
 export interface ContextWindow {
   readonly used: number
   readonly total: number
   readonly percentage: number
 }
 
+/** Token counts from an assistant message's `usage` block. */
+export interface TokenUsage {
+  readonly input: number
+  readonly output: number
+  readonly cacheCreation: number
+  readonly cacheRead: number
+}
+
+/** Token usage of one session file, attributed to the agent that wrote it. */
+export interface UsageBreakdownEntry {
+  readonly agentId: string
+  readonly sessionId: string
+  readonly daily: number
+  readonly weekly: number
+  readonly tokens: TokenUsage
+}
+
 export interface ResourceUsage {
   readonly daily: UsagePeriod
   readonly weekly: UsagePeriod
   readonly contextWindow: ContextWindow
   readonly model: string
   readonly lastUpdated: string | null
+  /** Per-session usage for the watched project, highest weekly usage first. */
+  readonly breakdown: readonly UsageBreakdownEntry[]
 }
 
 export interface Message {
@@ -108,3 +231,81 @@ export interface DashboardState {
   readonly messages: readonly Message[]
   readonly error: string | null
 }
+
+export type TranscriptTurnKind = 'user' | 'assistant' | 'tool-use' | 'tool-result' | 'error'
+
+export interface TranscriptTurn {
+  readonly timestamp: string | null
+  readonly kind: TranscriptTurnKind
+  readonly text: string
+  readonly toolName: string | null
+  readonly toolUseId: string | null
+  readonly toolInput: Readonly<Record<string, unknown>> | null
+}
+
+/** One past or current main session of the project, for the history index. */
+export interface SessionSummary {
+  readonly sessionId: string
+  /** Earliest and latest record timestamps across the lead and its subagents. */
+  readonly startedAt: string | null
+  readonly endedAt: string | null
+  readonly durationMs: number | null
+  readonly subagentCount: number
+  /** Tokens counted toward usage limits (input + output + cache writes) over the whole run. */
+  readonly tokens: number
+  readonly firstPrompt: string | null
+}
+
+/** One configured project's headline numbers, for the multi-project landing page. */
+export interface ProjectOverview {
+  readonly id: string
+  readonly dir: string
+  readonly name: string
+  readonly phase: string
+  readonly status: string
+  readonly currentMilestone: string | null
+  readonly ticketsSummary: TicketsSummary
+  readonly workingAgents: number
+  readonly totalAgents: number
+  readonly error: string | null
+}
+
+/** One Bash tool call and its outcome. */
+export interface BashCommand {
+  readonly toolUseId: string | null
+  readonly command: string
+  readonly description: string | null
+  readonly startedAt: string | null
+  /** Null while the command is still running. */
+  readonly endedAt: string | null
+  readonly durationMs: number | null
+  /** The tool_result text; null while still running. */
+  readonly output: string | null
+  readonly isError: boolean
+  /** Parsed from "Exit code N" in failed results; 0 for successful ones, null if unknown. */
+  readonly exitCode: number | null
+}
+
+export interface SessionTranscript {
+  readonly sessionId: string
+  readonly agentId: string | null
+  readonly agentName: string | null
+  readonly isSubagent: boolean
+  readonly model: string | null
+  readonly turns: readonly TranscriptTurn[]
+  /** Bash calls in the order they were made. */
+  readonly commands: readonly BashCommand[]
+}
+
+/** Playback position of a recorded run being replayed. */
+export interface ReplayStatus {
+  readonly file: string
+  /** Wall-clock time of the first and last recorded frame. */
+  readonly recordedFrom: string | null
+  readonly recordedTo: string | null
+  readonly durationMs: number
+  readonly positionMs: number
+  readonly speed: number
+  readonly paused: boolean
+  readonly frames: number
+}